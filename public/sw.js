@@ -0,0 +1,187 @@
+// Service worker: keeps the app usable on patchy mobile data.
+//   - Pages and static assets: network first, the cached copy when offline
+//   - /lite pages: left to the browser
+//   - /api/<incident>/sheets and /api/<incident>/sos: network first, the last good response when
+//     offline, marked with X-Offline-Cached-At so pages can say how old it is
+// SOS responses live in their own cache, dropped on login, logout, any 401/403
+// and once the session they were fetched with has expired.
+// Also shows Web Push notifications sent by src/lib/push.ts.
+
+const VERSION = "v2";
+const SHELL_CACHE = `shell-${VERSION}`;
+const DATA_CACHE = `data-${VERSION}`;
+const SOS_CACHE = `sos-${VERSION}`;
+
+const PRECACHE_URLS = ["/", "/login", "/manifest.webmanifest", "/icon.svg"];
+const NETWORK_TIMEOUT = 10 * 1000; // a request hanging on one bar of signal counts as offline
+const OFFLINE_HEADER = "X-Offline-Cached-At";
+
+const SHEETS_API = /^\/api\/[^/]+\/sheets$/;
+const SOS_API = /^\/api\/[^/]+\/sos$/;
+const SOS_PAGE = /^\/[^/]+\/sos(\/|$)/;
+const LOGIN_PATHS = ["/api/auth/login", "/api/auth/logout", "/lite/login"];
+
+self.addEventListener("install", (event) => {
+  event.waitUntil(
+    caches.open(SHELL_CACHE).then((cache) =>
+      // One missing page shouldn't stop the rest from being cached
+      Promise.all(PRECACHE_URLS.map((url) => cache.add(url).catch(() => {})))
+    )
+  );
+  self.skipWaiting();
+});
+
+self.addEventListener("activate", (event) => {
+  const current = [SHELL_CACHE, DATA_CACHE, SOS_CACHE];
+  event.waitUntil(
+    caches.keys()
+      .then((keys) => Promise.all(keys.filter((key) => !current.includes(key)).map((key) => caches.delete(key))))
+      .then(() => self.clients.claim())
+  );
+});
+
+self.addEventListener("fetch", (event) => {
+  const { request } = event;
+  const url = new URL(request.url);
+  if (url.origin !== self.location.origin) return;
+
+  if (request.method !== "GET") {
+    // Logging in or out changes who may see the cached SOS data
+    if (LOGIN_PATHS.includes(url.pathname)) {
+      event.waitUntil(caches.delete(SOS_CACHE));
+    }
+    return;
+  }
+  // Lite pages, the SOS list among them, are never kept for offline use
+  if (url.pathname === "/lite" || url.pathname.startsWith("/lite/")) return;
+
+  if (SHEETS_API.test(url.pathname)) {
+    event.respondWith(networkFirst(request, DATA_CACHE));
+  } else if (SOS_API.test(url.pathname)) {
+    event.respondWith(sosNetworkFirst(request));
+  } else if (url.pathname.startsWith("/_next/static/")) {
+    event.respondWith(cacheFirst(request));
+  } else if (request.mode === "navigate") {
+    event.respondWith(pageNetworkFirst(request));
+  }
+});
+
+function fetchWithTimeout(request) {
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(() => reject(new Error("Network timeout")), NETWORK_TIMEOUT);
+    fetch(request).then(resolve, reject).finally(() => clearTimeout(timer));
+  });
+}
+
+// Copy of a response marked with when it was stored
+async function stamped(response) {
+  const headers = new Headers(response.headers);
+  headers.set(OFFLINE_HEADER, String(Date.now()));
+  return new Response(await response.blob(), { status: response.status, statusText: response.statusText, headers });
+}
+
+function jsonResponse(body, status) {
+  return new Response(JSON.stringify(body), { status, headers: { "Content-Type": "application/json" } });
+}
+
+const offlineResponse = () => jsonResponse({ error: "離線中，此裝置未有已儲存的資料", offline: true }, 503);
+
+async function networkFirst(request, cacheName) {
+  try {
+    const response = await fetchWithTimeout(request);
+    if (response.ok) {
+      const cache = await caches.open(cacheName);
+      await cache.put(request, await stamped(response.clone()));
+    }
+    return response;
+  } catch {
+    return (await caches.match(request, { cacheName })) || offlineResponse();
+  }
+}
+
+async function sosNetworkFirst(request) {
+  try {
+    const response = await fetchWithTimeout(request);
+    if (response.status === 401 || response.status === 403) {
+      await caches.delete(SOS_CACHE);
+    } else if (response.ok) {
+      const cache = await caches.open(SOS_CACHE);
+      await cache.put(request, await stamped(response.clone()));
+    }
+    return response;
+  } catch {
+    const cached = await caches.match(request, { cacheName: SOS_CACHE });
+    if (!cached) return offlineResponse();
+
+    // Same rule as the server: no valid session, no SOS data
+    const expires = Number(cached.headers.get("X-Session-Expires"));
+    if (!expires || expires < Date.now()) {
+      await caches.delete(SOS_CACHE);
+      return jsonResponse({ error: "登入已過期，請重新登入", reauth: true }, 401);
+    }
+    return cached;
+  }
+}
+
+// Build assets have hashed names, so a cached copy never goes stale
+async function cacheFirst(request) {
+  const cached = await caches.match(request, { cacheName: SHELL_CACHE });
+  if (cached) return cached;
+
+  const response = await fetch(request);
+  if (response.ok) {
+    const cache = await caches.open(SHELL_CACHE);
+    await cache.put(request, response.clone());
+  }
+  return response;
+}
+
+async function pageNetworkFirst(request) {
+  const { pathname } = new URL(request.url);
+  try {
+    const response = await fetchWithTimeout(request);
+    if (response.type === "opaqueredirect" && SOS_PAGE.test(pathname)) {
+      // Sent to the login page: whoever is using this device may no longer see SOS data
+      await caches.delete(SOS_CACHE);
+    } else if (response.ok) {
+      // Keyed by path so /?gid=... links open offline too
+      const cache = await caches.open(SHELL_CACHE);
+      await cache.put(pathname, response.clone());
+    }
+    return response;
+  } catch {
+    return (
+      (await caches.match(pathname, { cacheName: SHELL_CACHE })) ||
+      (await caches.match("/", { cacheName: SHELL_CACHE })) ||
+      Response.error()
+    );
+  }
+}
+
+// Payload from src/lib/push.ts: { title, body, url, unsubscribeUrl }
+self.addEventListener("push", (event) => {
+  const data = event.data ? event.data.json() : {};
+  event.waitUntil(
+    self.registration.showNotification(data.title || "有新更新", {
+      body: data.body || "",
+      icon: "/icon.svg",
+      badge: "/icon.svg",
+      data,
+      actions: data.unsubscribeUrl ? [{ action: "unsubscribe", title: "取消通知" }] : [],
+    })
+  );
+});
+
+self.addEventListener("notificationclick", (event) => {
+  event.notification.close();
+  const data = event.notification.data || {};
+  const target = new URL((event.action === "unsubscribe" ? data.unsubscribeUrl : data.url) || "/", self.location.origin);
+
+  event.waitUntil(
+    self.clients.matchAll({ type: "window", includeUncontrolled: true }).then((windows) => {
+      // Reuse an open tab of the app rather than stacking up new ones
+      const open = windows.find((client) => new URL(client.url).origin === target.origin);
+      return open ? open.navigate(target.href).then((client) => (client || open).focus()) : self.clients.openWindow(target.href);
+    })
+  );
+});
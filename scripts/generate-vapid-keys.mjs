@@ -0,0 +1,10 @@
+// Prints a VAPID key pair for Web Push: node scripts/generate-vapid-keys.mjs
+import { createECDH } from "crypto";
+
+const ecdh = createECDH("prime256v1");
+ecdh.generateKeys();
+
+// The private key is a 32-byte number; keep leading zero bytes
+const privateKey = ecdh.getPrivateKey();
+console.log(`VAPID_PUBLIC_KEY=${ecdh.getPublicKey().toString("base64url")}`);
+console.log(`VAPID_PRIVATE_KEY=${Buffer.concat([Buffer.alloc(32 - privateKey.length), privateKey]).toString("base64url")}`);
@@ -0,0 +1,11 @@
+// Prints a password hash for config/users.json: node scripts/hash-password.mjs <password>
+import { randomBytes, scryptSync } from "crypto";
+
+const password = process.argv[2];
+if (!password) {
+  console.error("Usage: node scripts/hash-password.mjs <password>");
+  process.exit(1);
+}
+
+const salt = randomBytes(16).toString("hex");
+console.log(`scrypt$${salt}$${scryptSync(password, salt, 64).toString("hex")}`);
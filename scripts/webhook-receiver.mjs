@@ -0,0 +1,43 @@
+// Local webhook receiver for testing: node scripts/webhook-receiver.mjs <port> <secret> [failCount]
+// Checks the X-SOS-Signature header and prints each delivery. With failCount,
+// answers the first N requests with HTTP 500 to exercise retries.
+import { createHmac, timingSafeEqual } from "crypto";
+import { createServer } from "http";
+
+const [port, secret, failCount = "0"] = process.argv.slice(2);
+if (!port || !secret) {
+  console.error("Usage: node scripts/webhook-receiver.mjs <port> <secret> [failCount]");
+  process.exit(1);
+}
+
+let failuresLeft = Number(failCount);
+
+createServer((req, res) => {
+  let body = "";
+  req.on("data", chunk => (body += chunk));
+  req.on("end", () => {
+    const timestamp = req.headers["x-sos-timestamp"];
+    const signature = String(req.headers["x-sos-signature"] || "");
+    const expected = `sha256=${createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex")}`;
+    const valid = signature.length === expected.length && timingSafeEqual(Buffer.from(signature), Buffer.from(expected));
+
+    if (!valid) {
+      console.log(`${req.headers["x-sos-delivery"]}: bad signature`);
+      res.writeHead(401).end();
+      return;
+    }
+    if (failuresLeft > 0) {
+      failuresLeft--;
+      console.log(`${req.headers["x-sos-delivery"]}: failing on purpose`);
+      res.writeHead(500).end();
+      return;
+    }
+
+    const payload = JSON.parse(body);
+    console.log(`${payload.id}: ${payload.changes.length} change(s) at ${payload.refreshedAt}`);
+    for (const change of payload.changes) {
+      console.log(`  ${change.type} ${change.tab} ${change.location}: ${change.previousStatus ? `${change.previousStatus} -> ` : ""}${change.status}`);
+    }
+    res.writeHead(204).end();
+  });
+}).listen(Number(port), () => console.log(`Listening on http://localhost:${port}`));
@@ -0,0 +1,39 @@
+import type { Metadata } from "next";
+import { notFound } from "next/navigation";
+import { IncidentProvider } from "@/components/IncidentContext";
+import { translate } from "@/lib/i18n";
+import { getIncident, IncidentParams, summarizeIncident } from "@/lib/incidents";
+import { getRequestLocale } from "@/lib/requestLocale";
+
+export const dynamic = "force-dynamic";
+
+export async function generateMetadata({ params }: IncidentParams): Promise<Metadata> {
+  const incident = getIncident((await params).incident);
+  if (!incident) return {};
+
+  const locale = await getRequestLocale();
+  return {
+    title: `${incident.title}${translate(locale, "site.readOnly")}`,
+    description: incident.description || translate(locale, "site.incidentDescription", { title: incident.title }),
+    appleWebApp: { capable: true, title: incident.title },
+  };
+}
+
+// Every page under /<slug> renders for one incident from the registry
+export default async function IncidentLayout({ children, params }: IncidentParams & { children: React.ReactNode }) {
+  const incident = getIncident((await params).incident);
+  if (!incident) notFound();
+
+  const locale = await getRequestLocale();
+  return (
+    <IncidentProvider incident={summarizeIncident(incident)}>
+      <noscript>
+        <p className="bg-amber-100 text-amber-900 text-sm px-4 py-2">
+          {translate(locale, "lite.noscript")}
+          <a href={`/lite/${incident.slug}`} className="underline">{translate(locale, "lite.name")}</a>
+        </p>
+      </noscript>
+      {children}
+    </IncidentProvider>
+  );
+}
@@ -0,0 +1,751 @@
+"use client";
+
+import { useState, useEffect, useCallback, useRef } from "react";
+import Link from "next/link";
+import { formatLocation, LocationConfidence, ParsedLocation } from "@/lib/location";
+import { ALL_STATUSES, filterCases, TRIAGE_STATES, UNTRIAGED } from "@/lib/sosFilters";
+import { useLiveUpdates } from "@/lib/useLiveUpdates";
+import { clearOfflineSOSData, offlineCachedAt } from "@/lib/offline";
+import TriagePanel, { TriageAnnotation, TriageUpdate } from "@/components/TriagePanel";
+import OfflineBanner from "@/components/OfflineBanner";
+import PushSubscribe from "@/components/PushSubscribe";
+import { useIncident } from "@/components/IncidentContext";
+import LanguageSwitcher from "@/components/LanguageSwitcher";
+import { useLocale } from "@/components/LocaleContext";
+
+interface SheetTab {
+  name: string;
+  id: number;
+}
+
+interface SOSItem {
+  timestamp: string;
+  timestampISO: string | null; // null when the sheet's timestamp couldn't be parsed
+  timestampObj: number | null;
+  location: string;
+  block: string | null;
+  floor: string | null;
+  unit: string | null;
+  locationConfidence: LocationConfidence;
+  status: string;
+  details: string;
+  source: string;
+  extra: Record<string, string>; // optional fields from the column config
+}
+
+interface SOSCase extends SOSItem {
+  key: string;
+  resolved: boolean;
+  history: SOSItem[];
+  triage: TriageAnnotation | null;
+}
+
+interface TabStatus {
+  age: number | null;
+  error: string | null;
+  errorAt: number | null;
+}
+
+interface SheetData {
+  name: string;
+  id: number;
+  items: SOSCase[];
+  cacheAge: number;
+  stale: boolean;
+  tabStatus: TabStatus;
+}
+
+interface SOSChange {
+  type: "added" | "changed" | "removed";
+  key: string;
+}
+
+interface ChangesResponse {
+  cursor: number;
+  reset?: boolean;
+  changes: SOSChange[];
+  error?: string;
+}
+
+interface SessionInfo {
+  user: string | null;
+  role?: "viewer" | "coordinator";
+}
+
+interface TabsResponse {
+  tabs: SheetTab[];
+  cacheAge: number;
+  error?: string;
+}
+
+const REFRESH_INTERVAL = 5 * 60 * 1000; // 5 minutes, polling fallback when the live connection is down
+
+// Thrown when the API reports the session has expired (401)
+class SessionExpiredError extends Error {}
+const lastVisitKey = (incident: string) => `sos:${incident}:lastVisitCursor`;
+
+// Timestamp as typed in the sheet, flagged when it couldn't be read as a time
+function ReportTime({ item }: { item: SOSItem }) {
+  const { t } = useLocale();
+  if (item.timestampISO) return <span title={item.timestampISO}>{item.timestamp}</span>;
+  return (
+    <span>
+      <span className="font-medium text-orange-700">{t("sos.unknownTime")}</span>
+      {item.timestamp && <span className="ml-1">{t("sos.rawTime", { time: item.timestamp })}</span>}
+    </span>
+  );
+}
+
+// Parsed block / floor / unit in the interface language, e.g. "Block 2 18/F Flat C"
+function LocationLabel({ location }: { location: Pick<ParsedLocation, "block" | "floor" | "unit"> }) {
+  const { t } = useLocale();
+  return (
+    <>
+      {[
+        location.block && t("location.block", { block: location.block }),
+        location.floor && t("location.floor", { floor: location.floor }),
+        location.unit && t("location.unit", { unit: location.unit }),
+      ].filter(Boolean).join(" ")}
+    </>
+  );
+}
+
+export default function SOSPage() {
+  const incident = useIncident();
+  const { t, formatTime } = useLocale();
+  const api = `/api/${incident.slug}/sos`;
+  const [tabs, setTabs] = useState<SheetTab[]>([]);
+  // ?id=&case= links from search results open a tab at a case
+  const [activeTabId, setActiveTabId] = useState<number | null>(() => {
+    if (typeof window === "undefined") return null;
+    const id = parseInt(new URLSearchParams(window.location.search).get("id") || "");
+    return isNaN(id) ? null : id;
+  });
+  const [focusedCaseKey] = useState<string | null>(() =>
+    typeof window === "undefined" ? null : new URLSearchParams(window.location.search).get("case")
+  );
+  const [sheetData, setSheetData] = useState<SheetData | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [lastUpdated, setLastUpdated] = useState<Date | null>(null);
+  // Set while showing the service worker's offline copy
+  const [offlineAt, setOfflineAt] = useState<number | null>(null);
+  // Keep showing the last list when the session runs out mid-refresh, with a prompt to log in again
+  const [sessionExpired, setSessionExpired] = useState(false);
+  const [session, setSession] = useState<SessionInfo | null>(null);
+  
+  // Filter state
+  const [selectedStatus, setSelectedStatus] = useState<string>(ALL_STATUSES);
+  const [selectedTriage, setSelectedTriage] = useState<string>(ALL_STATUSES);
+  const [availableStatuses, setAvailableStatuses] = useState<string[]>([]);
+  const [searchQuery, setSearchQuery] = useState<string>("");
+  const [expandedKeys, setExpandedKeys] = useState<Set<string>>(new Set());
+
+  // Changes since the previous visit
+  const [changedKeys, setChangedKeys] = useState<Map<string, "added" | "changed">>(new Map());
+  const [removedCount, setRemovedCount] = useState(0);
+  // Cursor saved by the previous visit; stays fixed so highlights last for the whole visit
+  const lastVisitCursorRef = useRef<string | null | undefined>(undefined);
+
+  // Push notifications for one block / floor / unit, filled in from a case card
+  const [pushAvailable, setPushAvailable] = useState(false);
+  const [pushPrefill, setPushPrefill] = useState<{ text: string } | null>(null);
+
+  // Fetch tabs list
+  const fetchTabs = useCallback(async () => {
+    try {
+      const res = await fetch(api);
+      const data: TabsResponse = await res.json();
+      
+      if (res.status === 401) throw new SessionExpiredError();
+      if (!res.ok) throw new Error(data.error || "Failed to fetch tabs");
+      
+      setTabs(data.tabs);
+      if (data.tabs.length > 0 && activeTabId === null) {
+        setActiveTabId(data.tabs[0].id);
+      }
+    } catch (err) {
+      if (err instanceof SessionExpiredError) {
+        setSessionExpired(true);
+      } else {
+        setError(err instanceof Error ? err.message : "Failed to load data");
+      }
+    }
+  }, [api, activeTabId]);
+
+  // Fetch what changed since the previous visit, and remember where this visit got to
+  const fetchChanges = useCallback(async (tabId: number) => {
+    if (lastVisitCursorRef.current === undefined) {
+      lastVisitCursorRef.current = localStorage.getItem(lastVisitKey(incident.slug));
+    }
+    const since = lastVisitCursorRef.current;
+
+    try {
+      const res = await fetch(since ? `${api}/changes?since=${since}&id=${tabId}` : `${api}/changes`);
+      const data: ChangesResponse = await res.json();
+
+      if (!res.ok) throw new Error(data.error || "Failed to fetch changes");
+
+      localStorage.setItem(lastVisitKey(incident.slug), String(data.cursor));
+
+      // First visit, or the previous one is older than the kept history
+      if (!since || data.reset) {
+        setChangedKeys(new Map());
+        setRemovedCount(0);
+        return;
+      }
+
+      const changed = new Map<string, "added" | "changed">();
+      for (const change of data.changes) {
+        if (change.type !== "removed") changed.set(change.key, change.type);
+      }
+      setChangedKeys(changed);
+      setRemovedCount(data.changes.filter(c => c.type === "removed").length);
+    } catch (err) {
+      // Highlights are a nice-to-have; the list itself still loads
+      console.error("Failed to load changes:", err);
+    }
+  }, [api, incident.slug]);
+
+  // Fetch active sheet data
+  const fetchSheetData = useCallback(async () => {
+    if (activeTabId === null) return;
+    
+    setLoading(true);
+    setError(null);
+    
+    try {
+      const res = await fetch(`${api}?id=${activeTabId}`);
+      const data = await res.json();
+      
+      if (res.status === 401) throw new SessionExpiredError();
+      if (!res.ok) throw new Error(data.error || "Failed to fetch sheet data");
+      
+      const cachedAt = offlineCachedAt(res);
+      setSessionExpired(false);
+      setSheetData(data);
+      setOfflineAt(cachedAt);
+      // The change cursor only moves on live data
+      if (!cachedAt) fetchChanges(activeTabId);
+      
+      // Extract unique statuses
+      if (data.items) {
+        const statuses = Array.from(new Set(data.items.map((i: SOSItem) => i.status))).filter(Boolean) as string[];
+        setAvailableStatuses([ALL_STATUSES, ...statuses.sort()]);
+        // Reset filter if current selection is no longer available
+        if (selectedStatus !== ALL_STATUSES && !statuses.includes(selectedStatus)) {
+          setSelectedStatus(ALL_STATUSES);
+        }
+      }
+      
+      setLastUpdated(cachedAt ? new Date(cachedAt) : new Date());
+    } catch (err) {
+      if (err instanceof SessionExpiredError) {
+        setSessionExpired(true);
+      } else {
+        setError(err instanceof Error ? err.message : "Failed to load sheet data");
+      }
+    } finally {
+      setLoading(false);
+    }
+  }, [api, activeTabId, fetchChanges]);
+
+  // Initial load
+  useEffect(() => {
+    fetchTabs();
+  }, [fetchTabs]);
+
+  useEffect(() => {
+    fetch("/api/auth/session")
+      .then((res) => res.json())
+      .then(setSession)
+      .catch(() => setSession(null));
+  }, []);
+
+  const handleLogout = async () => {
+    await fetch("/api/auth/logout", { method: "POST" }).catch(() => {});
+    await clearOfflineSOSData().catch(() => {});
+    window.location.href = "/login";
+  };
+
+  // Save a triage annotation and show it straight away
+  const saveTriage = async (key: string, update: TriageUpdate) => {
+    const res = await fetch(`${api}/triage`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ id: activeTabId, key, ...update }),
+    });
+    const data = await res.json();
+    if (res.status === 401) {
+      setSessionExpired(true);
+      throw new Error(t("sos.expiredError"));
+    }
+    if (!res.ok) throw new Error(data.error || t("common.saveFailed"));
+
+    setSheetData((prev) => prev && {
+      ...prev,
+      items: prev.items.map((item) => (item.key === key ? { ...item, triage: data.annotation } : item)),
+    });
+  };
+
+  const loginUrl = () =>
+    `/login?expired=1&next=${encodeURIComponent(window.location.pathname + window.location.search)}`;
+
+  // Load sheet data when active tab changes
+  useEffect(() => {
+    if (activeTabId !== null) {
+      fetchSheetData();
+    }
+  }, [activeTabId, fetchSheetData]);
+
+  // Live updates from the server, polling if the connection drops
+  const handleRefresh = useCallback((changed: boolean) => {
+    if (changed) {
+      fetchSheetData();
+    } else {
+      setLastUpdated(new Date());
+    }
+  }, [fetchSheetData]);
+
+  const { live, nextRefreshIn } = useLiveUpdates(incident.slug, "sos", REFRESH_INTERVAL, handleRefresh);
+
+  // Scroll to the case linked from search the first time it's on screen
+  const scrolledToCaseRef = useRef(false);
+  useEffect(() => {
+    if (!focusedCaseKey || !sheetData || scrolledToCaseRef.current) return;
+    const card = document.getElementById(`case-${focusedCaseKey}`);
+    if (card) {
+      card.scrollIntoView({ block: "center" });
+      scrolledToCaseRef.current = true;
+    }
+  }, [focusedCaseKey, sheetData]);
+
+  const toggleExpanded = (key: string) => {
+    setExpandedKeys((prev) => {
+      const next = new Set(prev);
+      if (next.has(key)) {
+        next.delete(key);
+      } else {
+        next.add(key);
+      }
+      return next;
+    });
+  };
+
+  const formatCountdown = (seconds: number) => {
+    const mins = Math.floor(seconds / 60);
+    const secs = seconds % 60;
+    return `${mins}:${secs.toString().padStart(2, "0")}`;
+  };
+
+  // Filter items
+  const filteredItems = sheetData
+    ? filterCases(sheetData.items, { status: selectedStatus, query: searchQuery, triage: selectedTriage })
+    : [];
+
+  // Export and print the same tab, status and search as the list on screen
+  const listParams = (extra: Record<string, string> = {}) => {
+    const params = new URLSearchParams({ id: String(activeTabId), ...extra });
+    if (selectedStatus !== ALL_STATUSES) params.set("status", selectedStatus);
+    if (selectedTriage !== ALL_STATUSES) params.set("triage", selectedTriage);
+    if (searchQuery) params.set("q", searchQuery);
+    return params;
+  };
+  const exportUrl = (format: "csv" | "xlsx") => `${api}/export?${listParams({ format })}`;
+
+  const addedCount = Array.from(changedKeys.values()).filter(t => t === "added").length;
+  const statusChangedCount = changedKeys.size - addedCount;
+
+  return (
+    <main className="min-h-screen bg-slate-50">
+      {/* Header Section */}
+      <div className="bg-gradient-to-r from-red-700 to-red-900 text-white pb-12 pt-8 px-4 md:px-8 shadow-lg">
+        <div className="max-w-7xl mx-auto">
+          <div className="flex flex-col md:flex-row md:items-center justify-between gap-4 mb-6">
+            <div>
+              <h1 className="text-3xl md:text-4xl font-bold mb-2 tracking-tight">
+                {t("sos.title")}
+              </h1>
+              <p className="text-red-100 text-sm md:text-base opacity-90">
+                {t("sos.source", { title: incident.title })}
+              </p>
+              <LanguageSwitcher className="mt-2 text-red-100" />
+            </div>
+            <div className="flex gap-2">
+            <Link 
+              href={`/${incident.slug}`}
+              className="inline-flex items-center justify-center px-5 py-2.5 bg-white/10 hover:bg-white/20 text-white rounded-full transition-all backdrop-blur-sm text-sm font-medium border border-white/20"
+            >
+              <svg className="w-4 h-4 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M10 19l-7-7m0 0l7-7m-7 7h18" />
+              </svg>
+              {t("common.backHome")}
+            </Link>
+            {session?.user && (
+              <button
+                onClick={handleLogout}
+                className="inline-flex items-center justify-center px-5 py-2.5 bg-white/10 hover:bg-white/20 text-white rounded-full transition-all backdrop-blur-sm text-sm font-medium border border-white/20"
+              >
+                {session.user !== "passcode" ? t("sos.logoutAs", { user: session.user }) : t("sos.logout")}
+              </button>
+            )}
+            </div>
+          </div>
+
+          {/* Status Bar in Header */}
+          <div className="flex flex-wrap items-center gap-4 text-xs md:text-sm text-red-100/80 bg-black/10 inline-flex px-4 py-2 rounded-lg backdrop-blur-sm">
+            {lastUpdated && (
+              <span className="flex items-center">
+                <svg className="w-4 h-4 mr-1.5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15" />
+                </svg>
+                {t("status.lastUpdated", { time: formatTime(lastUpdated) })}
+              </span>
+            )}
+            {nextRefreshIn > 0 && (
+              <span className="opacity-75 border-l border-white/20 pl-4">
+                {t("status.nextRefresh", { countdown: formatCountdown(nextRefreshIn) })}
+              </span>
+            )}
+            <span className="flex items-center border-l border-white/20 pl-4">
+              <span className={`w-2 h-2 rounded-full mr-1.5 ${live ? "bg-green-400" : "bg-gray-400"}`}></span>
+              {live ? t("status.live") : t("status.polling")}
+            </span>
+            {sheetData?.stale && (
+              <span className="text-yellow-200 font-medium border-l border-white/20 pl-4">
+                {t("status.stale")}
+              </span>
+            )}
+            {loading && <span className="text-white font-semibold animate-pulse">{t("status.updating")}</span>}
+          </div>
+        </div>
+      </div>
+
+      <div className="max-w-7xl mx-auto px-4 md:px-8 -mt-8">
+        {error && (
+          <div className="bg-red-50 border-l-4 border-red-500 text-red-700 p-4 rounded shadow-sm mb-6 flex items-start">
+            <svg className="w-5 h-5 mr-3 mt-0.5 flex-shrink-0" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4m0 4h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
+            </svg>
+            {error}
+          </div>
+        )}
+
+        {offlineAt && <OfflineBanner cachedAt={offlineAt} />}
+
+        {sessionExpired && (
+          <div className="bg-yellow-50 border-l-4 border-yellow-400 text-yellow-800 p-4 rounded shadow-sm mb-6 text-sm flex items-center justify-between gap-4">
+            <span>{t("sos.sessionExpired")}</span>
+            <a href={loginUrl()} className="font-medium underline whitespace-nowrap">{t("sos.relogin")}</a>
+          </div>
+        )}
+
+        {sheetData?.tabStatus.error && (
+          <div className="bg-yellow-50 border-l-4 border-yellow-400 text-yellow-800 p-4 rounded shadow-sm mb-6 text-sm">
+            {sheetData.tabStatus.age !== null
+              ? t("status.tabFailedMinutes", { n: Math.max(1, Math.round(sheetData.tabStatus.age / 60)) })
+              : t("status.tabFailedEarlier")}
+          </div>
+        )}
+
+        {/* Controls Container */}
+        <div className="bg-white rounded-xl shadow-md border border-gray-100 p-4 md:p-6 mb-8">
+            {/* Tabs */}
+            {tabs.length > 0 && (
+            <div className="mb-6 overflow-x-auto pb-2 no-scrollbar">
+                <div className="flex gap-2 min-w-max">
+                {tabs.map((tab) => (
+                    <button
+                    key={tab.id}
+                    onClick={() => setActiveTabId(tab.id)}
+                    className={`px-5 py-2.5 text-sm font-medium rounded-lg transition-all whitespace-nowrap ${
+                        activeTabId === tab.id
+                        ? "bg-gray-900 text-white shadow-md transform scale-105"
+                        : "bg-gray-100 text-gray-600 hover:bg-gray-200 hover:text-gray-900"
+                    }`}
+                    >
+                    {tab.name}
+                    </button>
+                ))}
+                </div>
+            </div>
+            )}
+
+            {/* Search & Filter */}
+            <div className="flex flex-col md:flex-row gap-4 items-start md:items-center justify-between">
+                <div className="relative w-full md:w-96">
+                    <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
+                    <svg className="h-5 w-5 text-gray-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M21 21l-6-6m2-5a7 7 0 11-14 0 7 7 0 0114 0z" />
+                    </svg>
+                    </div>
+                    <input
+                    type="text"
+                    className="block w-full pl-10 pr-10 py-2.5 border border-gray-200 rounded-lg leading-5 bg-gray-50 placeholder-gray-400 focus:outline-none focus:bg-white focus:ring-2 focus:ring-red-500/20 focus:border-red-500 transition-all sm:text-sm text-gray-900"
+                    placeholder={t("sos.searchPlaceholder")}
+                    value={searchQuery}
+                    onChange={(e) => setSearchQuery(e.target.value)}
+                    />
+                    {searchQuery && (
+                    <button
+                        onClick={() => setSearchQuery("")}
+                        className="absolute inset-y-0 right-0 pr-3 flex items-center text-gray-400 hover:text-gray-600"
+                    >
+                        <svg className="h-5 w-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                        </svg>
+                    </button>
+                    )}
+                </div>
+
+                {/* Status Filter */}
+                {availableStatuses.length > 0 && (
+                    <div className="flex-1 overflow-x-auto no-scrollbar w-full md:w-auto">
+                    <div className="flex gap-2 min-w-max md:justify-end">
+                        {availableStatuses.map((status) => (
+                        <button
+                            key={status}
+                            onClick={() => setSelectedStatus(status)}
+                            className={`px-4 py-2 text-sm font-medium rounded-full transition-all whitespace-nowrap border ${
+                            selectedStatus === status
+                                ? "bg-red-50 text-red-700 border-red-200 shadow-sm ring-1 ring-red-500/20"
+                                : "bg-white text-gray-600 border-gray-200 hover:border-gray-300 hover:bg-gray-50"
+                            }`}
+                        >
+                            {status === ALL_STATUSES ? t("sos.allStatuses") : status}
+                        </button>
+                        ))}
+                    </div>
+                    </div>
+                )}
+
+                {/* Triage Filter */}
+                <div className="overflow-x-auto no-scrollbar w-full md:w-auto">
+                    <div className="flex gap-2 min-w-max md:justify-end">
+                    {[
+                      { value: ALL_STATUSES, label: t("sos.allTriage") },
+                      { value: UNTRIAGED, label: t("triage.none") },
+                      ...TRIAGE_STATES.map(({ value }) => ({ value, label: t(`triage.${value}`) })),
+                    ].map(({ value, label }) => (
+                        <button
+                        key={value}
+                        onClick={() => setSelectedTriage(value)}
+                        className={`px-4 py-2 text-sm font-medium rounded-full transition-all whitespace-nowrap border ${
+                            selectedTriage === value
+                            ? "bg-blue-50 text-blue-700 border-blue-200 shadow-sm ring-1 ring-blue-500/20"
+                            : "bg-white text-gray-600 border-gray-200 hover:border-gray-300 hover:bg-gray-50"
+                        }`}
+                        >
+                        {label}
+                        </button>
+                    ))}
+                    </div>
+                </div>
+
+                {/* Print for everyone, export for coordinators only */}
+                {activeTabId !== null && (
+                    <div className="flex gap-2 flex-shrink-0">
+                    <Link
+                        href={`/${incident.slug}/sos/print?${listParams()}`}
+                        className="inline-flex items-center px-3 py-2 text-sm font-medium rounded-lg border border-gray-200 bg-white text-gray-600 hover:bg-gray-50 hover:border-gray-300 transition-all whitespace-nowrap"
+                    >
+                        <svg className="w-4 h-4 mr-1.5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M17 17h2a2 2 0 002-2v-4a2 2 0 00-2-2H5a2 2 0 00-2 2v4a2 2 0 002 2h2m2 4h6a2 2 0 002-2v-4a2 2 0 00-2-2H9a2 2 0 00-2 2v4a2 2 0 002 2zm8-12V5a2 2 0 00-2-2H9a2 2 0 00-2 2v4h10z" />
+                        </svg>
+                        {t("sos.print")}
+                    </Link>
+                    {session?.role === "coordinator" && (["csv", "xlsx"] as const).map((format) => (
+                        <a
+                        key={format}
+                        href={exportUrl(format)}
+                        className="inline-flex items-center px-3 py-2 text-sm font-medium rounded-lg border border-gray-200 bg-white text-gray-600 hover:bg-gray-50 hover:border-gray-300 transition-all whitespace-nowrap"
+                        >
+                        <svg className="w-4 h-4 mr-1.5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-4l-4 4m0 0l-4-4m4 4V4" />
+                        </svg>
+                        {format === "csv" ? t("sos.exportCsv") : t("sos.exportXlsx")}
+                        </a>
+                    ))}
+                    </div>
+                )}
+            </div>
+        </div>
+
+        <PushSubscribe kind="sos" prefill={pushPrefill} onAvailable={setPushAvailable} />
+
+        {(changedKeys.size > 0 || removedCount > 0) && (
+          <div className="bg-blue-50 border border-blue-100 text-blue-800 text-sm rounded-lg px-4 py-3 mb-6">
+            {t("sos.sinceLastVisit", {
+              changes: [
+                addedCount > 0 && t("sos.added", { n: addedCount }),
+                statusChangedCount > 0 && t("sos.statusChanged", { n: statusChangedCount }),
+                removedCount > 0 && t("sos.removed", { n: removedCount }),
+              ].filter(Boolean).join(t("common.listSeparator")),
+            })}
+          </div>
+        )}
+
+        {/* Data List */}
+        {filteredItems.length > 0 ? (
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4 md:gap-6 pb-12">
+            {filteredItems.map((item) => (
+              <div key={item.key} id={`case-${item.key}`} className={`group bg-white rounded-xl shadow-sm border p-5 hover:shadow-lg transition-all duration-200 flex flex-col h-full relative overflow-hidden ${
+                item.resolved ? "border-green-200 hover:border-green-300" : "border-gray-200 hover:border-red-200"
+              } ${
+                item.key === focusedCaseKey
+                  ? "ring-4 ring-purple-400"
+                  : changedKeys.get(item.key) === "added"
+                  ? "ring-2 ring-blue-400"
+                  : changedKeys.get(item.key) === "changed" ? "ring-2 ring-amber-400" : ""
+              }`}>
+                <div className="absolute top-0 right-0 p-4 flex flex-col items-end gap-1">
+                    <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${
+                        item.resolved
+                        ? 'bg-green-100 text-green-800'
+                        : item.status.includes('危急') || item.status.includes('SOS') 
+                        ? 'bg-red-100 text-red-800' 
+                        : 'bg-yellow-100 text-yellow-800'
+                    }`}>
+                        {item.status}
+                    </span>
+                    {item.resolved && (
+                      <span className="inline-flex items-center px-2 py-0.5 rounded-full text-xs font-semibold bg-green-600 text-white">
+                        {t("sos.resolved")}
+                      </span>
+                    )}
+                    {changedKeys.get(item.key) === "added" && (
+                      <span className="inline-flex items-center px-2 py-0.5 rounded-full text-xs font-semibold bg-blue-600 text-white">
+                        {t("sos.newCase")}
+                      </span>
+                    )}
+                    {changedKeys.get(item.key) === "changed" && (
+                      <span className="inline-flex items-center px-2 py-0.5 rounded-full text-xs font-semibold bg-amber-500 text-white">
+                        {t("sos.updated")}
+                      </span>
+                    )}
+                </div>
+
+                <div className="mb-4 pr-16">
+                    <h3 className="text-lg md:text-xl font-bold text-gray-900 break-words leading-snug group-hover:text-red-700 transition-colors">
+                        {item.location}
+                    </h3>
+                    {item.locationConfidence !== "none" && (
+                      <div className="mt-1 text-sm font-medium text-red-700">
+                        <LocationLabel location={item} />
+                        {item.locationConfidence === "partial" && (
+                          <span className="ml-2 text-xs font-normal text-gray-400">{t("sos.partialLocation")}</span>
+                        )}
+                      </div>
+                    )}
+                    <div className="flex items-center mt-2 text-xs text-gray-500">
+                        <svg className="w-4 h-4 mr-1.5 text-gray-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" />
+                        </svg>
+                        <ReportTime item={item} />
+                    </div>
+                    {pushAvailable && item.block && (
+                      <button
+                        onClick={() => setPushPrefill({ text: formatLocation(item) })}
+                        className="mt-2 text-xs text-gray-500 hover:text-gray-800 underline"
+                      >
+                        {t("sos.notifyMe")}
+                      </button>
+                    )}
+                </div>
+                
+                <div className="flex-grow">
+                  {item.details && (
+                    <div className="bg-slate-50 rounded-lg p-3 text-sm text-gray-700 border border-slate-100">
+                      <span className="text-xs font-semibold text-slate-400 uppercase tracking-wider block mb-1.5">{t("sos.details")}</span>
+                      <p className="leading-relaxed">{item.details}</p>
+                    </div>
+                  )}
+
+                  {Object.keys(item.extra).length > 0 && (
+                    <dl className="mt-3 grid grid-cols-[auto_1fr] gap-x-3 gap-y-1 text-sm">
+                      {Object.entries(item.extra).map(([label, value]) => (
+                        <div key={label} className="contents">
+                          <dt className="text-xs font-semibold text-slate-400 pt-0.5">{label}</dt>
+                          <dd className="text-gray-700 break-words">{value}</dd>
+                        </div>
+                      ))}
+                    </dl>
+                  )}
+
+                  {item.history.length > 1 && (
+                    <div className="mt-3">
+                      <button
+                        onClick={() => toggleExpanded(item.key)}
+                        className="text-xs font-medium text-gray-500 hover:text-gray-800 flex items-center"
+                      >
+                        <svg className={`w-3.5 h-3.5 mr-1 transition-transform ${expandedKeys.has(item.key) ? "rotate-90" : ""}`} fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" />
+                        </svg>
+                        {t(expandedKeys.has(item.key) ? "sos.hideHistory" : "sos.showHistory", { n: item.history.length })}
+                      </button>
+
+                      {expandedKeys.has(item.key) && (
+                        <ol className="mt-2 border-l-2 border-gray-200 ml-1.5 space-y-3">
+                          {[...item.history].reverse().map((entry, i) => (
+                            <li key={i} className="pl-3 relative">
+                              <span className={`absolute -left-[5px] top-1.5 w-2 h-2 rounded-full ${
+                                entry.status.includes("平安") ? "bg-green-500" : "bg-red-400"
+                              }`}></span>
+                              <div className="text-xs text-gray-400"><ReportTime item={entry} /></div>
+                              <div className="text-sm font-medium text-gray-800">{entry.status}</div>
+                              {entry.details && <div className="text-xs text-gray-600 mt-0.5">{entry.details}</div>}
+                            </li>
+                          ))}
+                        </ol>
+                      )}
+                    </div>
+                  )}
+
+                  <TriagePanel
+                    annotation={item.triage}
+                    defaultAssignee={session?.user && session.user !== "passcode" ? session.user : ""}
+                    onSave={(update) => saveTriage(item.key, update)}
+                  />
+                </div>
+
+                {item.source && (
+                  <div className="mt-4 pt-3 border-t border-gray-100 flex items-start gap-2">
+                    <svg className="w-4 h-4 text-gray-400 mt-0.5 flex-shrink-0" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13.828 10.172a4 4 0 00-5.656 0l-4 4a4 4 0 105.656 5.656l1.102-1.101m-.758-4.899a4 4 0 005.656 0l4-4a4 4 0 00-5.656-5.656l-1.1 1.1" />
+                    </svg>
+                    <div className="text-xs text-gray-500 break-words flex-1">
+                        {item.source}
+                    </div>
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        ) : (
+          !loading && (
+            <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-12 text-center">
+                <div className="inline-flex items-center justify-center w-16 h-16 rounded-full bg-gray-100 mb-4">
+                    <svg className="w-8 h-8 text-gray-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9.172 16.172a4 4 0 015.656 0M9 10h.01M15 10h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
+                    </svg>
+                </div>
+                <h3 className="text-lg font-medium text-gray-900 mb-1">{t("sos.empty")}</h3>
+                <p className="text-gray-500">
+                    {searchQuery 
+                        ? t("sos.noMatch")
+                        : (selectedStatus === ALL_STATUSES && selectedTriage === ALL_STATUSES ? t("sos.noCases") : t("sos.noneInFilter"))
+                    }
+                </p>
+            </div>
+          )
+        )}
+        
+        {filteredItems.length > 0 && (
+          <div className="text-center text-sm text-gray-400 pb-8">
+            {t("sos.count", { n: filteredItems.length })}
+          </div>
+        )}
+      </div>
+    </main>
+  );
+}
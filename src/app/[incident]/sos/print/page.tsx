@@ -0,0 +1,159 @@
+"use client";
+
+import { Fragment, useEffect, useState } from "react";
+import Link from "next/link";
+import { filterCases } from "@/lib/sosFilters";
+import {
+  blockHeading,
+  describeDataAge,
+  describeFilters,
+  floorHeading,
+  groupByBlock,
+  ROSTER_COLUMNS,
+  RosterCase,
+} from "@/lib/roster";
+import { formatHongKongTime } from "@/lib/timestamp";
+import { useIncident } from "@/components/IncidentContext";
+import { useLocale } from "@/components/LocaleContext";
+
+interface SheetData {
+  name: string;
+  items: RosterCase[];
+  tabStatus: { age: number | null };
+  error?: string;
+}
+
+interface SessionInfo {
+  user: string | null;
+  role?: "viewer" | "coordinator";
+}
+
+// Paper roster of the SOS list: opened from /<incident>/sos with the same tab and
+// filters (?id=&status=&triage=&q=), grouped by block, one block per printed sheet
+export default function SOSPrintPage() {
+  const incident = useIncident();
+  const { t } = useLocale();
+  const [params] = useState(() =>
+    typeof window === "undefined" ? new URLSearchParams() : new URLSearchParams(window.location.search)
+  );
+  const [sheetData, setSheetData] = useState<SheetData | null>(null);
+  const [generatedAt, setGeneratedAt] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [session, setSession] = useState<SessionInfo | null>(null);
+
+  useEffect(() => {
+    const query = new URLSearchParams({ id: params.get("id") || "" });
+    for (const field of ["block", "floor", "unit"]) {
+      const value = params.get(field);
+      if (value) query.set(field, value);
+    }
+
+    fetch(`/api/${incident.slug}/sos?${query}`)
+      .then(async (res) => {
+        const data: SheetData = await res.json();
+        if (!res.ok) throw new Error(data.error || t("roster.loadFailed"));
+        setSheetData(data);
+        setGeneratedAt(Date.now());
+      })
+      .catch((err) => setError(err instanceof Error ? err.message : t("roster.loadFailed")));
+
+    fetch("/api/auth/session")
+      .then((res) => res.json())
+      .then(setSession)
+      .catch(() => setSession(null));
+  }, [incident.slug, params, t]);
+
+  const filters = { status: params.get("status"), query: params.get("q"), triage: params.get("triage") };
+  const blocks = sheetData ? groupByBlock(filterCases(sheetData.items, filters)) : [];
+  const dataUpdatedAt =
+    generatedAt !== null && sheetData?.tabStatus.age != null ? generatedAt - sheetData.tabStatus.age * 1000 : null;
+  const headerDetails = generatedAt !== null
+    ? [
+      t("roster.generatedAt", { time: formatHongKongTime(generatedAt) }),
+      describeDataAge(generatedAt, dataUpdatedAt, t),
+      ...describeFilters(filters, t),
+    ].join(" · ")
+    : "";
+
+  return (
+    <main className="min-h-screen bg-white text-gray-900 p-4 md:p-8 print:p-0">
+      <div className="flex flex-wrap items-center gap-2 mb-6 print:hidden">
+        <Link href={`/${incident.slug}/sos?id=${params.get("id") || ""}`} className="text-sm text-gray-500 hover:text-gray-800 underline mr-auto">
+          {t("roster.back")}
+        </Link>
+        <button
+          onClick={() => window.print()}
+          disabled={!sheetData}
+          className="px-4 py-2 text-sm font-medium rounded-lg bg-gray-900 text-white hover:bg-gray-700 disabled:opacity-50"
+        >
+          {t("roster.print")}
+        </button>
+        {session?.role === "coordinator" && (
+          <a
+            href={`/api/${incident.slug}/sos/roster?${params}`}
+            className="px-4 py-2 text-sm font-medium rounded-lg border border-gray-200 bg-white text-gray-600 hover:bg-gray-50"
+          >
+            {t("roster.downloadPdf")}
+          </a>
+        )}
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border-l-4 border-red-500 text-red-700 p-4 rounded mb-6 print:hidden">{error}</div>
+      )}
+
+      {sheetData && blocks.length === 0 && <p className="text-gray-500">{t("roster.empty")}</p>}
+
+      {blocks.map((block, i) => (
+        <section key={block.block} className={`mb-10 print:mb-0 ${i > 0 ? "break-before-page" : ""}`}>
+          <table className="w-full border-collapse text-xs table-fixed">
+            {/* thead repeats on every printed page */}
+            <thead>
+              <tr>
+                <th colSpan={ROSTER_COLUMNS.length} className="text-left font-normal pb-2">
+                  <div className="text-lg font-bold">
+                    {t("roster.heading", { heading: blockHeading(block.block, t), tab: sheetData?.name || "", n: block.count })}
+                  </div>
+                  <div className="text-[10px] text-gray-600">{headerDetails}</div>
+                </th>
+              </tr>
+              <tr className="bg-gray-200">
+                {ROSTER_COLUMNS.map((column) => (
+                  <th
+                    key={column.header}
+                    style={{ width: `${column.width * 100}%` }}
+                    className="border border-gray-400 px-1.5 py-1 text-left font-semibold"
+                  >
+                    {t(column.header)}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {block.floors.map((floor) => (
+                <Fragment key={floor.floor}>
+                  <tr className="bg-gray-100 break-after-avoid">
+                    <td colSpan={ROSTER_COLUMNS.length} className="border border-gray-400 px-1.5 py-1 font-semibold">
+                      {t("roster.floorCount", { floor: floorHeading(floor.floor, t), n: floor.cases.length })}
+                    </td>
+                  </tr>
+                  {floor.cases.map((item) => (
+                    <tr key={item.key} className="break-inside-avoid align-top">
+                      {ROSTER_COLUMNS.map((column, c) => (
+                        <td key={column.header} className="border border-gray-400 px-1.5 py-1 break-words whitespace-pre-line">
+                          {c === ROSTER_COLUMNS.length - 1
+                            ? <span className="inline-block w-3 h-3 border border-gray-700"></span>
+                            : column.value(item, t)}
+                        </td>
+                      ))}
+                    </tr>
+                  ))}
+                </Fragment>
+              ))}
+            </tbody>
+          </table>
+        </section>
+      ))}
+    </main>
+  );
+}
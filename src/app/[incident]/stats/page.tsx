@@ -0,0 +1,232 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import Link from "next/link";
+import BarChart from "@/components/BarChart";
+import { useIncident } from "@/components/IncidentContext";
+import { useLocale } from "@/components/LocaleContext";
+import { useLiveUpdates } from "@/lib/useLiveUpdates";
+
+interface CountBucket {
+  cases: number;
+  unresolved: number;
+}
+
+interface BlockStats extends CountBucket {
+  block: string;
+  floors: ({ floor: string } & CountBucket)[];
+}
+
+interface SOSStats {
+  reports: number;
+  cases: number;
+  unresolved: number;
+  markedSafe: { count: number; of: number };
+  byStatus: { status: string; cases: number }[];
+  byBlock: BlockStats[];
+  byTab: ({ name: string; reports: number } & CountBucket)[];
+  perHour: { hour: number; reports: number; open: number }[];
+}
+
+interface StatsResponse {
+  generatedAt: number;
+  sos: SOSStats | null;
+  sheets: { byTab: { name: string; rows: number }[] } | null;
+  errors: string[];
+  error?: string;
+}
+
+const REFRESH_INTERVAL = 5 * 60 * 1000; // polling fallback when the live connection is down
+
+function StatCard({ label, value, sub }: { label: string; value: string | number; sub?: string }) {
+  return (
+    <div className="bg-white rounded-xl shadow-md border border-gray-100 p-4">
+      <div className="text-sm text-gray-500">{label}</div>
+      <div className="text-3xl font-bold text-gray-900 mt-1">{value}</div>
+      {sub && <div className="text-xs text-gray-400 mt-1">{sub}</div>}
+    </div>
+  );
+}
+
+// Incident numbers for coordinators and the press: counts only, no personal data
+export default function StatsPage() {
+  const incident = useIncident();
+  const { t, formatTime, formatDayHour } = useLocale();
+  const [stats, setStats] = useState<StatsResponse | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [expandedBlock, setExpandedBlock] = useState<string | null>(null);
+
+  const fetchStats = useCallback(async () => {
+    try {
+      const res = await fetch(`/api/${incident.slug}/stats`, { cache: 'no-store' });
+      const data: StatsResponse = await res.json();
+      if (!res.ok) throw new Error(data.error || t("stats.loadFailed"));
+      setStats(data);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t("stats.loadFailed"));
+    }
+  }, [incident.slug, t]);
+
+  useEffect(() => {
+    fetchStats();
+  }, [fetchStats]);
+
+  const handleRefresh = useCallback((changed: boolean) => {
+    if (changed) fetchStats();
+  }, [fetchStats]);
+
+  const { live } = useLiveUpdates(incident.slug, "sos", REFRESH_INTERVAL, handleRefresh);
+
+  const sos = stats?.sos;
+  const safePercent = sos && sos.markedSafe.of > 0 ? Math.round((sos.markedSafe.count / sos.markedSafe.of) * 100) : null;
+  // Roughly one label per 3 hours on a long night
+  const labelEvery = sos ? Math.max(1, Math.ceil(sos.perHour.length / 12)) : 1;
+
+  const blockLabel = (block: string) => (/^\d+$/.test(block) ? t("location.block", { block }) : block);
+  const floorLabel = (floor: string) => (/^\d+$|^G$/.test(floor) ? t("location.floor", { floor }) : floor);
+
+  return (
+    <main className="min-h-screen bg-slate-50 p-4 md:p-8">
+      <div className="max-w-7xl mx-auto">
+        <div className="flex flex-col md:flex-row md:items-center justify-between gap-2 mb-6">
+          <div>
+            <h1 className="text-2xl md:text-3xl font-bold text-gray-900">{t("stats.title", { title: incident.title })}</h1>
+            {stats && (
+              <p className="text-sm text-gray-500 flex items-center gap-2">
+                <span className={`w-2 h-2 rounded-full ${live ? "bg-green-500" : "bg-gray-400"}`}></span>
+                {t("stats.updatedAt", { time: formatTime(stats.generatedAt) })}
+              </p>
+            )}
+          </div>
+          <Link href={`/${incident.slug}`} className="text-sm text-gray-500 hover:text-gray-800 underline">
+            {t("common.backHome")}
+          </Link>
+        </div>
+
+        {error && (
+          <div className="bg-red-50 border-l-4 border-red-500 text-red-700 p-4 rounded shadow-sm mb-6">{error}</div>
+        )}
+        {stats && stats.errors.length > 0 && (
+          <div className="text-xs text-yellow-700 bg-yellow-50 rounded px-3 py-2 mb-6">
+            {t("stats.partial", { sources: stats.errors.join(t("common.listSeparator")) })}
+          </div>
+        )}
+
+        {sos && (
+          <>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-8">
+              <StatCard label={t("stats.reports")} value={sos.reports} />
+              <StatCard label={t("stats.cases")} value={sos.cases} />
+              <StatCard label={t("stats.unresolved")} value={sos.unresolved} />
+              <StatCard
+                label={t("stats.markedSafe")}
+                value={safePercent === null ? "—" : `${safePercent}%`}
+                sub={t("stats.markedSafeOf", { count: sos.markedSafe.count, of: sos.markedSafe.of })}
+              />
+            </div>
+
+            <section className="bg-white rounded-xl shadow-md border border-gray-100 p-4 md:p-6 mb-8">
+              <h2 className="text-lg font-semibold text-gray-900 mb-3">{t("stats.perHour")}</h2>
+              <BarChart
+                data={sos.perHour.map(p => ({ label: formatDayHour(p.hour), value: p.reports }))}
+                labelEvery={labelEvery}
+              />
+            </section>
+
+            <section className="bg-white rounded-xl shadow-md border border-gray-100 p-4 md:p-6 mb-8">
+              <h2 className="text-lg font-semibold text-gray-900 mb-3">{t("stats.openPerHour")}</h2>
+              <BarChart
+                data={sos.perHour.map(p => ({ label: formatDayHour(p.hour), value: p.open }))}
+                color="fill-amber-500"
+                labelEvery={labelEvery}
+              />
+            </section>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-8 mb-8">
+              <section className="bg-white rounded-xl shadow-md border border-gray-100 p-4 md:p-6">
+                <h2 className="text-lg font-semibold text-gray-900 mb-3">{t("stats.byStatus")}</h2>
+                <BarChart data={sos.byStatus.map(s => ({ label: s.status, value: s.cases }))} color="fill-gray-700" />
+              </section>
+
+              <section className="bg-white rounded-xl shadow-md border border-gray-100 p-4 md:p-6">
+                <h2 className="text-lg font-semibold text-gray-900 mb-3">{t("stats.byTab")}</h2>
+                <table className="min-w-full text-sm text-left">
+                  <thead className="text-gray-500">
+                    <tr>
+                      <th className="py-1">{t("stats.tab")}</th>
+                      <th className="py-1 text-right">{t("stats.tabReports")}</th>
+                      <th className="py-1 text-right">{t("stats.tabCases")}</th>
+                      <th className="py-1 text-right">{t("stats.tabUnresolved")}</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-100">
+                    {sos.byTab.map((tab) => (
+                      <tr key={tab.name}>
+                        <td className="py-1.5 text-gray-900">{tab.name}</td>
+                        <td className="py-1.5 text-right">{tab.reports}</td>
+                        <td className="py-1.5 text-right">{tab.cases}</td>
+                        <td className="py-1.5 text-right font-medium text-red-700">{tab.unresolved}</td>
+                      </tr>
+                    ))}
+                    {stats?.sheets?.byTab.map((tab) => (
+                      <tr key={`sheets-${tab.name}`} className="text-gray-500">
+                        <td className="py-1.5">{t("stats.sheetTab", { name: tab.name })}</td>
+                        <td className="py-1.5 text-right">{tab.rows}</td>
+                        <td className="py-1.5 text-right">—</td>
+                        <td className="py-1.5 text-right">—</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </section>
+            </div>
+
+            <section className="bg-white rounded-xl shadow-md border border-gray-100 p-4 md:p-6 mb-8">
+              <h2 className="text-lg font-semibold text-gray-900 mb-3">{t("stats.byBlock")}</h2>
+              <BarChart
+                data={sos.byBlock.map(b => ({ label: blockLabel(b.block), value: b.unresolved }))}
+                color="fill-red-600"
+              />
+              <p className="text-xs text-gray-400 mt-1 mb-4">{t("stats.byBlockHint")}</p>
+
+              <ul className="divide-y divide-gray-100 text-sm">
+                {sos.byBlock.map((block) => (
+                  <li key={block.block}>
+                    <button
+                      onClick={() => setExpandedBlock(expandedBlock === block.block ? null : block.block)}
+                      className="w-full flex justify-between py-2 hover:bg-gray-50 px-2 rounded"
+                    >
+                      <span className="font-medium text-gray-900">{blockLabel(block.block)}</span>
+                      <span className="text-gray-600">
+                        {t("stats.blockCases", { n: block.cases })} ·{" "}
+                        <span className="text-red-700 font-medium">{t("stats.blockUnresolved", { n: block.unresolved })}</span>
+                      </span>
+                    </button>
+                    {expandedBlock === block.block && (
+                      <div className="grid grid-cols-3 md:grid-cols-6 gap-2 px-2 pb-3">
+                        {block.floors.map((floor) => (
+                          <div key={floor.floor} className="rounded border border-gray-100 bg-gray-50 px-2 py-1.5 text-xs">
+                            <div className="font-medium text-gray-800">{floorLabel(floor.floor)}</div>
+                            <div className="text-gray-500">
+                              {t("stats.floorCases", { n: floor.cases })} ·{" "}
+                              <span className="text-red-700">{t("stats.floorUnresolved", { n: floor.unresolved })}</span>
+                            </div>
+                          </div>
+                        ))}
+                      </div>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            </section>
+          </>
+        )}
+
+        {stats && !sos && !stats.sheets && (
+          <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-12 text-center text-gray-500">{t("stats.empty")}</div>
+        )}
+      </div>
+    </main>
+  );
+}
@@ -0,0 +1,313 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import Link from "next/link";
+import { useLocale } from "@/components/LocaleContext";
+import { MessageKey, Translate } from "@/lib/i18n";
+
+interface TabReport {
+  name: string;
+  id: string;
+  age: number | null;
+  error: string | null;
+  errorAt: number | null;
+  duration: number | null;
+  rows: number | null;
+  records: number | null;
+  mappingError: string | null;
+}
+
+interface SourceReport {
+  configError: string | null;
+  age: number | null;
+  ttl: number;
+  restored: boolean;
+  refreshing: boolean;
+  lastRefreshAt: number | null;
+  lastRefreshDuration: number | null;
+  lastError: string | null;
+  lastErrorAt: number | null;
+  tabs: TabReport[];
+}
+
+interface OutboxEntry {
+  id: string;
+  incident: string;
+  row: string[];
+  attempts: number;
+  lastError: string | null;
+  queuedAt: number;
+}
+
+interface WriteBackStatus {
+  tab: string;
+  client: string;
+  pending: number;
+  conflicts: OutboxEntry[];
+  failed: OutboxEntry[];
+  lastFlushAt: number | null;
+  lastError: string | null;
+}
+
+interface IncidentReport {
+  slug: string;
+  title: string;
+  status: "active" | "archived";
+  sheets: SourceReport;
+  sos: SourceReport;
+}
+
+interface StatusReport {
+  time: number;
+  dataSource: string;
+  incidents: IncidentReport[];
+  writeBack: WriteBackStatus | null;
+  error?: string;
+}
+
+const REFRESH_INTERVAL = 15 * 1000;
+
+const SOURCES: { key: "sheets" | "sos"; title: MessageKey }[] = [
+  { key: "sheets", title: "admin.status.sheets" },
+  { key: "sos", title: "admin.status.sos" },
+];
+
+function formatAge(seconds: number | null, t: Translate): string {
+  if (seconds === null) return "—";
+  if (seconds < 60) return t("admin.status.secondsAgo", { n: seconds });
+  if (seconds < 3600) return t("admin.status.minutesAgo", { n: Math.round(seconds / 60) });
+  return t("admin.status.hoursAgo", { n: (seconds / 3600).toFixed(1) });
+}
+
+function formatDuration(ms: number | null): string {
+  if (ms === null) return "—";
+  return ms < 1000 ? `${ms} ms` : `${(ms / 1000).toFixed(1)} s`;
+}
+
+// Admin view of /api/status: cache age, refresh timings and errors for both pipelines of every incident
+export default function StatusPage() {
+  const { t, formatTime: formatLocaleTime } = useLocale();
+  const formatTime = (time: number | null) => (time ? formatLocaleTime(time) : "—");
+  const [report, setReport] = useState<StatusReport | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchStatus = useCallback(async () => {
+    try {
+      const res = await fetch("/api/status", { cache: 'no-store' });
+      if (res.status === 401) {
+        window.location.href = "/login?expired=1&next=/admin/status";
+        return;
+      }
+      const data: StatusReport = await res.json();
+      if (!res.ok) throw new Error(data.error || t("admin.status.loadFailed"));
+      setReport(data);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t("admin.status.loadFailed"));
+    }
+  }, [t]);
+
+  const resolveWriteBack = async (incident: string, id: string, action: "overwrite" | "discard") => {
+    try {
+      const res = await fetch(`/api/${incident}/sos/writeback`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ id, action }),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || t("admin.writeBack.resolveFailed"));
+      fetchStatus();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t("admin.writeBack.resolveFailed"));
+    }
+  };
+
+  useEffect(() => {
+    fetchStatus();
+    const interval = setInterval(fetchStatus, REFRESH_INTERVAL);
+    return () => clearInterval(interval);
+  }, [fetchStatus]);
+
+  return (
+    <main className="min-h-screen bg-slate-50 p-4 md:p-8">
+      <div className="max-w-7xl mx-auto">
+        <div className="flex items-center justify-between mb-6">
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900">{t("admin.status.title")}</h1>
+            {report && (
+              <p className="text-sm text-gray-500">
+                {t("admin.status.summary", { source: report.dataSource, time: formatTime(report.time) })}
+              </p>
+            )}
+          </div>
+          <div className="flex gap-4">
+            <Link href="/admin/webhooks" className="text-sm text-gray-500 hover:text-gray-800 underline">
+              {t("admin.webhooks.title")}
+            </Link>
+            <Link href="/" className="text-sm text-gray-500 hover:text-gray-800 underline">
+              {t("common.backHome")}
+            </Link>
+          </div>
+        </div>
+
+        {error && (
+          <div className="bg-red-50 border-l-4 border-red-500 text-red-700 p-4 rounded shadow-sm mb-6">{error}</div>
+        )}
+
+        {report?.incidents.map((incident) => SOURCES.map(({ key, title }) => {
+          const source = incident[key];
+          return (
+            <section key={`${incident.slug}/${key}`} className="bg-white rounded-xl shadow-md border border-gray-100 p-4 md:p-6 mb-8">
+              <h2 className="text-lg font-semibold text-gray-900 mb-3">
+                {incident.title} · {t(title)}
+                {incident.status === "archived" && <span className="ml-2 text-sm font-normal text-gray-500">{t("admin.status.archived")}</span>}
+              </h2>
+
+              {source.configError && (
+                <div className="bg-red-50 text-red-700 text-sm rounded px-3 py-2 mb-3">{t("admin.status.configError", { error: source.configError })}</div>
+              )}
+              {source.lastError && (
+                <div className="bg-red-50 text-red-700 text-sm rounded px-3 py-2 mb-3">
+                  {t("admin.status.refreshFailed", { time: formatTime(source.lastErrorAt), error: source.lastError })}
+                </div>
+              )}
+
+              <dl className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm mb-4">
+                <div>
+                  <dt className="text-gray-500">{t("admin.status.cacheAge")}</dt>
+                  <dd className="font-medium text-gray-900">
+                    {formatAge(source.age, t)}
+                    {source.restored && <span className="ml-1 text-yellow-700">{t("admin.status.restored")}</span>}
+                  </dd>
+                </div>
+                <div>
+                  <dt className="text-gray-500">{t("admin.status.ttl")}</dt>
+                  <dd className="font-medium text-gray-900">{t("admin.status.seconds", { n: source.ttl })}</dd>
+                </div>
+                <div>
+                  <dt className="text-gray-500">{t("admin.status.lastRefresh")}</dt>
+                  <dd className="font-medium text-gray-900">
+                    {formatTime(source.lastRefreshAt)}
+                    {source.refreshing && <span className="ml-1 text-blue-600">{t("admin.status.refreshing")}</span>}
+                  </dd>
+                </div>
+                <div>
+                  <dt className="text-gray-500">{t("admin.status.refreshDuration")}</dt>
+                  <dd className="font-medium text-gray-900">{formatDuration(source.lastRefreshDuration)}</dd>
+                </div>
+              </dl>
+
+              {source.tabs.length === 0 ? (
+                <div className="text-sm text-gray-500">{t("admin.status.noTabs")}</div>
+              ) : (
+                <div className="overflow-x-auto">
+                  <table className="min-w-full text-sm text-left">
+                    <thead className="bg-gray-100 text-gray-700">
+                      <tr>
+                        <th className="px-3 py-2">{t("admin.status.tab")}</th>
+                        <th className="px-3 py-2">{t("admin.status.tabAge")}</th>
+                        <th className="px-3 py-2">{t("admin.status.tabDuration")}</th>
+                        <th className="px-3 py-2">{t("admin.status.tabRows")}</th>
+                        {key === "sos" && <th className="px-3 py-2">{t("admin.status.tabRecords")}</th>}
+                        {key === "sos" && <th className="px-3 py-2">{t("admin.status.tabMapping")}</th>}
+                        <th className="px-3 py-2">{t("admin.status.tabError")}</th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-gray-100">
+                      {source.tabs.map((tab) => (
+                        <tr key={tab.id} className={tab.error ? "bg-red-50/50" : ""}>
+                          <td className="px-3 py-2 font-medium text-gray-900 whitespace-nowrap">
+                            {tab.name} <span className="text-xs text-gray-400">#{tab.id}</span>
+                          </td>
+                          <td className="px-3 py-2 whitespace-nowrap">{formatAge(tab.age, t)}</td>
+                          <td className="px-3 py-2 whitespace-nowrap">{formatDuration(tab.duration)}</td>
+                          <td className="px-3 py-2">{tab.rows ?? "—"}</td>
+                          {key === "sos" && <td className="px-3 py-2">{tab.records ?? "—"}</td>}
+                          {key === "sos" && (
+                            <td className="px-3 py-2 break-words max-w-md">
+                              {tab.records === null ? "—" : tab.mappingError ? (
+                                <span className="text-red-700">{tab.mappingError}</span>
+                              ) : (
+                                <span className="text-green-700">{t("admin.status.mappingOk")}</span>
+                              )}
+                            </td>
+                          )}
+                          <td className="px-3 py-2 text-red-700 break-words max-w-md">
+                            {tab.error ? `${formatTime(tab.errorAt)} ${tab.error}` : ""}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </section>
+          );
+        }))}
+
+        {report?.writeBack && (
+          <section className="bg-white rounded-xl shadow-md border border-gray-100 p-4 md:p-6 mb-8">
+            <h2 className="text-lg font-semibold text-gray-900 mb-3">
+              {t(report.writeBack.client === "fake" ? "admin.writeBack.titleFake" : "admin.writeBack.title", { tab: report.writeBack.tab })}
+            </h2>
+
+            {report.writeBack.lastError && (
+              <div className="bg-red-50 text-red-700 text-sm rounded px-3 py-2 mb-3">
+                {t("admin.writeBack.failed", { error: report.writeBack.lastError })}
+              </div>
+            )}
+
+            <dl className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm mb-4">
+              <div>
+                <dt className="text-gray-500">{t("admin.writeBack.pending")}</dt>
+                <dd className="font-medium text-gray-900">{report.writeBack.pending}</dd>
+              </div>
+              <div>
+                <dt className="text-gray-500">{t("admin.writeBack.conflicts")}</dt>
+                <dd className="font-medium text-gray-900">{report.writeBack.conflicts.length}</dd>
+              </div>
+              <div>
+                <dt className="text-gray-500">{t("admin.writeBack.failing")}</dt>
+                <dd className="font-medium text-gray-900">{report.writeBack.failed.length}</dd>
+              </div>
+              <div>
+                <dt className="text-gray-500">{t("admin.writeBack.lastFlush")}</dt>
+                <dd className="font-medium text-gray-900">{formatTime(report.writeBack.lastFlushAt)}</dd>
+              </div>
+            </dl>
+
+            {[...report.writeBack.conflicts, ...report.writeBack.failed].length > 0 && (
+              <ul className="divide-y divide-gray-100 text-sm">
+                {[...report.writeBack.conflicts, ...report.writeBack.failed].map((entry) => (
+                  <li key={`${entry.incident}/${entry.id}`} className="py-3 flex flex-col md:flex-row md:items-center gap-2 justify-between">
+                    <div className="min-w-0">
+                      <div className="font-medium text-gray-900">
+                        <span className="mr-2 text-xs text-gray-400">{entry.incident}</span>
+                        {entry.row.slice(1, 6).filter(Boolean).join(" · ")}
+                      </div>
+                      <div className="text-xs text-red-700 break-words">{entry.lastError}</div>
+                    </div>
+                    <div className="flex gap-2 flex-shrink-0">
+                      <button
+                        onClick={() => resolveWriteBack(entry.incident, entry.id, "overwrite")}
+                        className="px-3 py-1.5 text-xs font-medium rounded-md bg-gray-900 text-white hover:bg-gray-700"
+                      >
+                        {t("admin.writeBack.overwrite")}
+                      </button>
+                      <button
+                        onClick={() => resolveWriteBack(entry.incident, entry.id, "discard")}
+                        className="px-3 py-1.5 text-xs font-medium rounded-md bg-white border border-gray-200 text-gray-600 hover:bg-gray-100"
+                      >
+                        {t("admin.writeBack.discard")}
+                      </button>
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </section>
+        )}
+      </div>
+    </main>
+  );
+}
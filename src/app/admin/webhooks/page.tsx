@@ -0,0 +1,219 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import Link from "next/link";
+import { useLocale } from "@/components/LocaleContext";
+import { MessageKey } from "@/lib/i18n";
+
+interface WebhookTarget {
+  name: string;
+  url: string;
+  events?: ("added" | "changed")[];
+  tabs?: string[];
+  incidents?: string[];
+}
+
+interface WebhookDelivery {
+  id: string;
+  incident: string;
+  target: string;
+  url: string;
+  body: string;
+  changes: number;
+  status: "pending" | "delivered" | "failed";
+  attempts: number;
+  nextAttemptAt: number;
+  lastError: string | null;
+  responseStatus: number | null;
+  createdAt: number;
+  deliveredAt: number | null;
+}
+
+interface WebhookStatus {
+  configError: string | null;
+  targets: WebhookTarget[];
+  cursors: Record<string, number>;
+  pending: number;
+  deliveries: WebhookDelivery[];
+  lastFlushAt: number | null;
+  error?: string;
+}
+
+const REFRESH_INTERVAL = 15 * 1000;
+
+const STATUS_LABELS: Record<WebhookDelivery["status"], { label: MessageKey; className: string }> = {
+  pending: { label: "admin.webhooks.pending", className: "bg-blue-100 text-blue-800" },
+  delivered: { label: "admin.webhooks.delivered", className: "bg-green-100 text-green-800" },
+  failed: { label: "admin.webhooks.failed", className: "bg-red-100 text-red-800" },
+};
+
+// Admin view of /api/webhooks: configured targets and the delivery log
+export default function WebhooksPage() {
+  const { t, formatDateTime } = useLocale();
+  const formatTime = (time: number | null) => (time ? formatDateTime(time) : "—");
+  const [status, setStatus] = useState<WebhookStatus | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  const fetchStatus = useCallback(async () => {
+    try {
+      const res = await fetch("/api/webhooks", { cache: 'no-store' });
+      if (res.status === 401) {
+        window.location.href = "/login?expired=1&next=/admin/webhooks";
+        return;
+      }
+      const data: WebhookStatus = await res.json();
+      if (!res.ok) throw new Error(data.error || t("admin.webhooks.loadFailed"));
+      setStatus(data);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t("admin.webhooks.loadFailed"));
+    }
+  }, [t]);
+
+  const retry = async (id: string) => {
+    try {
+      const res = await fetch("/api/webhooks", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ id }),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || t("admin.webhooks.retryFailed"));
+      setStatus(data);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t("admin.webhooks.retryFailed"));
+    }
+  };
+
+  useEffect(() => {
+    fetchStatus();
+    const interval = setInterval(fetchStatus, REFRESH_INTERVAL);
+    return () => clearInterval(interval);
+  }, [fetchStatus]);
+
+  return (
+    <main className="min-h-screen bg-slate-50 p-4 md:p-8">
+      <div className="max-w-7xl mx-auto">
+        <div className="flex items-center justify-between mb-6">
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900">{t("admin.webhooks.title")}</h1>
+            {status && (
+              <p className="text-sm text-gray-500">
+                {t("admin.webhooks.summary", { pending: status.pending, time: formatTime(status.lastFlushAt) })}
+              </p>
+            )}
+          </div>
+          <Link href="/admin/status" className="text-sm text-gray-500 hover:text-gray-800 underline">
+            {t("admin.webhooks.back")}
+          </Link>
+        </div>
+
+        {error && (
+          <div className="bg-red-50 border-l-4 border-red-500 text-red-700 p-4 rounded shadow-sm mb-6">{error}</div>
+        )}
+
+        {status && (
+          <>
+            <section className="bg-white rounded-xl shadow-md border border-gray-100 p-4 md:p-6 mb-8">
+              <h2 className="text-lg font-semibold text-gray-900 mb-3">{t("admin.webhooks.targets")}</h2>
+              {status.configError && (
+                <div className="bg-red-50 text-red-700 text-sm rounded px-3 py-2 mb-3">{t("admin.webhooks.configError", { error: status.configError })}</div>
+              )}
+              {status.targets.length === 0 ? (
+                <div className="text-sm text-gray-500">{t("admin.webhooks.noTargets")}</div>
+              ) : (
+                <ul className="divide-y divide-gray-100 text-sm">
+                  {status.targets.map((target) => (
+                    <li key={target.name} className="py-2">
+                      <div className="font-medium text-gray-900">{target.name}</div>
+                      <div className="text-xs text-gray-500 break-all">{target.url}</div>
+                      <div className="text-xs text-gray-500">
+                        {(target.events || ["added", "changed"]).map(e => t(`admin.webhooks.${e}`)).join(t("common.listSeparator"))}
+                        {" · "}
+                        {target.tabs ? target.tabs.join(t("common.listSeparator")) : t("admin.webhooks.allTabs")}
+                        {" · "}
+                        {target.incidents ? target.incidents.join(t("common.listSeparator")) : t("admin.webhooks.allIncidents")}
+                      </div>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </section>
+
+            <section className="bg-white rounded-xl shadow-md border border-gray-100 p-4 md:p-6 mb-8">
+              <h2 className="text-lg font-semibold text-gray-900 mb-3">{t("admin.webhooks.log")}</h2>
+              {status.deliveries.length === 0 ? (
+                <div className="text-sm text-gray-500">{t("admin.webhooks.empty")}</div>
+              ) : (
+                <div className="overflow-x-auto">
+                  <table className="min-w-full text-sm text-left">
+                    <thead className="bg-gray-100 text-gray-700">
+                      <tr>
+                        <th className="px-3 py-2">{t("admin.webhooks.createdAt")}</th>
+                        <th className="px-3 py-2">{t("admin.webhooks.target")}</th>
+                        <th className="px-3 py-2">{t("admin.webhooks.cases")}</th>
+                        <th className="px-3 py-2">{t("admin.webhooks.status")}</th>
+                        <th className="px-3 py-2">{t("admin.webhooks.attempts")}</th>
+                        <th className="px-3 py-2">{t("admin.webhooks.response")}</th>
+                        <th className="px-3 py-2"></th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-gray-100">
+                      {status.deliveries.map((delivery) => (
+                        <tr key={delivery.id} className="align-top">
+                          <td className="px-3 py-2 whitespace-nowrap">{formatTime(delivery.createdAt)}</td>
+                          <td className="px-3 py-2">
+                            <div className="font-medium text-gray-900">{delivery.target}</div>
+                            <div className="text-xs text-gray-500">{delivery.incident}</div>
+                          </td>
+                          <td className="px-3 py-2">
+                            <button
+                              onClick={() => setExpandedId(expandedId === delivery.id ? null : delivery.id)}
+                              className="underline text-gray-600 hover:text-gray-900"
+                            >
+                              {t("admin.webhooks.caseCount", { n: delivery.changes })}
+                            </button>
+                            {expandedId === delivery.id && (
+                              <pre className="mt-2 max-w-xl max-h-64 overflow-auto text-xs bg-gray-50 rounded p-2 whitespace-pre-wrap break-all">
+                                {JSON.stringify(JSON.parse(delivery.body), null, 2)}
+                              </pre>
+                            )}
+                          </td>
+                          <td className="px-3 py-2 whitespace-nowrap">
+                            <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${STATUS_LABELS[delivery.status].className}`}>
+                              {t(STATUS_LABELS[delivery.status].label)}
+                            </span>
+                            {delivery.status === "pending" && delivery.attempts > 0 && (
+                              <div className="text-xs text-gray-500 mt-1">{t("admin.webhooks.nextAttempt", { time: formatTime(delivery.nextAttemptAt) })}</div>
+                            )}
+                          </td>
+                          <td className="px-3 py-2">{delivery.attempts}</td>
+                          <td className="px-3 py-2 break-words max-w-xs">
+                            {delivery.responseStatus !== null && <span className="text-gray-700">HTTP {delivery.responseStatus} </span>}
+                            {delivery.lastError && <span className="text-red-700">{delivery.lastError}</span>}
+                            {delivery.deliveredAt && <div className="text-xs text-gray-500">{t("admin.webhooks.deliveredAt", { time: formatTime(delivery.deliveredAt) })}</div>}
+                          </td>
+                          <td className="px-3 py-2">
+                            {delivery.status === "failed" && (
+                              <button
+                                onClick={() => retry(delivery.id)}
+                                className="px-3 py-1.5 text-xs font-medium rounded-md bg-gray-900 text-white hover:bg-gray-700 whitespace-nowrap"
+                              >
+                                {t("admin.webhooks.retry")}
+                              </button>
+                            )}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </section>
+          </>
+        )}
+      </div>
+    </main>
+  );
+}
@@ -0,0 +1,67 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getIncident, IncidentParams } from "@/lib/incidents";
+import { getLiveStatus, subscribeLiveUpdates } from "@/lib/liveUpdates";
+
+export const dynamic = "force-dynamic";
+
+const HEARTBEAT_INTERVAL = 25 * 1000;
+
+// Server-Sent Events stream for one incident: /api/<incident>/events
+//   event: hello   - current cache times for every source, sent on connect
+//   event: refresh - a cache refresh finished; `changed` says whether the data differs
+export async function GET(request: NextRequest, { params }: IncidentParams) {
+  const incident = getIncident((await params).incident);
+  if (!incident) {
+    return NextResponse.json(
+      { error: "Incident not found" },
+      { status: 404 }
+    );
+  }
+
+  const encoder = new TextEncoder();
+  let cleanup = () => {};
+
+  const stream = new ReadableStream({
+    start(controller) {
+      const send = (chunk: string) => {
+        try {
+          controller.enqueue(encoder.encode(chunk));
+        } catch {
+          cleanup();
+        }
+      };
+      const sendEvent = (event: string, data: unknown) => send(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+
+      sendEvent("hello", getLiveStatus(incident));
+
+      const unsubscribe = subscribeLiveUpdates(incident, (event) => sendEvent("refresh", event));
+      const heartbeat = setInterval(() => send(": ping\n\n"), HEARTBEAT_INTERVAL);
+
+      cleanup = () => {
+        clearInterval(heartbeat);
+        unsubscribe();
+      };
+
+      request.signal.addEventListener("abort", () => {
+        cleanup();
+        try {
+          controller.close();
+        } catch {
+          // Already closed
+        }
+      });
+    },
+    cancel() {
+      cleanup();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream; charset=utf-8",
+      "Cache-Control": "no-cache, no-transform",
+      "Connection": "keep-alive",
+      "X-Accel-Buffering": "no",
+    },
+  });
+}
@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getIncident, IncidentParams } from "@/lib/incidents";
+import { searchAll } from "@/lib/search";
+import { hasRole, SESSION_COOKIE, verifySessionToken } from "@/lib/session";
+
+// Search every cached tab of an incident's public sheet and SOS sheet: /api/<incident>/search?q=
+export async function GET(request: NextRequest, { params }: IncidentParams) {
+  const incident = getIncident((await params).incident);
+  if (!incident) {
+    return NextResponse.json(
+      { error: "Incident not found" },
+      { status: 404 }
+    );
+  }
+
+  const query = request.nextUrl.searchParams.get("q") || "";
+
+  if (!query.trim()) {
+    return NextResponse.json(
+      { error: "Missing search query" },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const session = verifySessionToken(request.cookies.get(SESSION_COOKIE)?.value);
+    return NextResponse.json(await searchAll(incident, query, hasRole(session, "viewer")));
+  } catch (error) {
+    console.error("[Search API] Error:", error);
+    const message = error instanceof Error ? error.message : "Search failed";
+    return NextResponse.json(
+      { error: message },
+      { status: 500 }
+    );
+  }
+}
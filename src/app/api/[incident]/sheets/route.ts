@@ -0,0 +1,104 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getIncident, IncidentParams } from "@/lib/incidents";
+import { getSheetsCache, getSheetTable } from "@/lib/sheets";
+import { getTabStatus } from "@/lib/tabCache";
+
+export async function GET(request: NextRequest, { params }: IncidentParams) {
+  const incident = getIncident((await params).incident);
+  if (!incident) {
+    return NextResponse.json(
+      { error: "Incident not found" },
+      { status: 404 }
+    );
+  }
+
+  if (!incident.sheetId) {
+    return NextResponse.json(
+      { error: `No public sheet configured for incident ${incident.slug}` },
+      { status: 500 }
+    );
+  }
+
+  const searchParams = request.nextUrl.searchParams;
+  const requestedGid = searchParams.get("gid");
+  const format = searchParams.get("format");
+
+  try {
+    const { data: cache, timestamp, stale } = await getSheetsCache(incident).get();
+    const cacheAge = Math.round((Date.now() - timestamp) / 1000);
+    console.log(`[CACHE] Serving request from cache (age: ${cacheAge}s)`);
+
+    // If gid is requested, return cached HTML for that specific sheet
+    if (requestedGid) {
+      const entry = cache.sheets.get(requestedGid);
+      const tab = cache.tabs.find((t) => t.gid === requestedGid);
+
+      if (!entry || !tab) {
+        return NextResponse.json(
+          { error: `Sheet with gid ${requestedGid} not found` },
+          { status: 404 }
+        );
+      }
+
+      // Never loaded successfully - report the failure instead of a blank sheet
+      if (!entry.value) {
+        return NextResponse.json(
+          { error: `Failed to load tab ${tab.name}: ${entry.error}` },
+          { status: 503 }
+        );
+      }
+
+      const tabStatus = getTabStatus(entry);
+
+      // Rows and columns parsed from the htmlview table
+      if (format === "json") {
+        const table = getSheetTable(cache, requestedGid);
+        if (!table) {
+          return NextResponse.json(
+            { error: `Could not parse table for gid ${requestedGid}` },
+            { status: 422 }
+          );
+        }
+
+        return NextResponse.json({
+          gid: requestedGid,
+          name: tab.name,
+          ...table,
+          cacheAge,
+          stale,
+          tabStatus,
+        });
+      }
+
+      const headers: Record<string, string> = {
+        "Content-Type": "text/html; charset=utf-8",
+        "Cache-Control": "public, max-age=300",
+        "X-Cache": stale || tabStatus.error ? "STALE" : "HIT",
+        "X-Cache-Age": `${tabStatus.age ?? cacheAge}s`,
+      };
+      if (tabStatus.error) {
+        headers["X-Tab-Error"] = encodeURIComponent(tabStatus.error);
+      }
+
+      return new NextResponse(entry.value, { status: 200, headers });
+    }
+
+    // No gid requested - return the list of tabs as JSON
+    const response = NextResponse.json({
+      tabs: cache.tabs.map((t) => ({ name: t.name, gid: t.gid, ...getTabStatus(cache.sheets.get(t.gid)) })),
+      stale,
+    });
+
+    response.headers.set("X-Cache", stale ? "STALE" : "HIT");
+    response.headers.set("X-Cache-Age", `${cacheAge}s`);
+
+    return response;
+  } catch (error) {
+    console.error("[ERROR] Error fetching spreadsheet:", error);
+    const message = error instanceof Error ? error.message : "Failed to fetch spreadsheet data";
+    return NextResponse.json(
+      { error: message },
+      { status: 500 }
+    );
+  }
+}
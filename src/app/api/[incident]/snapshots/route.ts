@@ -0,0 +1,119 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getIncident, IncidentParams } from "@/lib/incidents";
+import { getSheetsCache } from "@/lib/sheets";
+import { getSOSCache, getColumnMappingError, groupIntoCases, processSheetData } from "@/lib/sos";
+
+// Look back at what the caches held during the incident.
+//   /api/<incident>/snapshots?source=sos                   -> list of snapshot timestamps
+//   /api/<incident>/snapshots?source=sos&at=<ms|ISO>       -> tabs as of that time
+//   /api/<incident>/snapshots?source=sos&at=...&id=<id>    -> SOS cases for one tab
+//   /api/<incident>/snapshots?source=sheets&at=...&gid=<gid> -> htmlview for one tab
+export async function GET(request: NextRequest, { params }: IncidentParams) {
+  const incident = getIncident((await params).incident);
+  if (!incident) {
+    return NextResponse.json(
+      { error: "Incident not found" },
+      { status: 404 }
+    );
+  }
+
+  const searchParams = request.nextUrl.searchParams;
+  const source = searchParams.get("source");
+  const atParam = searchParams.get("at");
+
+  if (source !== "sos" && source !== "sheets") {
+    return NextResponse.json(
+      { error: 'source must be "sos" or "sheets"' },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const sosCache = getSOSCache(incident);
+    const sheetsCache = getSheetsCache(incident);
+    const cache = source === "sos" ? sosCache : sheetsCache;
+
+    if (!atParam) {
+      const timestamps = await cache.listSnapshots();
+      return NextResponse.json({
+        source,
+        snapshots: timestamps.map(t => ({ timestamp: t, time: new Date(t).toISOString() })),
+      });
+    }
+
+    const at = /^\d+$/.test(atParam) ? parseInt(atParam) : new Date(atParam).getTime();
+    if (isNaN(at)) {
+      return NextResponse.json(
+        { error: `Invalid time: ${atParam}` },
+        { status: 400 }
+      );
+    }
+
+    if (source === "sos") {
+      const snapshot = await sosCache.getSnapshot(at);
+      if (!snapshot) {
+        return NextResponse.json({ error: "No snapshot at or before that time" }, { status: 404 });
+      }
+
+      const requestedSheetId = searchParams.get("id");
+      if (requestedSheetId) {
+        const id = parseInt(requestedSheetId);
+        const rows = snapshot.data.sheets.get(id)?.value;
+        const tab = snapshot.data.tabs.find(t => t.id === id);
+
+        if (!rows || !tab) {
+          return NextResponse.json(
+            { error: `Sheet with id ${requestedSheetId} not found in snapshot` },
+            { status: 404 }
+          );
+        }
+
+        return NextResponse.json({
+          name: tab.name,
+          id: tab.id,
+          items: groupIntoCases(processSheetData(rows, incident, tab.name)),
+          mappingError: getColumnMappingError(rows, incident, tab.name),
+          timestamp: snapshot.timestamp,
+        });
+      }
+
+      return NextResponse.json({ tabs: snapshot.data.tabs, timestamp: snapshot.timestamp });
+    }
+
+    const snapshot = await sheetsCache.getSnapshot(at);
+    if (!snapshot) {
+      return NextResponse.json({ error: "No snapshot at or before that time" }, { status: 404 });
+    }
+
+    const requestedGid = searchParams.get("gid");
+    if (requestedGid) {
+      const content = snapshot.data.sheets.get(requestedGid)?.value;
+      if (!content) {
+        return NextResponse.json(
+          { error: `Sheet with gid ${requestedGid} not found in snapshot` },
+          { status: 404 }
+        );
+      }
+
+      return new NextResponse(content, {
+        status: 200,
+        headers: {
+          "Content-Type": "text/html; charset=utf-8",
+          "X-Snapshot-Time": new Date(snapshot.timestamp).toISOString(),
+        },
+      });
+    }
+
+    return NextResponse.json({
+      tabs: snapshot.data.tabs.map((t) => ({ name: t.name, gid: t.gid })),
+      timestamp: snapshot.timestamp,
+    });
+  } catch (error) {
+    console.error("[Snapshots API] Error:", error);
+    const message = error instanceof Error ? error.message : "Failed to load snapshot";
+    return NextResponse.json(
+      { error: message },
+      { status: 500 }
+    );
+  }
+}
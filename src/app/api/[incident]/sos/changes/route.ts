@@ -0,0 +1,80 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getIncident, IncidentParams } from "@/lib/incidents";
+import { getSOSCache, getSOSConfigError } from "@/lib/sos";
+import { diffSOSData, SOSChange } from "@/lib/sosChanges";
+
+// What changed in the SOS list since a previous refresh.
+//   /api/<incident>/sos/changes                  -> { cursor } to start from
+//   /api/<incident>/sos/changes?since=<cursor>   -> added / changed / removed cases, plus the next cursor
+// `since` is a cursor from a previous call or any timestamp (ms or ISO).
+// Optional `id` limits the result to one tab.
+export async function GET(request: NextRequest, { params }: IncidentParams) {
+  const incident = getIncident((await params).incident);
+  if (!incident) {
+    return NextResponse.json(
+      { error: "Incident not found" },
+      { status: 404 }
+    );
+  }
+
+  const configError = getSOSConfigError(incident);
+  if (configError) {
+    return NextResponse.json(
+      { error: configError },
+      { status: 500 }
+    );
+  }
+
+  const searchParams = request.nextUrl.searchParams;
+  const sinceParam = searchParams.get("since");
+  const requestedSheetId = searchParams.get("id");
+
+  try {
+    const sosCache = getSOSCache(incident);
+    const { data: cache, timestamp } = await sosCache.get();
+
+    if (!sinceParam) {
+      return NextResponse.json({ cursor: timestamp, changes: [] });
+    }
+
+    const since = /^\d+$/.test(sinceParam) ? parseInt(sinceParam) : new Date(sinceParam).getTime();
+    if (isNaN(since)) {
+      return NextResponse.json(
+        { error: `Invalid cursor: ${sinceParam}` },
+        { status: 400 }
+      );
+    }
+
+    let changes: SOSChange[] = [];
+    let reset = false;
+
+    if (since < timestamp) {
+      const baseline = await sosCache.getSnapshot(since);
+
+      // Nothing that old is kept any more - everything counts as new
+      reset = !baseline;
+
+      if (baseline?.timestamp !== timestamp) {
+        changes = diffSOSData(baseline?.data || { tabs: [], sheets: new Map() }, cache, incident);
+      }
+    }
+
+    if (requestedSheetId) {
+      const id = parseInt(requestedSheetId);
+      changes = changes.filter(c => c.tabId === id);
+    }
+
+    return NextResponse.json({
+      cursor: timestamp,
+      reset,
+      changes,
+    });
+  } catch (error) {
+    console.error("[SOS Changes API] Error:", error);
+    const message = error instanceof Error ? error.message : "Failed to compute changes";
+    return NextResponse.json(
+      { error: message },
+      { status: 500 }
+    );
+  }
+}
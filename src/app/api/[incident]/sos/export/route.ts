@@ -0,0 +1,103 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getIncident, IncidentParams } from "@/lib/incidents";
+import { getSOSCache, getSOSConfigError, getColumnMappingError, groupIntoCases, processSheetData } from "@/lib/sos";
+import { filterByLocation, filterCases } from "@/lib/sosFilters";
+import { casesToRows, toCsv } from "@/lib/sosExport";
+import { buildXlsx } from "@/lib/xlsx";
+import { withTriage } from "@/lib/triage";
+
+// Download one SOS tab as CSV or XLSX, with the same filters as the page:
+//   /api/<incident>/sos/export?id=<tab>&format=csv|xlsx&status=<status>&q=<search>
+export async function GET(request: NextRequest, { params }: IncidentParams) {
+  const incident = getIncident((await params).incident);
+  if (!incident) {
+    return NextResponse.json(
+      { error: "Incident not found" },
+      { status: 404 }
+    );
+  }
+
+  const configError = getSOSConfigError(incident);
+  if (configError) {
+    return NextResponse.json(
+      { error: configError },
+      { status: 500 }
+    );
+  }
+
+  const searchParams = request.nextUrl.searchParams;
+  const requestedSheetId = searchParams.get("id");
+  const format = searchParams.get("format") || "csv";
+
+  if (!requestedSheetId) {
+    return NextResponse.json(
+      { error: "Missing sheet id" },
+      { status: 400 }
+    );
+  }
+
+  if (format !== "csv" && format !== "xlsx") {
+    return NextResponse.json(
+      { error: 'format must be "csv" or "xlsx"' },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const { data: cache } = await getSOSCache(incident).get();
+
+    const id = parseInt(requestedSheetId);
+    const rows = cache.sheets.get(id)?.value;
+    const tab = cache.tabs.find(t => t.id === id);
+
+    if (!rows || !tab) {
+      return NextResponse.json(
+        { error: `Sheet with id ${requestedSheetId} not found` },
+        { status: 404 }
+      );
+    }
+
+    const mappingError = getColumnMappingError(rows, incident, tab.name);
+    if (mappingError) {
+      return NextResponse.json(
+        { error: mappingError },
+        { status: 422 }
+      );
+    }
+
+    const items = filterCases(
+      await withTriage(incident, id, filterByLocation(groupIntoCases(processSheetData(rows, incident, tab.name)), searchParams)),
+      { status: searchParams.get("status"), query: searchParams.get("q"), triage: searchParams.get("triage") }
+    );
+    const exportRows = casesToRows(items);
+
+    const stamp = new Date().toISOString().slice(0, 16).replace(/[-:]/g, "").replace("T", "-");
+    const filename = `sos-${incident.slug}-${tab.name}-${stamp}.${format}`;
+    const disposition = `attachment; filename="sos-export.${format}"; filename*=UTF-8''${encodeURIComponent(filename)}`;
+
+    if (format === "xlsx") {
+      return new NextResponse(new Uint8Array(buildXlsx(tab.name, exportRows)), {
+        headers: {
+          "Content-Type": "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+          "Content-Disposition": disposition,
+          "Cache-Control": "no-store",
+        },
+      });
+    }
+
+    return new NextResponse(toCsv(exportRows), {
+      headers: {
+        "Content-Type": "text/csv; charset=utf-8",
+        "Content-Disposition": disposition,
+        "Cache-Control": "no-store",
+      },
+    });
+  } catch (error) {
+    console.error("[SOS Export API] Error:", error);
+    const message = error instanceof Error ? error.message : "Failed to export SOS data";
+    return NextResponse.json(
+      { error: message },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,95 @@
+import { NextRequest, NextResponse } from "next/server";
+import { DEFAULT_LOCALE, translator } from "@/lib/i18n";
+import { getIncident, IncidentParams } from "@/lib/incidents";
+import { getSOSCache, getSOSConfigError, getColumnMappingError, groupIntoCases, processSheetData } from "@/lib/sos";
+import { filterByLocation, filterCases } from "@/lib/sosFilters";
+import { describeFilters, groupByBlock } from "@/lib/roster";
+import { buildRosterPdf } from "@/lib/rosterPdf";
+import { withTriage } from "@/lib/triage";
+
+// PDF roster of one SOS tab, one block per sheet, with the same filters as the page:
+//   /api/<incident>/sos/roster?id=<tab>&status=<status>&triage=<state>&q=<search>&block=<block>
+export async function GET(request: NextRequest, { params }: IncidentParams) {
+  const incident = getIncident((await params).incident);
+  if (!incident) {
+    return NextResponse.json(
+      { error: "Incident not found" },
+      { status: 404 }
+    );
+  }
+
+  const configError = getSOSConfigError(incident);
+  if (configError) {
+    return NextResponse.json(
+      { error: configError },
+      { status: 500 }
+    );
+  }
+
+  const searchParams = request.nextUrl.searchParams;
+  const requestedSheetId = searchParams.get("id");
+
+  if (!requestedSheetId) {
+    return NextResponse.json(
+      { error: "Missing sheet id" },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const { data: cache } = await getSOSCache(incident).get();
+
+    const id = parseInt(requestedSheetId);
+    const entry = cache.sheets.get(id);
+    const tab = cache.tabs.find(t => t.id === id);
+
+    if (!entry?.value || !tab) {
+      return NextResponse.json(
+        { error: `Sheet with id ${requestedSheetId} not found` },
+        { status: 404 }
+      );
+    }
+
+    const mappingError = getColumnMappingError(entry.value, incident, tab.name);
+    if (mappingError) {
+      return NextResponse.json(
+        { error: mappingError },
+        { status: 422 }
+      );
+    }
+
+    const filters = { status: searchParams.get("status"), query: searchParams.get("q"), triage: searchParams.get("triage") };
+    const items = filterCases(
+      await withTriage(incident, id, filterByLocation(groupIntoCases(processSheetData(entry.value, incident, tab.name)), searchParams)),
+      filters
+    );
+
+    // In the sheet's own language: the PDF font has no Simplified Chinese glyphs
+    const t = translator(DEFAULT_LOCALE);
+    const pdf = buildRosterPdf(groupByBlock(items), {
+      tabName: tab.name,
+      generatedAt: Date.now(),
+      dataUpdatedAt: entry.updatedAt,
+      filters: describeFilters(filters, t),
+      t,
+    });
+
+    const stamp = new Date().toISOString().slice(0, 16).replace(/[-:]/g, "").replace("T", "-");
+    const filename = `sos-roster-${incident.slug}-${tab.name}-${stamp}.pdf`;
+
+    return new NextResponse(new Uint8Array(pdf), {
+      headers: {
+        "Content-Type": "application/pdf",
+        "Content-Disposition": `attachment; filename="sos-roster.pdf"; filename*=UTF-8''${encodeURIComponent(filename)}`,
+        "Cache-Control": "no-store",
+      },
+    });
+  } catch (error) {
+    console.error("[SOS Roster API] Error:", error);
+    const message = error instanceof Error ? error.message : "Failed to build roster";
+    return NextResponse.json(
+      { error: message },
+      { status: 500 }
+    );
+  }
+}
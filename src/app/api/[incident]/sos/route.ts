@@ -0,0 +1,93 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getIncident, IncidentParams } from "@/lib/incidents";
+import { getSOSCache, getSOSConfigError, getColumnMappingError, groupIntoCases, processSheetData } from "@/lib/sos";
+import { filterByLocation } from "@/lib/sosFilters";
+import { getTabStatus } from "@/lib/tabCache";
+import { withTriage } from "@/lib/triage";
+
+export async function GET(request: NextRequest, { params }: IncidentParams) {
+  const incident = getIncident((await params).incident);
+  if (!incident) {
+    return NextResponse.json(
+      { error: "Incident not found" },
+      { status: 404 }
+    );
+  }
+
+  const configError = getSOSConfigError(incident);
+  if (configError) {
+    return NextResponse.json(
+      { error: configError },
+      { status: 500 }
+    );
+  }
+
+  const searchParams = request.nextUrl.searchParams;
+  const requestedSheetId = searchParams.get("id");
+
+  try {
+    const { data: cache, timestamp, stale } = await getSOSCache(incident).get();
+    const cacheAge = Math.round((Date.now() - timestamp) / 1000);
+
+    // If specific sheet ID requested
+    if (requestedSheetId) {
+      const id = parseInt(requestedSheetId);
+      const entry = cache.sheets.get(id);
+      const tab = cache.tabs.find(t => t.id === id);
+
+      if (!entry || !tab) {
+        return NextResponse.json(
+          { error: `Sheet with id ${requestedSheetId} not found` },
+          { status: 404 }
+        );
+      }
+
+      // Never loaded successfully - report the failure instead of an empty list
+      if (!entry.value) {
+        return NextResponse.json(
+          { error: `Failed to load tab ${tab.name}: ${entry.error}` },
+          { status: 503 }
+        );
+      }
+
+      // A renamed form question must not look like an empty list
+      const mappingError = getColumnMappingError(entry.value, incident, tab.name);
+      if (mappingError) {
+        return NextResponse.json(
+          { error: mappingError },
+          { status: 422 }
+        );
+      }
+
+      const processedItems = await withTriage(
+        incident,
+        id,
+        filterByLocation(groupIntoCases(processSheetData(entry.value, incident, tab.name)), searchParams)
+      );
+
+      return NextResponse.json({
+        name: tab.name,
+        id: tab.id,
+        items: processedItems, // One merged case per unit instead of raw rows
+        cacheAge,
+        stale,
+        tabStatus: getTabStatus(entry)
+      });
+    }
+
+    // Return list of tabs
+    return NextResponse.json({
+      tabs: cache.tabs.map(t => ({ ...t, ...getTabStatus(cache.sheets.get(t.id)) })),
+      cacheAge,
+      stale
+    });
+
+  } catch (error) {
+    console.error("[SOS API] Error:", error);
+    const message = error instanceof Error ? error.message : "Failed to fetch SOS data";
+    return NextResponse.json(
+      { error: message },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,92 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getIncident, IncidentParams } from "@/lib/incidents";
+import { getAnnotations, setAnnotation, validateTriageUpdate } from "@/lib/triage";
+import { notifyLiveChange } from "@/lib/liveUpdates";
+import { SESSION_COOKIE, verifySessionToken } from "@/lib/session";
+import { getSOSCache } from "@/lib/sos";
+import { enqueueWriteBack } from "@/lib/writeBack";
+
+// Triage annotations for one SOS tab: /api/<incident>/sos/triage?id=<sheetId>
+export async function GET(request: NextRequest, { params }: IncidentParams) {
+  const incident = getIncident((await params).incident);
+  if (!incident) {
+    return NextResponse.json(
+      { error: "Incident not found" },
+      { status: 404 }
+    );
+  }
+
+  const id = parseInt(request.nextUrl.searchParams.get("id") || "");
+  if (isNaN(id)) {
+    return NextResponse.json(
+      { error: "Missing or invalid id parameter" },
+      { status: 400 }
+    );
+  }
+
+  try {
+    return NextResponse.json({ annotations: await getAnnotations(incident, id) });
+  } catch (error) {
+    console.error("[TRIAGE] Error:", error);
+    const message = error instanceof Error ? error.message : "Failed to load annotations";
+    return NextResponse.json(
+      { error: message },
+      { status: 500 }
+    );
+  }
+}
+
+// Set the triage state, assignee and note of one case:
+//   POST { id, key, state, assignee, note } - all of state / assignee / note empty clears it
+export async function POST(request: NextRequest, { params }: IncidentParams) {
+  const incident = getIncident((await params).incident);
+  if (!incident) {
+    return NextResponse.json(
+      { error: "Incident not found" },
+      { status: 404 }
+    );
+  }
+
+  const session = verifySessionToken(request.cookies.get(SESSION_COOKIE)?.value);
+  if (!session) {
+    return NextResponse.json(
+      { error: "未登入或登入已過期，請重新登入", reauth: true },
+      { status: 401 }
+    );
+  }
+
+  try {
+    const body = await request.json().catch(() => null);
+    if (!body || typeof body !== "object") {
+      return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+    }
+
+    const id = typeof body.id === "number" ? body.id : parseInt(body.id);
+    if (isNaN(id) || typeof body.key !== "string" || !body.key) {
+      return NextResponse.json({ error: "id and key are required" }, { status: 400 });
+    }
+
+    const update = validateTriageUpdate({ state: body.state ?? null, assignee: body.assignee, note: body.note });
+    if (typeof update === "string") {
+      return NextResponse.json({ error: update }, { status: 400 });
+    }
+
+    const annotation = await setAnnotation(incident, id, body.key, update, session.user);
+    notifyLiveChange(incident, "sos");
+
+    // Mirroring into the sheet is best-effort; the annotation itself is already saved
+    const tabName = getSOSCache(incident).peek()?.data.tabs.find(t => t.id === id)?.name || String(id);
+    enqueueWriteBack(incident, id, tabName, body.key, annotation, session.user).catch((err) => {
+      console.error("[TRIAGE] Failed to queue write-back:", err);
+    });
+
+    return NextResponse.json({ key: body.key, annotation });
+  } catch (error) {
+    console.error("[TRIAGE] Error:", error);
+    const message = error instanceof Error ? error.message : "Failed to save annotation";
+    return NextResponse.json(
+      { error: message },
+      { status: 500 }
+    );
+  }
+}
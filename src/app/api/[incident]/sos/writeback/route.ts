@@ -0,0 +1,68 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getIncident, IncidentParams } from "@/lib/incidents";
+import { getWriteBackStatus, resolveWriteBack } from "@/lib/writeBack";
+
+// Outbox of triage rows waiting to be written to the incident's SOS sheet
+export async function GET(_request: NextRequest, { params }: IncidentParams) {
+  const incident = getIncident((await params).incident);
+  if (!incident) {
+    return NextResponse.json(
+      { error: "Incident not found" },
+      { status: 404 }
+    );
+  }
+
+  try {
+    const status = await getWriteBackStatus(incident);
+    if (!status) {
+      return NextResponse.json(
+        { error: "Write-back is not enabled (SHEET_WRITEBACK=tab)" },
+        { status: 404 }
+      );
+    }
+    return NextResponse.json(status);
+  } catch (error) {
+    console.error("[WRITEBACK] Error:", error);
+    const message = error instanceof Error ? error.message : "Failed to load write-back status";
+    return NextResponse.json(
+      { error: message },
+      { status: 500 }
+    );
+  }
+}
+
+// Resolve a conflicting or failed write: POST { id, action: "overwrite" | "discard" }
+export async function POST(request: NextRequest, { params }: IncidentParams) {
+  const incident = getIncident((await params).incident);
+  if (!incident) {
+    return NextResponse.json(
+      { error: "Incident not found" },
+      { status: 404 }
+    );
+  }
+
+  try {
+    const body = await request.json().catch(() => null);
+    if (!body || typeof body.id !== "string" || (body.action !== "overwrite" && body.action !== "discard")) {
+      return NextResponse.json(
+        { error: 'Expected { id, action: "overwrite" | "discard" }' },
+        { status: 400 }
+      );
+    }
+
+    if (!(await resolveWriteBack(incident, body.id, body.action))) {
+      return NextResponse.json(
+        { error: `No queued write for ${body.id}` },
+        { status: 404 }
+      );
+    }
+    return NextResponse.json(await getWriteBackStatus(incident));
+  } catch (error) {
+    console.error("[WRITEBACK] Error:", error);
+    const message = error instanceof Error ? error.message : "Failed to resolve write-back";
+    return NextResponse.json(
+      { error: message },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getIncident, IncidentParams } from "@/lib/incidents";
+import { getStats } from "@/lib/stats";
+
+export const dynamic = "force-dynamic";
+
+// Aggregate counts for the /<incident>/stats dashboard
+export async function GET(_request: NextRequest, { params }: IncidentParams) {
+  const incident = getIncident((await params).incident);
+  if (!incident) {
+    return NextResponse.json(
+      { error: "Incident not found" },
+      { status: 404 }
+    );
+  }
+
+  try {
+    return NextResponse.json(await getStats(incident), {
+      headers: { "Cache-Control": "no-store" },
+    });
+  } catch (error) {
+    console.error("[Stats API] Error:", error);
+    const message = error instanceof Error ? error.message : "Failed to compute statistics";
+    return NextResponse.json(
+      { error: message },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from "next/server";
+import { clientAddress } from "@/lib/clientAddress";
+import { clearLoginFailures, loginRetryAfter, recordLoginFailure } from "@/lib/loginLimits";
+import { authenticate } from "@/lib/users";
+import { createSessionToken, getAuthConfigError, SESSION_COOKIE, sessionCookieOptions, sessionTtl } from "@/lib/session";
+
+// Log in with a username and password, or the shared passcode (no username)
+export async function POST(request: NextRequest) {
+  const configError = getAuthConfigError();
+  if (configError) {
+    return NextResponse.json(
+      { error: configError },
+      { status: 500 }
+    );
+  }
+
+  try {
+    const body = await request.json().catch(() => ({}));
+    const username = typeof body.username === "string" ? body.username.trim() : "";
+    const password = typeof body.password === "string" ? body.password : "";
+
+    const address = clientAddress(request);
+    const wait = Math.ceil(loginRetryAfter(address, username) / 1000);
+    if (wait > 0) {
+      console.warn(`[AUTH] Too many failed logins${username ? ` for ${username}` : " with passcode"}, next try in ${wait}s`);
+      return NextResponse.json(
+        { error: `嘗試次數過多，請於 ${wait} 秒後再試` },
+        { status: 429, headers: { "Retry-After": String(wait) } }
+      );
+    }
+
+    const account = await authenticate(username, password);
+    if (!account) {
+      recordLoginFailure(address, username);
+      console.warn(`[AUTH] Failed login${username ? ` for ${username}` : " with passcode"}`);
+      return NextResponse.json(
+        { error: username ? "用戶名稱或密碼錯誤" : "通行碼錯誤" },
+        { status: 401 }
+      );
+    }
+    clearLoginFailures(address);
+
+    const { token, session } = createSessionToken(account.user, account.role);
+    console.log(`[AUTH] ${account.user} logged in as ${account.role}`);
+
+    const response = NextResponse.json({ user: session.user, role: session.role, exp: session.exp });
+    response.cookies.set(SESSION_COOKIE, token, sessionCookieOptions(sessionTtl()));
+    return response;
+  } catch (error) {
+    console.error("[AUTH] Login error:", error);
+    const message = error instanceof Error ? error.message : "Login failed";
+    return NextResponse.json(
+      { error: message },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,15 @@
+import { NextRequest, NextResponse } from "next/server";
+import { endSessionSubscriptions } from "@/lib/push";
+import { SESSION_COOKIE, sessionCookieOptions, verifySessionToken } from "@/lib/session";
+
+export async function POST(request: NextRequest) {
+  // SOS notifications stop with the session that subscribed to them
+  const session = verifySessionToken(request.cookies.get(SESSION_COOKIE)?.value);
+  if (session) {
+    await endSessionSubscriptions(session.sid).catch(err => console.error("[PUSH] Failed to end subscriptions:", err));
+  }
+
+  const response = NextResponse.json({ ok: true });
+  response.cookies.set(SESSION_COOKIE, "", sessionCookieOptions(0));
+  return response;
+}
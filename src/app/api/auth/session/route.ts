@@ -0,0 +1,10 @@
+import { NextRequest, NextResponse } from "next/server";
+import { SESSION_COOKIE, verifySessionToken } from "@/lib/session";
+
+// Who is logged in, for the page headers: { user, role, exp } or { user: null }
+export async function GET(request: NextRequest) {
+  const session = verifySessionToken(request.cookies.get(SESSION_COOKIE)?.value);
+  return NextResponse.json(session ? { user: session.user, role: session.role, exp: session.exp } : { user: null }, {
+    headers: { "Cache-Control": "no-store" },
+  });
+}
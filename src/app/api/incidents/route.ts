@@ -0,0 +1,18 @@
+import { NextResponse } from "next/server";
+import { getIncidents, summarizeIncident } from "@/lib/incidents";
+
+export const dynamic = "force-dynamic";
+
+// Every incident in the registry, without its sheet ids: /api/incidents
+export async function GET() {
+  try {
+    return NextResponse.json({ incidents: getIncidents().map(summarizeIncident) });
+  } catch (error) {
+    console.error("[Incidents API] Error:", error);
+    const message = error instanceof Error ? error.message : "Failed to load incidents";
+    return NextResponse.json(
+      { error: message },
+      { status: 500 }
+    );
+  }
+}
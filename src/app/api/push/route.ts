@@ -0,0 +1,125 @@
+import { NextRequest, NextResponse } from "next/server";
+import { clientAddress } from "@/lib/clientAddress";
+import { getIncident, isIncidentClosed } from "@/lib/incidents";
+import {
+  addSubscription,
+  getSubscriptions,
+  removeSubscription,
+  validateSubscription,
+  validateTopic,
+} from "@/lib/push";
+import { SESSION_COOKIE, verifySessionToken } from "@/lib/session";
+import { getVapidPublicKey } from "@/lib/webPush";
+
+export const dynamic = "force-dynamic";
+
+// Push settings, whether an incident still takes subscriptions, and which of
+// this browser's subscriptions still exist:
+//   GET /api/push?incident=<slug>&ids=<id>,<id>
+export async function GET(request: NextRequest) {
+  const { searchParams } = request.nextUrl;
+  const ids = (searchParams.get("ids") || "").split(",").filter(Boolean);
+  const slug = searchParams.get("incident");
+
+  try {
+    const incident = slug ? getIncident(slug) : null;
+    return NextResponse.json({
+      publicKey: getVapidPublicKey(),
+      closed: slug ? !incident || isIncidentClosed(incident) : false,
+      subscriptions: ids.length > 0
+        ? await getSubscriptions(ids, verifySessionToken(request.cookies.get(SESSION_COOKIE)?.value))
+        : [],
+    });
+  } catch (error) {
+    console.error("[PUSH] Error:", error);
+    const message = error instanceof Error ? error.message : "Failed to load subscriptions";
+    return NextResponse.json(
+      { error: message },
+      { status: 500 }
+    );
+  }
+}
+
+// Subscribe: POST { subscription: PushSubscription.toJSON(), incident: "<slug>", topic }
+//   topic is { kind: "sos", location: "2座 18樓" } (volunteers only) or { kind: "sheet", keyword }
+export async function POST(request: NextRequest) {
+  if (!getVapidPublicKey()) {
+    return NextResponse.json(
+      { error: "此網站未有設定推送通知" },
+      { status: 503 }
+    );
+  }
+
+  try {
+    const body = await request.json().catch(() => null);
+    const incident = typeof body?.incident === "string" ? getIncident(body.incident) : null;
+    if (!incident) {
+      return NextResponse.json({ error: "Unknown incident" }, { status: 400 });
+    }
+    if (isIncidentClosed(incident)) {
+      return NextResponse.json(
+        { error: "事故已結束，不再接受通知訂閱" },
+        { status: 410 }
+      );
+    }
+
+    const subscription = validateSubscription(body?.subscription);
+    if (typeof subscription === "string") {
+      return NextResponse.json({ error: subscription }, { status: 400 });
+    }
+    const topic = validateTopic(body?.topic);
+    if (typeof topic === "string") {
+      return NextResponse.json({ error: topic }, { status: 400 });
+    }
+
+    // Same rule as the SOS list itself
+    const session = verifySessionToken(request.cookies.get(SESSION_COOKIE)?.value);
+    if (topic.kind === "sos" && !session) {
+      return NextResponse.json(
+        { error: "未登入或登入已過期，請重新登入", reauth: true },
+        { status: 401 }
+      );
+    }
+
+    const record = await addSubscription(subscription, incident, topic, { session, address: clientAddress(request) });
+    if (typeof record === "string") {
+      return NextResponse.json({ error: record }, { status: 429 });
+    }
+    return NextResponse.json({ subscription: record }, { status: 201 });
+  } catch (error) {
+    console.error("[PUSH] Error:", error);
+    const message = error instanceof Error ? error.message : "Failed to subscribe";
+    return NextResponse.json(
+      { error: message },
+      { status: 500 }
+    );
+  }
+}
+
+// Unsubscribe: DELETE /api/push?id=<id>; the id is the token in the unsubscribe link
+export async function DELETE(request: NextRequest) {
+  const id = request.nextUrl.searchParams.get("id");
+  if (!id) {
+    return NextResponse.json(
+      { error: "Missing id parameter" },
+      { status: 400 }
+    );
+  }
+
+  try {
+    if (!(await removeSubscription(id))) {
+      return NextResponse.json(
+        { error: "找不到此通知訂閱，可能已經取消或過期" },
+        { status: 404 }
+      );
+    }
+    return NextResponse.json({ ok: true });
+  } catch (error) {
+    console.error("[PUSH] Error:", error);
+    const message = error instanceof Error ? error.message : "Failed to unsubscribe";
+    return NextResponse.json(
+      { error: message },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,20 @@
+import { NextResponse } from "next/server";
+import { getStatusReport } from "@/lib/status";
+
+export const dynamic = "force-dynamic";
+
+// Health of both data pipelines, per source and per tab: /api/status
+export async function GET() {
+  try {
+    return NextResponse.json(await getStatusReport(), {
+      headers: { "Cache-Control": "no-store" },
+    });
+  } catch (error) {
+    console.error("[Status API] Error:", error);
+    const message = error instanceof Error ? error.message : "Failed to build status report";
+    return NextResponse.json(
+      { error: message },
+      { status: 500 }
+    );
+  }
+}
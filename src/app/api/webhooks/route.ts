@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getWebhookStatus, retryDelivery } from "@/lib/webhooks";
+
+export const dynamic = "force-dynamic";
+
+// Webhook targets and the delivery log, for /admin/webhooks
+export async function GET() {
+  try {
+    return NextResponse.json(await getWebhookStatus(), {
+      headers: { "Cache-Control": "no-store" },
+    });
+  } catch (error) {
+    console.error("[WEBHOOK] Error:", error);
+    const message = error instanceof Error ? error.message : "Failed to load webhook status";
+    return NextResponse.json(
+      { error: message },
+      { status: 500 }
+    );
+  }
+}
+
+// Send a failed delivery again: POST { id }
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json().catch(() => null);
+    if (!body || typeof body.id !== "string") {
+      return NextResponse.json(
+        { error: "Expected { id }" },
+        { status: 400 }
+      );
+    }
+
+    if (!(await retryDelivery(body.id))) {
+      return NextResponse.json(
+        { error: `No failed delivery ${body.id}` },
+        { status: 404 }
+      );
+    }
+    return NextResponse.json(await getWebhookStatus());
+  } catch (error) {
+    console.error("[WEBHOOK] Error:", error);
+    const message = error instanceof Error ? error.message : "Failed to retry delivery";
+    return NextResponse.json(
+      { error: message },
+      { status: 500 }
+    );
+  }
+}
@@ -1,20 +1,36 @@
-import type { Metadata } from "next";
+import type { Metadata, Viewport } from "next";
+import { LocaleProvider } from "@/components/LocaleContext";
+import ServiceWorkerRegistration from "@/components/ServiceWorkerRegistration";
+import { translate } from "@/lib/i18n";
+import { getRequestLocale } from "@/lib/requestLocale";
 import "./globals.css";
 
-export const metadata: Metadata = {
-  title: "宏福苑報平安【齋睇】",
-  description: "宏福苑火警報平安試算表 - 只供查閱，如需報平安請用原始試算表",
+export async function generateMetadata(): Promise<Metadata> {
+  const locale = await getRequestLocale();
+  return {
+    title: translate(locale, "site.title"),
+    description: translate(locale, "site.description"),
+    icons: { icon: "/icon.svg", apple: "/icon.svg" },
+    appleWebApp: { capable: true, title: translate(locale, "site.shortTitle") },
+  };
+}
+
+export const viewport: Viewport = {
+  themeColor: "#1d4ed8",
 };
 
-export default function RootLayout({
+export default async function RootLayout({
   children,
 }: Readonly<{
   children: React.ReactNode;
 }>) {
+  const locale = await getRequestLocale();
+
   return (
-    <html lang="zh-Hant-HK">
+    <html lang={locale}>
       <body className="antialiased">
-        {children}
+        <ServiceWorkerRegistration />
+        <LocaleProvider locale={locale}>{children}</LocaleProvider>
       </body>
     </html>
   );
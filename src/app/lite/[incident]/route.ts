@@ -0,0 +1,95 @@
+import { NextRequest } from "next/server";
+import { formatTime, translator } from "@/lib/i18n";
+import { getIncident, IncidentParams } from "@/lib/incidents";
+import { choiceLinks, hrefWith, html, litePage, liteLocale, pageLinks, paginate, searchForm } from "@/lib/lite";
+import { getSheetsCache, getSheetTable } from "@/lib/sheets";
+import { getTabStatus } from "@/lib/tabCache";
+
+export const dynamic = "force-dynamic";
+
+const REFRESH_SECONDS = 5 * 60; // same as the sheets cache TTL
+
+// Public sheet without JavaScript: /lite/<slug>?gid=<tab>&q=<search>&page=<n>
+export async function GET(request: NextRequest, { params }: IncidentParams) {
+  const locale = liteLocale(request);
+  const t = translator(locale);
+
+  const incident = getIncident((await params).incident);
+  if (!incident) {
+    return litePage(request, locale, { title: t("lite.notFound"), status: 404, body: html`<p>${t("lite.notFound")}</p>` });
+  }
+
+  const title = `${incident.title}${t("site.readOnly")}`;
+  const header = html`<h1>${title}</h1>
+<p class="choices">
+${incident.formUrl && incident.status === "active" ? html`<a href="${incident.formUrl}">${t("home.report")}</a>` : ""}
+${incident.sosSheetId ? html`<a href="/lite/${incident.slug}/sos">${t("home.sosList")}</a>` : ""}
+<a href="/${incident.slug}">${t("lite.fullVersion")}</a>
+</p>
+${incident.status === "archived" ? html`<p class="note">${t("home.archived")}</p>` : ""}`;
+
+  if (!incident.sheetId) {
+    return litePage(request, locale, { title, body: html`${header}<p>${t("lite.noSheet")}</p>` });
+  }
+
+  try {
+    const { data: cache, timestamp, stale } = await getSheetsCache(incident).get();
+    const gid = request.nextUrl.searchParams.get("gid") || cache.tabs[0]?.gid || "";
+    const tab = cache.tabs.find((candidate) => candidate.gid === gid);
+    const entry = cache.sheets.get(gid);
+
+    const tabs = choiceLinks(cache.tabs.map((option) => ({
+      href: hrefWith(request, { gid: option.gid, q: null, page: null }),
+      label: option.name,
+      current: option.gid === gid,
+    })));
+
+    let content;
+    if (!tab || !entry?.value) {
+      content = html`<p class="err">${t("lite.loadFailed", { error: entry?.error || gid })}</p>`;
+    } else {
+      const table = getSheetTable(cache, gid);
+      if (!table) {
+        content = html`<p>${t("lite.unparsable")} <a href="/${incident.slug}?gid=${gid}">${t("lite.fullVersion")}</a></p>`;
+      } else {
+        // Same matching as the table view's search box
+        const q = (request.nextUrl.searchParams.get("q") || "").trim().toLowerCase();
+        const rows = table.rows.filter((row) => !q || row.some((cell) => cell.toLowerCase().includes(q)));
+        const { items, page, pages } = paginate(request, rows);
+        const tabStatus = getTabStatus(entry);
+
+        content = html`${tabStatus.error ? html`<p class="warn">${tabStatus.age !== null
+          ? t("status.tabFailedMinutes", { n: Math.max(1, Math.round(tabStatus.age / 60)) })
+          : t("status.tabFailedEarlier")}</p>` : ""}
+${searchForm(request, locale, "table.search")}
+${rows.length === 0
+  ? html`<p>${q ? t("table.noMatch") : t("lite.empty")}</p>`
+  : html`<ul>${items.map((row) => html`<li>${row.map((cell, i) =>
+      cell ? html`<span class="k">${table.columns[i] || ""}</span> ${cell}<br>` : ""
+    )}</li>`)}</ul>`}
+<p class="note">${t("table.count", { shown: rows.length, total: table.rows.length })}</p>
+${pageLinks(request, locale, page, pages)}`;
+      }
+    }
+
+    return litePage(request, locale, {
+      title,
+      refresh: REFRESH_SECONDS,
+      cacheControl: "private, max-age=60",
+      body: html`${header}
+${tabs}
+${stale ? html`<p class="note">${t("status.stale")}</p>` : ""}
+${content}
+<p class="note">${t("lite.updated", { time: formatTime(locale, timestamp, "short"), minutes: REFRESH_SECONDS / 60 })}</p>`,
+    });
+  } catch (error) {
+    console.error("[LITE] Error:", error);
+    const message = error instanceof Error ? error.message : "Failed to fetch spreadsheet data";
+    return litePage(request, locale, {
+      title,
+      status: 500,
+      refresh: 60,
+      body: html`${header}<p class="err">${t("lite.loadFailed", { error: message })}</p>`,
+    });
+  }
+}
@@ -0,0 +1,118 @@
+import { NextRequest } from "next/server";
+import { formatTime, translator } from "@/lib/i18n";
+import { getIncident, IncidentParams } from "@/lib/incidents";
+import { ParsedLocation } from "@/lib/location";
+import { choiceLinks, hrefWith, html, litePage, liteLocale, pageLinks, paginate, searchForm } from "@/lib/lite";
+import { getSOSCache, getSOSConfigError, getColumnMappingError, groupIntoCases, processSheetData } from "@/lib/sos";
+import { ALL_STATUSES, filterCases } from "@/lib/sosFilters";
+import { getTabStatus } from "@/lib/tabCache";
+import { withTriage } from "@/lib/triage";
+
+export const dynamic = "force-dynamic";
+
+const REFRESH_SECONDS = 2 * 60;
+
+// SOS list without JavaScript: /lite/<slug>/sos?id=<tab>&status=<status>&q=<search>&page=<n>.
+// Volunteers only, like /<slug>/sos (see proxy.ts).
+export async function GET(request: NextRequest, { params }: IncidentParams) {
+  const locale = liteLocale(request);
+  const t = translator(locale);
+
+  const incident = getIncident((await params).incident);
+  if (!incident) {
+    return litePage(request, locale, { title: t("lite.notFound"), status: 404, body: html`<p>${t("lite.notFound")}</p>` });
+  }
+
+  const title = `${t("sos.title")} · ${incident.title}`;
+  const header = html`<h1>${title}</h1>
+<p class="choices">
+${incident.sheetId ? html`<a href="/lite/${incident.slug}">${t("index.sheet")}</a>` : ""}
+<a href="/${incident.slug}/sos">${t("lite.fullVersion")}</a>
+</p>`;
+
+  if (getSOSConfigError(incident)) {
+    return litePage(request, locale, { title, body: html`${header}<p>${t("lite.noSOS")}</p>` });
+  }
+
+  const { searchParams } = request.nextUrl;
+
+  try {
+    const { data: cache, timestamp, stale } = await getSOSCache(incident).get();
+    const requestedId = parseInt(searchParams.get("id") || "");
+    const id = isNaN(requestedId) ? cache.tabs[0]?.id ?? 0 : requestedId;
+    const tab = cache.tabs.find((candidate) => candidate.id === id);
+    const entry = cache.sheets.get(id);
+
+    const tabs = choiceLinks(cache.tabs.map((option) => ({
+      href: hrefWith(request, { id: String(option.id), status: null, q: null, page: null }),
+      label: option.name,
+      current: option.id === id,
+    })));
+
+    let content;
+    const mappingError = tab && entry?.value ? getColumnMappingError(entry.value, incident, tab.name) : null;
+    if (!tab || !entry?.value) {
+      content = html`<p class="err">${t("lite.loadFailed", { error: entry?.error || String(id) })}</p>`;
+    } else if (mappingError) {
+      content = html`<p class="err">${t("lite.loadFailed", { error: mappingError })}</p>`;
+    } else {
+      const cases = await withTriage(incident, id, groupIntoCases(processSheetData(entry.value, incident, tab.name)));
+      const status = searchParams.get("status") || ALL_STATUSES;
+      const q = searchParams.get("q") || "";
+      const statuses = [...new Set(cases.map((item) => item.status))].filter(Boolean).sort();
+      const filtered = filterCases(cases, { status, query: q });
+      const { items, page, pages } = paginate(request, filtered);
+      const tabStatus = getTabStatus(entry);
+
+      const location = (item: Pick<ParsedLocation, "block" | "floor" | "unit">) => [
+        item.block && t("location.block", { block: item.block }),
+        item.floor && t("location.floor", { floor: item.floor }),
+        item.unit && t("location.unit", { unit: item.unit }),
+      ].filter(Boolean).join(" ");
+
+      content = html`${tabStatus.error ? html`<p class="warn">${tabStatus.age !== null
+        ? t("status.tabFailedMinutes", { n: Math.max(1, Math.round(tabStatus.age / 60)) })
+        : t("status.tabFailedEarlier")}</p>` : ""}
+${choiceLinks([ALL_STATUSES, ...statuses].map((option) => ({
+  href: hrefWith(request, { status: option === ALL_STATUSES ? null : option, page: null }),
+  label: option === ALL_STATUSES ? t("sos.allStatuses") : option,
+  current: option === status,
+})))}
+${searchForm(request, locale, "sos.searchPlaceholder")}
+${filtered.length === 0
+  ? html`<p>${q ? t("sos.noMatch") : status === ALL_STATUSES ? t("sos.noCases") : t("sos.noneInFilter")}</p>`
+  : html`<ul>${items.map((item) => html`<li>
+<b>${item.location}</b>${item.locationConfidence !== "none" ? html` · ${location(item)}` : ""}<br>
+${item.resolved ? html`<span class="ok">${item.status} · ${t("sos.resolved")}</span>` : html`<b>${item.status}</b>`}
+· ${item.timestampISO ? item.timestamp : html`${t("sos.unknownTime")}${item.timestamp ? t("sos.rawTime", { time: item.timestamp }) : ""}`}
+${item.history.length > 1 ? html` · ${t("lite.history", { n: item.history.length })}` : ""}
+${item.details ? html`<br>${item.details}` : ""}
+${Object.entries(item.extra).map(([label, value]) => html`<br><span class="k">${label}</span> ${value}`)}
+${item.triage ? html`<br><span class="note">${t(item.triage.state ? `triage.${item.triage.state}` : "triage.none")}${
+  item.triage.assignee ? ` · ${t("triage.assignee", { name: item.triage.assignee })}` : ""
+}${item.triage.note ? ` · ${item.triage.note}` : ""}</span>` : ""}
+</li>`)}</ul>`}
+<p class="note">${t("sos.count", { n: filtered.length })}</p>
+${pageLinks(request, locale, page, pages)}`;
+    }
+
+    return litePage(request, locale, {
+      title,
+      refresh: REFRESH_SECONDS,
+      body: html`${header}
+${tabs}
+${stale ? html`<p class="note">${t("status.stale")}</p>` : ""}
+${content}
+<p class="note">${t("lite.updated", { time: formatTime(locale, timestamp, "short"), minutes: REFRESH_SECONDS / 60 })}</p>`,
+    });
+  } catch (error) {
+    console.error("[LITE] Error:", error);
+    const message = error instanceof Error ? error.message : "Failed to fetch SOS data";
+    return litePage(request, locale, {
+      title,
+      status: 500,
+      refresh: 60,
+      body: html`${header}<p class="err">${t("lite.loadFailed", { error: message })}</p>`,
+    });
+  }
+}
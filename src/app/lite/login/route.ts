@@ -0,0 +1,81 @@
+import { NextRequest, NextResponse } from "next/server";
+import { translator } from "@/lib/i18n";
+import { getDefaultIncident } from "@/lib/incidents";
+import { html, litePage, liteLocale } from "@/lib/lite";
+import { clientAddress } from "@/lib/clientAddress";
+import { clearLoginFailures, loginRetryAfter, recordLoginFailure } from "@/lib/loginLimits";
+import { authenticate } from "@/lib/users";
+import { createSessionToken, getAuthConfigError, SESSION_COOKIE, sessionCookieOptions, sessionTtl } from "@/lib/session";
+
+export const dynamic = "force-dynamic";
+
+// Only back into the lite pages, never off-site
+function safeNext(next: unknown): string {
+  if (typeof next === "string" && next.startsWith("/lite/") && !next.startsWith("//")) return next;
+  return `/lite/${getDefaultIncident().slug}/sos`;
+}
+
+function loginPage(request: NextRequest, next: string, username: string, error: string | null, status = 200) {
+  const locale = liteLocale(request);
+  const t = translator(locale);
+  return litePage(request, locale, {
+    title: t("lite.login.title"),
+    status,
+    body: html`<h1>${t("lite.login.title")}</h1>
+<p class="note">${t("lite.login.hint")}</p>
+${error ? html`<p class="err">${error}</p>` : ""}
+<form method="post" action="/lite/login">
+<input type="hidden" name="next" value="${next}">
+<p><label>${t("lite.login.username")}<br><input name="username" autocomplete="username" value="${username}"></label></p>
+<p><label>${t("lite.login.password")}<br><input type="password" name="password" autocomplete="current-password" required></label></p>
+<p><button type="submit">${t("lite.login.submit")}</button></p>
+</form>`,
+  });
+}
+
+// Login form for the lite SOS list, posted without JavaScript
+export async function GET(request: NextRequest) {
+  return loginPage(request, safeNext(request.nextUrl.searchParams.get("next")), "", null);
+}
+
+// Same accounts and passcode as /api/auth/login, answered with a redirect
+export async function POST(request: NextRequest) {
+  const configError = getAuthConfigError();
+  if (configError) {
+    return new NextResponse(configError, { status: 500 });
+  }
+
+  try {
+    const form = await request.formData().catch(() => new FormData());
+    const username = String(form.get("username") || "").trim();
+    const password = String(form.get("password") || "");
+    const next = safeNext(form.get("next"));
+
+    const t = translator(liteLocale(request));
+    const address = clientAddress(request);
+    const wait = Math.ceil(loginRetryAfter(address, username) / 1000);
+    if (wait > 0) {
+      console.warn(`[AUTH] Too many failed logins${username ? ` for ${username}` : " with passcode"}, next try in ${wait}s`);
+      return loginPage(request, next, username, t("lite.login.tooMany", { n: wait }), 429);
+    }
+
+    const account = await authenticate(username, password);
+    if (!account) {
+      recordLoginFailure(address, username);
+      console.warn(`[AUTH] Failed login${username ? ` for ${username}` : " with passcode"}`);
+      return loginPage(request, next, username, username ? t("lite.login.badAccount") : t("lite.login.badPasscode"), 401);
+    }
+    clearLoginFailures(address);
+
+    const { token } = createSessionToken(account.user, account.role);
+    console.log(`[AUTH] ${account.user} logged in as ${account.role}`);
+
+    const response = NextResponse.redirect(new URL(next, request.url), 303);
+    response.cookies.set(SESSION_COOKIE, token, sessionCookieOptions(sessionTtl()));
+    return response;
+  } catch (error) {
+    console.error("[AUTH] Login error:", error);
+    const message = error instanceof Error ? error.message : "Login failed";
+    return new NextResponse(message, { status: 500 });
+  }
+}
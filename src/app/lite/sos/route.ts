@@ -0,0 +1,9 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getDefaultIncident } from "@/lib/incidents";
+
+export const dynamic = "force-dynamic";
+
+// Short link to the default incident's lite SOS list
+export async function GET(request: NextRequest) {
+  return NextResponse.redirect(new URL(`/lite/${getDefaultIncident().slug}/sos${request.nextUrl.search}`, request.url));
+}
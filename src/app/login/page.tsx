@@ -0,0 +1,112 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+
+type LoginMode = "passcode" | "account";
+
+// Only follow same-site paths after login
+function safeNext(next: string | null): string {
+  return next && next.startsWith("/") && !next.startsWith("//") ? next : "/sos";
+}
+
+export default function LoginPage() {
+  const [mode, setMode] = useState<LoginMode>("passcode");
+  const [username, setUsername] = useState("");
+  const [password, setPassword] = useState("");
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [expired] = useState(() =>
+    typeof window !== "undefined" && new URLSearchParams(window.location.search).has("expired")
+  );
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSubmitting(true);
+    setError(null);
+
+    try {
+      const res = await fetch("/api/auth/login", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ username: mode === "account" ? username : "", password }),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || "登入失敗");
+
+      window.location.href = safeNext(new URLSearchParams(window.location.search).get("next"));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "登入失敗");
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <main className="min-h-screen bg-slate-50 flex items-center justify-center p-4">
+      <div className="w-full max-w-sm bg-white rounded-xl shadow-md border border-gray-100 p-6">
+        <h1 className="text-2xl font-bold text-gray-900 mb-1">義工登入</h1>
+        <p className="text-sm text-gray-500 mb-6">失聯/求救名單只供已登記義工查看</p>
+
+        {expired && (
+          <div className="bg-yellow-50 border-l-4 border-yellow-400 text-yellow-800 p-3 rounded mb-4 text-sm">
+            登入已過期，請重新登入
+          </div>
+        )}
+
+        <div className="flex gap-2 mb-6">
+          {(["passcode", "account"] as const).map((m) => (
+            <button
+              key={m}
+              type="button"
+              onClick={() => setMode(m)}
+              className={`flex-1 px-3 py-2 text-sm font-medium rounded-lg transition-colors ${
+                mode === m ? "bg-gray-900 text-white" : "bg-gray-100 text-gray-600 hover:bg-gray-200"
+              }`}
+            >
+              {m === "passcode" ? "通行碼" : "個人帳戶"}
+            </button>
+          ))}
+        </div>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          {mode === "account" && (
+            <input
+              type="text"
+              autoComplete="username"
+              className="block w-full px-3 py-2.5 border border-gray-200 rounded-lg bg-gray-50 focus:outline-none focus:bg-white focus:ring-2 focus:ring-red-500/20 focus:border-red-500 sm:text-sm text-gray-900"
+              placeholder="用戶名稱"
+              value={username}
+              onChange={(e) => setUsername(e.target.value)}
+              required
+            />
+          )}
+          <input
+            type="password"
+            autoComplete={mode === "account" ? "current-password" : "off"}
+            className="block w-full px-3 py-2.5 border border-gray-200 rounded-lg bg-gray-50 focus:outline-none focus:bg-white focus:ring-2 focus:ring-red-500/20 focus:border-red-500 sm:text-sm text-gray-900"
+            placeholder={mode === "account" ? "密碼" : "通行碼"}
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            required
+          />
+
+          {error && <div className="text-sm text-red-600">{error}</div>}
+
+          <button
+            type="submit"
+            disabled={submitting || !password}
+            className="w-full px-5 py-2.5 text-sm font-medium rounded-lg bg-red-700 text-white hover:bg-red-800 disabled:opacity-50 transition-colors"
+          >
+            {submitting ? "登入中..." : "登入"}
+          </button>
+        </form>
+
+        <div className="mt-6 text-center">
+          <Link href="/" className="text-xs text-gray-500 hover:text-gray-800 underline">
+            返回主頁
+          </Link>
+        </div>
+      </div>
+    </main>
+  );
+}
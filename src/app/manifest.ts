@@ -0,0 +1,14 @@
+import type { MetadataRoute } from "next";
+
+export default function manifest(): MetadataRoute.Manifest {
+  return {
+    name: "報平安【齋睇】",
+    short_name: "報平安",
+    description: "火警及災害報平安試算表 - 只供查閱，如需報平安請用原始試算表",
+    start_url: "/",
+    display: "standalone",
+    background_color: "#f8fafc",
+    theme_color: "#1d4ed8",
+    icons: [{ src: "/icon.svg", sizes: "any", type: "image/svg+xml", purpose: "any" }],
+  };
+}
@@ -0,0 +1,77 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+
+interface PushSubscriptionInfo {
+  id: string;
+  label: string;
+}
+
+// Target of the unsubscribe link in every notification: /push/unsubscribe?id=<id>.
+// Asks before removing, so link previews and prefetching can't unsubscribe anyone.
+export default function UnsubscribePage() {
+  const [id] = useState(() =>
+    typeof window === "undefined" ? "" : new URLSearchParams(window.location.search).get("id") || ""
+  );
+  const [subscription, setSubscription] = useState<PushSubscriptionInfo | null | undefined>(undefined);
+  const [done, setDone] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!id) {
+      setSubscription(null);
+      return;
+    }
+    fetch(`/api/push?ids=${encodeURIComponent(id)}`)
+      .then((res) => res.json())
+      .then((data) => setSubscription(data.subscriptions?.[0] ?? null))
+      .catch(() => setError("無法載入通知訂閱"));
+  }, [id]);
+
+  const handleUnsubscribe = async () => {
+    setError(null);
+    try {
+      const res = await fetch(`/api/push?id=${encodeURIComponent(id)}`, { method: "DELETE" });
+      if (!res.ok && res.status !== 404) {
+        const data = await res.json();
+        throw new Error(data.error || "取消失敗");
+      }
+      setDone(true);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "取消失敗");
+    }
+  };
+
+  return (
+    <main className="min-h-screen bg-slate-50 flex items-center justify-center p-4">
+      <div className="bg-white rounded-xl shadow-md border border-gray-100 p-6 w-full max-w-sm text-center">
+        <h1 className="text-xl font-bold text-gray-900 mb-4">取消通知</h1>
+
+        {done ? (
+          <p className="text-sm text-gray-600">已取消{subscription ? ` ${subscription.label} 的` : ""}通知。</p>
+        ) : subscription === undefined ? (
+          <p className="text-sm text-gray-500">載入中...</p>
+        ) : subscription === null ? (
+          <p className="text-sm text-gray-600">找不到此通知訂閱，可能已經取消或過期。</p>
+        ) : (
+          <>
+            <p className="text-sm text-gray-600 mb-4">不再接收 {subscription.label} 的更新通知？</p>
+            <button
+              onClick={handleUnsubscribe}
+              className="w-full px-4 py-2.5 text-sm font-medium rounded-lg bg-gray-900 text-white hover:bg-gray-700"
+            >
+              取消通知
+            </button>
+          </>
+        )}
+
+        {error && <p className="mt-3 text-sm text-red-700">{error}</p>}
+
+        <Link href="/" className="inline-block mt-6 text-sm text-gray-500 hover:text-gray-800 underline">
+          返回主頁
+        </Link>
+      </div>
+    </main>
+  );
+}
@@ -0,0 +1,9 @@
+import { redirect } from "next/navigation";
+import { defaultIncidentPath } from "@/lib/incidents";
+
+export const dynamic = "force-dynamic";
+
+// Pre-registry path; leads to the same page of the default incident
+export default async function LegacyStatsPage({ searchParams }: { searchParams: Promise<Record<string, string | string[] | undefined>> }) {
+  redirect(defaultIncidentPath("/stats", await searchParams));
+}
@@ -0,0 +1,60 @@
+"use client";
+
+import { useLocale } from "@/components/LocaleContext";
+
+export interface BarChartPoint {
+  label: string;
+  value: number;
+}
+
+interface BarChartProps {
+  data: BarChartPoint[];
+  height?: number;
+  color?: string; // Tailwind fill class
+  labelEvery?: number; // show every nth x-axis label when there are many bars
+}
+
+// Plain SVG bar chart, so the dashboard needs no chart library or CDN
+export default function BarChart({ data, height = 180, color = "fill-red-500", labelEvery = 1 }: BarChartProps) {
+  const { t } = useLocale();
+
+  if (data.length === 0) {
+    return <div className="text-sm text-gray-500 py-8 text-center">{t("chart.empty")}</div>;
+  }
+
+  const max = Math.max(1, ...data.map(d => d.value));
+  const barWidth = 24;
+  const gap = 6;
+  const chartTop = 16;
+  const chartHeight = height - chartTop - 28;
+  const width = data.length * (barWidth + gap);
+
+  return (
+    <div className="w-full overflow-x-auto">
+      <svg width={width} height={height} role="img" className="block">
+        {data.map((d, i) => {
+          const barHeight = (d.value / max) * chartHeight;
+          const x = i * (barWidth + gap);
+          const y = chartTop + chartHeight - barHeight;
+          return (
+            <g key={i}>
+              <title>{`${d.label}: ${d.value}`}</title>
+              <rect x={x} y={y} width={barWidth} height={barHeight} rx={3} className={color} />
+              {d.value > 0 && (
+                <text x={x + barWidth / 2} y={y - 3} textAnchor="middle" className="fill-gray-600 text-[10px]">
+                  {d.value}
+                </text>
+              )}
+              {i % labelEvery === 0 && (
+                <text x={x + barWidth / 2} y={height - 10} textAnchor="middle" className="fill-gray-500 text-[10px]">
+                  {d.label}
+                </text>
+              )}
+            </g>
+          );
+        })}
+        <line x1={0} x2={width} y1={chartTop + chartHeight} y2={chartTop + chartHeight} className="stroke-gray-200" />
+      </svg>
+    </div>
+  );
+}
@@ -0,0 +1,137 @@
+"use client";
+
+import { useState } from "react";
+import { useIncident } from "@/components/IncidentContext";
+import { useLocale } from "@/components/LocaleContext";
+
+interface SearchResult {
+  sheet: "sheets" | "sos";
+  tabName: string;
+  tab: string;
+  row: string;
+  field: string;
+  text: string;
+  summary: string;
+  url: string;
+}
+
+interface SearchResponse {
+  results: SearchResult[];
+  errors: string[];
+  error?: string;
+}
+
+// Search box covering every tab of both the incident's public sheet and its SOS list
+export default function GlobalSearch() {
+  const incident = useIncident();
+  const { t } = useLocale();
+  const [query, setQuery] = useState("");
+  const [response, setResponse] = useState<SearchResponse | null>(null);
+  const [searching, setSearching] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!query.trim()) return;
+
+    setSearching(true);
+    setError(null);
+
+    try {
+      const res = await fetch(`/api/${incident.slug}/search?q=${encodeURIComponent(query.trim())}`);
+      const data: SearchResponse = await res.json();
+      if (!res.ok) throw new Error(data.error || t("search.failed"));
+      setResponse(data);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t("search.failed"));
+      setResponse(null);
+    } finally {
+      setSearching(false);
+    }
+  };
+
+  const handleClear = () => {
+    setQuery("");
+    setResponse(null);
+    setError(null);
+  };
+
+  return (
+    <div className="bg-white rounded-xl shadow-md border border-gray-100 p-4 md:p-6 mb-8">
+      <form onSubmit={handleSubmit} className="flex gap-2">
+        <div className="relative flex-1">
+          <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
+            <svg className="h-5 w-5 text-gray-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M21 21l-6-6m2-5a7 7 0 11-14 0 7 7 0 0114 0z" />
+            </svg>
+          </div>
+          <input
+            type="search"
+            className="block w-full pl-10 pr-3 py-2.5 border border-gray-200 rounded-lg leading-5 bg-gray-50 placeholder-gray-400 focus:outline-none focus:bg-white focus:ring-2 focus:ring-blue-500/20 focus:border-blue-500 transition-all sm:text-sm text-gray-900"
+            placeholder={t("search.placeholder")}
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+          />
+        </div>
+        <button
+          type="submit"
+          disabled={searching || !query.trim()}
+          className="px-5 py-2.5 text-sm font-medium rounded-lg bg-gray-900 text-white hover:bg-gray-700 disabled:opacity-50 transition-colors"
+        >
+          {searching ? t("search.searching") : t("search.submit")}
+        </button>
+        {response && (
+          <button
+            type="button"
+            onClick={handleClear}
+            className="px-4 py-2.5 text-sm font-medium rounded-lg bg-gray-100 text-gray-600 hover:bg-gray-200 transition-colors"
+          >
+            {t("search.clear")}
+          </button>
+        )}
+      </form>
+
+      {error && <div className="mt-4 text-sm text-red-600">{error}</div>}
+
+      {response && (
+        <div className="mt-4">
+          {response.errors.length > 0 && (
+            <div className="text-xs text-yellow-700 bg-yellow-50 rounded px-3 py-2 mb-3">
+              {t("search.partial", { sources: response.errors.join(t("common.listSeparator")) })}
+            </div>
+          )}
+
+          {response.results.length === 0 ? (
+            <div className="text-sm text-gray-500 py-4 text-center">{t("search.noResults")}</div>
+          ) : (
+            <ul className="divide-y divide-gray-100 max-h-96 overflow-y-auto">
+              {response.results.map((result, i) => (
+                <li key={i}>
+                  <a href={result.url} className="block py-3 px-2 hover:bg-gray-50 rounded">
+                    <div className="flex items-center gap-2 text-xs mb-1">
+                      <span className={`px-2 py-0.5 rounded-full font-medium ${
+                        result.sheet === "sos" ? "bg-red-50 text-red-700" : "bg-blue-50 text-blue-700"
+                      }`}>
+                        {result.sheet === "sos" ? t("search.sos") : t("search.sheet")}
+                      </span>
+                      <span className="text-gray-500">{result.tabName}</span>
+                      {result.sheet === "sheets" && <span className="text-gray-400">{t("search.row", { row: result.row })}</span>}
+                    </div>
+                    <div className="text-sm font-medium text-gray-900 break-words">{result.summary}</div>
+                    {result.field && (
+                      <div className="text-xs text-gray-500 mt-0.5 break-words">
+                        {t("search.field", { field: result.field, text: result.text })}
+                      </div>
+                    )}
+                  </a>
+                </li>
+              ))}
+            </ul>
+          )}
+
+          <div className="text-right text-xs text-gray-400 mt-2">{t("search.count", { n: response.results.length })}</div>
+        </div>
+      )}
+    </div>
+  );
+}
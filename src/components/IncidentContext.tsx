@@ -0,0 +1,17 @@
+"use client";
+
+import { createContext, useContext } from "react";
+import type { IncidentSummary } from "@/lib/incidents";
+
+const IncidentContext = createContext<IncidentSummary | null>(null);
+
+// Set by src/app/[incident]/layout.tsx for every page of one incident
+export function IncidentProvider({ incident, children }: { incident: IncidentSummary; children: React.ReactNode }) {
+  return <IncidentContext.Provider value={incident}>{children}</IncidentContext.Provider>;
+}
+
+export function useIncident(): IncidentSummary {
+  const incident = useContext(IncidentContext);
+  if (!incident) throw new Error("useIncident must be used inside an incident page");
+  return incident;
+}
@@ -0,0 +1,26 @@
+"use client";
+
+import { useLocale } from "@/components/LocaleContext";
+import { LOCALE_NAMES, LOCALES } from "@/lib/i18n";
+
+// Row of language links for page headers; the choice is kept in a cookie
+export default function LanguageSwitcher({ className = "" }: { className?: string }) {
+  const { locale, setLocale, t } = useLocale();
+
+  return (
+    <nav aria-label={t("language.label")} className={`flex gap-3 text-xs md:text-sm ${className}`}>
+      {LOCALES.map((option) => (
+        <button
+          key={option}
+          type="button"
+          lang={option}
+          onClick={() => setLocale(option)}
+          aria-current={option === locale ? "true" : undefined}
+          className={option === locale ? "font-semibold underline underline-offset-4" : "opacity-75 hover:opacity-100"}
+        >
+          {LOCALE_NAMES[option]}
+        </button>
+      ))}
+    </nav>
+  );
+}
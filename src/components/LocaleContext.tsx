@@ -0,0 +1,60 @@
+"use client";
+
+import { createContext, useCallback, useContext, useMemo, useState } from "react";
+import { useRouter } from "next/navigation";
+import {
+  formatDate,
+  formatDateTime,
+  formatDayHour,
+  formatTime,
+  Locale,
+  LOCALE_COOKIE,
+  Translate,
+  translator,
+} from "@/lib/i18n";
+
+interface LocaleContextValue {
+  locale: Locale;
+  t: Translate;
+  formatTime: (time: Date | number, style?: "short" | "medium") => string;
+  formatDateTime: (time: Date | number) => string;
+  formatDate: (time: Date | number) => string;
+  formatDayHour: (time: Date | number) => string;
+  setLocale: (locale: Locale) => void;
+}
+
+const LocaleContext = createContext<LocaleContextValue | null>(null);
+
+const LOCALE_COOKIE_MAX_AGE = 365 * 24 * 60 * 60;
+
+// Set by src/app/layout.tsx with the language the server picked for this request
+export function LocaleProvider({ locale: initialLocale, children }: { locale: Locale; children: React.ReactNode }) {
+  const [locale, setLocaleState] = useState(initialLocale);
+  const router = useRouter();
+
+  const setLocale = useCallback((next: Locale) => {
+    document.cookie = `${LOCALE_COOKIE}=${next}; path=/; max-age=${LOCALE_COOKIE_MAX_AGE}; samesite=lax`;
+    document.documentElement.lang = next;
+    setLocaleState(next);
+    // Server-rendered parts (page titles, the incident index) follow the cookie
+    router.refresh();
+  }, [router]);
+
+  const value = useMemo<LocaleContextValue>(() => ({
+    locale,
+    t: translator(locale),
+    formatTime: (time, style) => formatTime(locale, time, style),
+    formatDateTime: (time) => formatDateTime(locale, time),
+    formatDate: (time) => formatDate(locale, time),
+    formatDayHour: (time) => formatDayHour(locale, time),
+    setLocale,
+  }), [locale, setLocale]);
+
+  return <LocaleContext.Provider value={value}>{children}</LocaleContext.Provider>;
+}
+
+export function useLocale(): LocaleContextValue {
+  const value = useContext(LocaleContext);
+  if (!value) throw new Error("useLocale must be used inside LocaleProvider");
+  return value;
+}
@@ -0,0 +1,21 @@
+"use client";
+
+import { useLocale } from "@/components/LocaleContext";
+
+interface OfflineBannerProps {
+  cachedAt: number; // when the data on screen was stored on the device
+}
+
+// Shown while a page is working from the service worker's offline copy
+export default function OfflineBanner({ cachedAt }: OfflineBannerProps) {
+  const { t, formatTime } = useLocale();
+
+  return (
+    <div className="bg-gray-800 text-white px-4 py-2.5 rounded-lg shadow-sm mb-6 text-sm flex items-center gap-2">
+      <svg className="w-4 h-4 flex-shrink-0" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M18.364 5.636a9 9 0 010 12.728M5.636 18.364a9 9 0 010-12.728M3 3l18 18" />
+      </svg>
+      <span>{t("offline.banner", { time: formatTime(cachedAt, "short") })}</span>
+    </div>
+  );
+}
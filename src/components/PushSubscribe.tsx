@@ -0,0 +1,201 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { useIncident } from "@/components/IncidentContext";
+import { useLocale } from "@/components/LocaleContext";
+
+interface PushSubscriptionInfo {
+  id: string;
+  incident: string;
+  kind: "sos" | "sheet";
+  label: string;
+  expiresAt: number;
+}
+
+interface PushSettings {
+  publicKey: string | null;
+  closed: boolean;
+  subscriptions: PushSubscriptionInfo[];
+  error?: string;
+}
+
+// Subscription ids held by this browser; each is also its unsubscribe token
+const STORAGE_KEY = "push:subscriptions";
+
+const storedIds = (): string[] => {
+  try {
+    return JSON.parse(localStorage.getItem(STORAGE_KEY) || "[]");
+  } catch {
+    return [];
+  }
+};
+
+const storeIds = (ids: string[]) => localStorage.setItem(STORAGE_KEY, JSON.stringify(ids));
+
+function decodeKey(base64url: string): Uint8Array<ArrayBuffer> {
+  const base64 = base64url.replace(/-/g, "+").replace(/_/g, "/");
+  const binary = atob(base64 + "=".repeat((4 - (base64.length % 4)) % 4));
+  return Uint8Array.from(binary, (c) => c.charCodeAt(0));
+}
+
+// Web Push sign-up for one incident: a block / floor / unit of its SOS list
+// (kind "sos"), or a name or keyword on its public sheet (kind "sheet").
+// `prefill` fills in the box and scrolls to it, e.g. from a case card;
+// `onAvailable` tells the page whether the box is shown at all.
+export default function PushSubscribe({
+  kind,
+  prefill,
+  onAvailable,
+}: {
+  kind: "sos" | "sheet";
+  prefill?: { text: string } | null;
+  onAvailable?: (available: boolean) => void;
+}) {
+  const [settings, setSettings] = useState<PushSettings | null>(null);
+  const [supported, setSupported] = useState(true);
+  const [value, setValue] = useState("");
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const incident = useIncident().slug;
+  const { t, formatDate } = useLocale();
+
+  useEffect(() => {
+    setSupported("serviceWorker" in navigator && "PushManager" in window && "Notification" in window);
+
+    const ids = storedIds();
+    fetch(`/api/push?incident=${encodeURIComponent(incident)}&ids=${ids.join(",")}`)
+      .then((res) => res.json())
+      .then((data: PushSettings) => {
+        if (data.error) throw new Error(data.error);
+        setSettings(data);
+        onAvailable?.(!!data.publicKey && !data.closed);
+        // Forget subscriptions that expired or were removed by an unsubscribe link
+        storeIds(data.subscriptions.map((s) => s.id));
+      })
+      .catch(() => setSettings(null));
+  }, [incident, onAvailable]);
+
+  useEffect(() => {
+    if (!prefill) return;
+    setValue(prefill.text);
+    containerRef.current?.scrollIntoView({ behavior: "smooth", block: "center" });
+  }, [prefill]);
+
+  // Nothing to offer when push isn't configured or the incident is over
+  if (!settings?.publicKey || settings.closed) return null;
+
+  const mine = settings.subscriptions.filter((s) => s.incident === incident && s.kind === kind);
+
+  const handleSubscribe = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!value.trim()) return;
+
+    setBusy(true);
+    setError(null);
+    setMessage(null);
+
+    try {
+      const registration = await navigator.serviceWorker.getRegistration();
+      if (!registration) throw new Error(t("push.notReady"));
+
+      if ((await Notification.requestPermission()) !== "granted") {
+        throw new Error(t("push.denied"));
+      }
+
+      const subscription =
+        (await registration.pushManager.getSubscription()) ||
+        (await registration.pushManager.subscribe({
+          userVisibleOnly: true,
+          applicationServerKey: decodeKey(settings.publicKey!),
+        }));
+
+      const res = await fetch("/api/push", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          subscription: subscription.toJSON(),
+          incident,
+          topic: kind === "sos" ? { kind, location: value } : { kind, keyword: value },
+        }),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || t("push.failed"));
+
+      const added: PushSubscriptionInfo = data.subscription;
+      storeIds([...storedIds().filter((id) => id !== added.id), added.id]);
+      setSettings((prev) => prev && {
+        ...prev,
+        subscriptions: [...prev.subscriptions.filter((s) => s.id !== added.id), added],
+      });
+      setMessage(t("push.subscribed", { label: added.label }));
+      setValue("");
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t("push.failed"));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleUnsubscribe = async (id: string) => {
+    setError(null);
+    setMessage(null);
+    const res = await fetch(`/api/push?id=${encodeURIComponent(id)}`, { method: "DELETE" }).catch(() => null);
+    if (res && !res.ok && res.status !== 404) {
+      setError(t("push.unsubscribeFailed"));
+      return;
+    }
+    storeIds(storedIds().filter((stored) => stored !== id));
+    setSettings((prev) => prev && { ...prev, subscriptions: prev.subscriptions.filter((s) => s.id !== id) });
+  };
+
+  return (
+    <div ref={containerRef} className="bg-white rounded-xl shadow-md border border-gray-100 p-4 md:p-6 mb-8">
+      <h2 className="text-base font-semibold text-gray-900 mb-1">{t(`push.${kind}.title`)}</h2>
+      <p className="text-xs text-gray-500 mb-3">
+        {t(`push.${kind}.hint`)} {t("push.footer")}
+      </p>
+
+      {supported ? (
+        <form onSubmit={handleSubscribe} className="flex gap-2">
+          <input
+            type="text"
+            value={value}
+            onChange={(e) => setValue(e.target.value)}
+            placeholder={t(`push.${kind}.placeholder`)}
+            className="flex-1 min-w-0 px-3 py-2 border border-gray-200 rounded-lg bg-gray-50 text-sm text-gray-900 focus:outline-none focus:bg-white focus:ring-2 focus:ring-blue-500/20 focus:border-blue-500"
+          />
+          <button
+            type="submit"
+            disabled={busy || !value.trim()}
+            className="px-4 py-2 text-sm font-medium rounded-lg bg-gray-900 text-white hover:bg-gray-700 disabled:opacity-50 whitespace-nowrap"
+          >
+            {busy ? t("push.subscribing") : t("push.subscribe")}
+          </button>
+        </form>
+      ) : (
+        <p className="text-sm text-gray-500">{t("push.unsupported")}</p>
+      )}
+
+      {error && <p className="mt-2 text-sm text-red-700">{error}</p>}
+      {message && <p className="mt-2 text-sm text-green-700">{message}</p>}
+
+      {mine.length > 0 && (
+        <ul className="mt-3 divide-y divide-gray-100 text-sm">
+          {mine.map((sub) => (
+            <li key={sub.id} className="flex items-center justify-between gap-2 py-2">
+              <span className="text-gray-800">
+                {sub.label}
+                <span className="ml-2 text-xs text-gray-400">{t("push.until", { date: formatDate(sub.expiresAt) })}</span>
+              </span>
+              <button onClick={() => handleUnsubscribe(sub.id)} className="text-xs text-gray-500 hover:text-red-700 underline">
+                {t("push.unsubscribe")}
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,17 @@
+"use client";
+
+import { useEffect } from "react";
+
+// Registers public/sw.js, which keeps the last data on the device for offline use.
+// Skipped in development so cached pages don't get in the way of hot reload.
+export default function ServiceWorkerRegistration() {
+  useEffect(() => {
+    if (process.env.NODE_ENV !== "production" || !("serviceWorker" in navigator)) return;
+
+    navigator.serviceWorker.register("/sw.js").catch((err) => {
+      console.error("Service worker registration failed:", err);
+    });
+  }, []);
+
+  return null;
+}
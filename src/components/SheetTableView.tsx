@@ -0,0 +1,129 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import { useLocale } from "@/components/LocaleContext";
+
+interface SheetTableViewProps {
+  columns: string[];
+  rows: string[][];
+  rowNumbers: number[];
+  highlightRow?: number | null; // sheet row number to scroll to, e.g. from a search result
+}
+
+type SortDirection = "asc" | "desc";
+
+// Responsive table for a parsed public sheet tab, with sticky headers,
+// click-to-sort columns and in-page search
+export default function SheetTableView({ columns, rows, rowNumbers, highlightRow }: SheetTableViewProps) {
+  const { t } = useLocale();
+  const [query, setQuery] = useState("");
+  const [sortColumn, setSortColumn] = useState<number | null>(null);
+  const [sortDirection, setSortDirection] = useState<SortDirection>("asc");
+
+  const visibleRows = useMemo(() => {
+    const q = query.trim().toLowerCase();
+    const indexed = rows
+      .map((row, i) => ({ row, rowNumber: rowNumbers[i] }))
+      .filter(({ row }) => !q || row.some(cell => cell.toLowerCase().includes(q)));
+
+    if (sortColumn === null) return indexed;
+
+    const sorted = [...indexed].sort((a, b) =>
+      (a.row[sortColumn] || "").localeCompare(b.row[sortColumn] || "", "zh-Hant", { numeric: true })
+    );
+    return sortDirection === "asc" ? sorted : sorted.reverse();
+  }, [rows, rowNumbers, query, sortColumn, sortDirection]);
+
+  useEffect(() => {
+    if (highlightRow == null) return;
+    document.getElementById(`row-${highlightRow}`)?.scrollIntoView({ block: "center" });
+  }, [highlightRow]);
+
+  const handleSort = (index: number) => {
+    if (sortColumn === index) {
+      // asc -> desc -> unsorted
+      if (sortDirection === "asc") {
+        setSortDirection("desc");
+      } else {
+        setSortColumn(null);
+        setSortDirection("asc");
+      }
+    } else {
+      setSortColumn(index);
+      setSortDirection("asc");
+    }
+  };
+
+  return (
+    <div>
+      <div className="relative w-full md:w-96 mb-4">
+        <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
+          <svg className="h-5 w-5 text-gray-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M21 21l-6-6m2-5a7 7 0 11-14 0 7 7 0 0114 0z" />
+          </svg>
+        </div>
+        <input
+          type="text"
+          className="block w-full pl-10 pr-10 py-2.5 border border-gray-200 rounded-lg leading-5 bg-gray-50 placeholder-gray-400 focus:outline-none focus:bg-white focus:ring-2 focus:ring-blue-500/20 focus:border-blue-500 transition-all sm:text-sm text-gray-900"
+          placeholder={t("table.search")}
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+        />
+        {query && (
+          <button
+            onClick={() => setQuery("")}
+            className="absolute inset-y-0 right-0 pr-3 flex items-center text-gray-400 hover:text-gray-600"
+          >
+            <svg className="h-5 w-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        )}
+      </div>
+
+      <div className="w-full overflow-auto rounded-lg border border-gray-200 max-h-[80vh]">
+        <table className="min-w-full text-sm text-left">
+          <thead className="sticky top-0 z-10 bg-gray-100 shadow-sm">
+            <tr>
+              <th className="px-3 py-2 text-xs font-medium text-gray-400 w-12">#</th>
+              {columns.map((column, i) => (
+                <th key={i} className="px-3 py-2 font-semibold text-gray-700 whitespace-nowrap">
+                  <button onClick={() => handleSort(i)} className="flex items-center gap-1 hover:text-gray-900">
+                    {column || "—"}
+                    <span className="text-xs text-gray-400">
+                      {sortColumn === i ? (sortDirection === "asc" ? "▲" : "▼") : "↕"}
+                    </span>
+                  </button>
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-100 bg-white">
+            {visibleRows.map(({ row, rowNumber }) => (
+              <tr
+                key={rowNumber}
+                id={`row-${rowNumber}`}
+                className={rowNumber === highlightRow ? "bg-yellow-100" : "hover:bg-blue-50/50"}
+              >
+                <td className="px-3 py-2 text-xs text-gray-400">{rowNumber}</td>
+                {row.map((cell, i) => (
+                  <td key={i} className="px-3 py-2 text-gray-800 whitespace-pre-line break-words min-w-[6rem] max-w-xs">
+                    {cell}
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+
+        {visibleRows.length === 0 && (
+          <div className="p-8 text-center text-gray-500">{t("table.noMatch")}</div>
+        )}
+      </div>
+
+      <div className="text-right text-xs text-gray-400 mt-2">
+        {t("table.count", { shown: visibleRows.length, total: rows.length })}
+      </div>
+    </div>
+  );
+}
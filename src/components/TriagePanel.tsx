@@ -0,0 +1,148 @@
+"use client";
+
+import { useState } from "react";
+import { useLocale } from "@/components/LocaleContext";
+import { TRIAGE_STATES, TriageState } from "@/lib/sosFilters";
+
+export interface TriageAnnotation {
+  state: TriageState | null;
+  assignee: string;
+  note: string;
+  updatedAt: number;
+  updatedBy: string;
+}
+
+export interface TriageUpdate {
+  state: TriageState | null;
+  assignee: string;
+  note: string;
+}
+
+interface TriagePanelProps {
+  annotation: TriageAnnotation | null;
+  defaultAssignee: string; // prefilled when picking up an untriaged case
+  onSave: (update: TriageUpdate) => Promise<void>;
+}
+
+export const TRIAGE_BADGE_CLASSES: Record<TriageState, string> = {
+  calling: "bg-blue-100 text-blue-800",
+  rescued: "bg-green-100 text-green-800",
+  duplicate: "bg-gray-200 text-gray-700",
+  unreachable: "bg-orange-100 text-orange-800",
+};
+
+// Triage state, assignee and note of one SOS case, with an inline editor
+export default function TriagePanel({ annotation, defaultAssignee, onSave }: TriagePanelProps) {
+  const { t, formatDateTime } = useLocale();
+  const triageLabel = (state: TriageState | null) => t(state ? `triage.${state}` : "triage.none");
+  const [editing, setEditing] = useState(false);
+  const [draft, setDraft] = useState<TriageUpdate>({ state: null, assignee: "", note: "" });
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const startEditing = () => {
+    setDraft({
+      state: annotation?.state ?? null,
+      assignee: annotation?.assignee || defaultAssignee,
+      note: annotation?.note || "",
+    });
+    setError(null);
+    setEditing(true);
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    setError(null);
+    try {
+      await onSave(draft);
+      setEditing(false);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t("common.saveFailed"));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (!editing) {
+    return (
+      <div className="mt-3 rounded-lg border border-dashed border-gray-200 p-3 text-sm">
+        <div className="flex items-center justify-between gap-2">
+          <div className="flex items-center gap-2 min-w-0">
+            <span className={`inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium ${
+              annotation?.state ? TRIAGE_BADGE_CLASSES[annotation.state] : "bg-white text-gray-500 border border-gray-200"
+            }`}>
+              {triageLabel(annotation?.state ?? null)}
+            </span>
+            {annotation?.assignee && (
+              <span className="text-xs text-gray-600 truncate">{t("triage.assignee", { name: annotation.assignee })}</span>
+            )}
+          </div>
+          <button onClick={startEditing} className="text-xs font-medium text-gray-500 hover:text-gray-800 underline whitespace-nowrap">
+            {annotation ? t("triage.update") : t("triage.pickUp")}
+          </button>
+        </div>
+        {annotation?.note && <p className="mt-2 text-gray-700 whitespace-pre-line break-words">{annotation.note}</p>}
+        {annotation && (
+          <div className="mt-1 text-xs text-gray-400">
+            {annotation.updatedBy} · {formatDateTime(annotation.updatedAt)}
+          </div>
+        )}
+      </div>
+    );
+  }
+
+  return (
+    <form onSubmit={handleSave} className="mt-3 rounded-lg border border-gray-200 bg-gray-50 p-3 space-y-2 text-sm">
+      <div className="flex flex-wrap gap-1.5">
+        {[null, ...TRIAGE_STATES.map(s => s.value)].map((value) => (
+          <button
+            key={value ?? "none"}
+            type="button"
+            onClick={() => setDraft(d => ({ ...d, state: value }))}
+            className={`px-2.5 py-1 text-xs font-medium rounded-full border transition-all ${
+              draft.state === value
+                ? "bg-gray-900 text-white border-gray-900"
+                : "bg-white text-gray-600 border-gray-200 hover:border-gray-300"
+            }`}
+          >
+            {triageLabel(value)}
+          </button>
+        ))}
+      </div>
+      <input
+        type="text"
+        maxLength={50}
+        className="block w-full px-2.5 py-1.5 border border-gray-200 rounded-md bg-white text-gray-900 focus:outline-none focus:ring-2 focus:ring-red-500/20 focus:border-red-500"
+        placeholder={t("triage.assigneePlaceholder")}
+        value={draft.assignee}
+        onChange={(e) => setDraft(d => ({ ...d, assignee: e.target.value }))}
+      />
+      <textarea
+        maxLength={1000}
+        rows={2}
+        className="block w-full px-2.5 py-1.5 border border-gray-200 rounded-md bg-white text-gray-900 focus:outline-none focus:ring-2 focus:ring-red-500/20 focus:border-red-500"
+        placeholder={t("triage.notePlaceholder")}
+        value={draft.note}
+        onChange={(e) => setDraft(d => ({ ...d, note: e.target.value }))}
+      />
+      {error && <div className="text-xs text-red-600">{error}</div>}
+      <div className="flex justify-end gap-2">
+        <button
+          type="button"
+          onClick={() => setEditing(false)}
+          className="px-3 py-1.5 text-xs font-medium rounded-md bg-white border border-gray-200 text-gray-600 hover:bg-gray-100"
+        >
+          {t("common.cancel")}
+        </button>
+        <button
+          type="submit"
+          disabled={saving}
+          className="px-3 py-1.5 text-xs font-medium rounded-md bg-gray-900 text-white hover:bg-gray-700 disabled:opacity-50"
+        >
+          {saving ? t("common.saving") : t("common.save")}
+        </button>
+      </div>
+    </form>
+  );
+}
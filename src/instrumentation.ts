@@ -0,0 +1,9 @@
+// Runs once when the server starts
+export async function register() {
+  if (process.env.NEXT_RUNTIME === "nodejs") {
+    const { startWebhooks } = await import("@/lib/webhooks");
+    const { startPush } = await import("@/lib/push");
+    startWebhooks();
+    startPush();
+  }
+}
@@ -0,0 +1,22 @@
+import { afterEach, describe, expect, it } from "vitest";
+import { clientAddress } from "@/lib/clientAddress";
+
+const request = (forwardedFor: string) => new Request("http://localhost/api/push", { headers: { "x-forwarded-for": forwardedFor } });
+
+describe("clientAddress", () => {
+  afterEach(() => {
+    delete process.env.TRUSTED_PROXIES;
+  });
+
+  it("ignores X-Forwarded-For without a trusted proxy", () => {
+    expect(clientAddress(request("203.0.113.7"))).toBeNull();
+  });
+
+  it("takes the address the trusted proxy appended, not one the client sent", () => {
+    process.env.TRUSTED_PROXIES = "1";
+    expect(clientAddress(request("198.51.100.1, 203.0.113.7"))).toBe("203.0.113.7");
+
+    process.env.TRUSTED_PROXIES = "2";
+    expect(clientAddress(request("198.51.100.1, 203.0.113.7, 10.0.0.2"))).toBe("203.0.113.7");
+  });
+});
@@ -0,0 +1,14 @@
+// The visitor's address, for per-address limits. X-Forwarded-For can be
+// written by anyone, so it only counts when TRUSTED_PROXIES says how many
+// reverse proxies in front of us append to it; the client is the entry that
+// many places from the end. Returns null when there is no address to trust.
+export function clientAddress(request: Request): string | null {
+  const hops = Number(process.env.TRUSTED_PROXIES || 0);
+  if (!Number.isInteger(hops) || hops < 1) return null;
+
+  const forwarded = (request.headers.get("x-forwarded-for") || "")
+    .split(",")
+    .map(part => part.trim())
+    .filter(Boolean);
+  return forwarded[forwarded.length - hops] || request.headers.get("x-real-ip") || null;
+}
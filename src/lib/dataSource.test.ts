@@ -0,0 +1,36 @@
+import { describe, expect, it } from "vitest";
+import { getDataSource } from "@/lib/dataSource";
+import { getDefaultIncident } from "@/lib/incidents";
+import { getSheetsCache, getSheetTable } from "@/lib/sheets";
+
+describe("file data source", () => {
+  const source = getDataSource();
+
+  it("reads tabs and rows recorded under DATA_SOURCE_DIR", async () => {
+    expect(source.name).toBe("file");
+    expect(await source.getSheetTabs("demo")).toEqual([
+      { title: "求救個案", sheetId: 0 },
+      { title: "失聯人士", sheetId: 1 },
+    ]);
+
+    const rows = await source.getSheetData("demo", "'求救個案'!A:Z");
+    expect(rows[0].slice(0, 3)).toEqual(["時間戳記", "邊座/樓層/單位", "現時情況"]);
+    expect(rows.length).toBeGreaterThan(1);
+  });
+
+  it("rejects a tab that wasn't recorded", async () => {
+    await expect(source.getSheetData("demo", "'義工跟進'!A:H")).rejects.toThrow('Tab "義工跟進" not found');
+  });
+
+  it("stays inside DATA_SOURCE_DIR", async () => {
+    await expect(source.getSheetTabs("../demo")).resolves.toHaveLength(2);
+    await expect(source.getHtmlViewTab("demo", { gid: "../../demo/tabs.json", pageUrl: "" })).rejects.toThrow();
+  });
+
+  it("serves the htmlview pages the public sheets cache parses", async () => {
+    const { data } = await getSheetsCache(getDefaultIncident()).get();
+
+    expect(data.tabs.map(tab => [tab.name, tab.gid])).toEqual([["報平安", "0"], ["已撤離", "1"]]);
+    expect(getSheetTable(data, "0")?.columns.slice(0, 2)).toEqual(["時間", "姓名"]);
+  });
+});
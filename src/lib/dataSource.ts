@@ -0,0 +1,106 @@
+import { promises as fs } from "fs";
+import path from "path";
+import { getSheetData, getSheetTabs } from "@/lib/google";
+
+export interface SheetTabInfo {
+  title: string;
+  sheetId: number;
+}
+
+export interface HtmlViewTab {
+  gid: string;
+  pageUrl: string;
+}
+
+// Everything the two API routes read from a spreadsheet.
+// Select the backend with DATA_SOURCE=google (default) or DATA_SOURCE=file.
+export interface SheetDataSource {
+  name: "google" | "file";
+  getSheetTabs(spreadsheetId: string): Promise<SheetTabInfo[]>;
+  getSheetData(spreadsheetId: string, range: string): Promise<string[][]>;
+  getHtmlView(spreadsheetId: string): Promise<string>;
+  getHtmlViewTab(spreadsheetId: string, tab: HtmlViewTab): Promise<string>;
+}
+
+// Live data: Sheets API for the SOS sheet, public htmlview pages for the rest
+const googleDataSource: SheetDataSource = {
+  name: "google",
+  getSheetTabs,
+  getSheetData,
+
+  async getHtmlView(spreadsheetId) {
+    const url = `https://docs.google.com/spreadsheets/d/${spreadsheetId}/htmlview`;
+    console.log(`[FETCH] Fetching main htmlview: ${url}`);
+
+    const response = await fetch(url, { cache: 'no-store' });
+    if (!response.ok) {
+      throw new Error(`Failed to fetch main page: ${response.status}`);
+    }
+    return response.text();
+  },
+
+  async getHtmlViewTab(_spreadsheetId, tab) {
+    const response = await fetch(tab.pageUrl, { cache: 'no-store' });
+    if (!response.ok) {
+      throw new Error(`Failed to fetch tab ${tab.gid}: ${response.status}`);
+    }
+    return response.text();
+  },
+};
+
+// Recorded data under DATA_SOURCE_DIR (default ./fixtures), one directory per spreadsheet:
+//   <spreadsheetId>/tabs.json            [{ "title": "...", "sheetId": 0 }, ...]
+//   <spreadsheetId>/rows/<sheetId>.json  string[][] including the header row
+//   <spreadsheetId>/htmlview/index.html  the main htmlview page
+//   <spreadsheetId>/htmlview/<gid>.html  one htmlview page per tab
+function createFileDataSource(baseDir: string): SheetDataSource {
+  const sheetDir = (spreadsheetId: string) => path.join(baseDir, path.basename(spreadsheetId));
+
+  const readJson = async <T>(file: string): Promise<T> =>
+    JSON.parse(await fs.readFile(file, "utf8")) as T;
+
+  const getTabs = (spreadsheetId: string) =>
+    readJson<SheetTabInfo[]>(path.join(sheetDir(spreadsheetId), "tabs.json"));
+
+  return {
+    name: "file",
+    getSheetTabs: getTabs,
+
+    async getSheetData(spreadsheetId, range) {
+      // Range looks like 'Tab name'!A:Z - only the tab name matters here
+      const title = range.split("!")[0].replace(/^'|'$/g, "").replace(/''/g, "'");
+      const tab = (await getTabs(spreadsheetId)).find(t => t.title === title);
+      if (!tab) {
+        throw new Error(`Tab "${title}" not found in recorded data for ${spreadsheetId}`);
+      }
+      return readJson<string[][]>(path.join(sheetDir(spreadsheetId), "rows", `${tab.sheetId}.json`));
+    },
+
+    getHtmlView(spreadsheetId) {
+      return fs.readFile(path.join(sheetDir(spreadsheetId), "htmlview", "index.html"), "utf8");
+    },
+
+    getHtmlViewTab(spreadsheetId, tab) {
+      return fs.readFile(path.join(sheetDir(spreadsheetId), "htmlview", `${path.basename(tab.gid)}.html`), "utf8");
+    },
+  };
+}
+
+let dataSource: SheetDataSource | null = null;
+
+export function getDataSource(): SheetDataSource {
+  if (!dataSource) {
+    const kind = process.env.DATA_SOURCE || "google";
+
+    if (kind === "file") {
+      const dir = path.resolve(process.env.DATA_SOURCE_DIR || "fixtures");
+      console.log(`[Data Source] Reading recorded sheets from ${dir}`);
+      dataSource = createFileDataSource(dir);
+    } else if (kind === "google") {
+      dataSource = googleDataSource;
+    } else {
+      throw new Error(`Unknown DATA_SOURCE "${kind}" (expected "google" or "file")`);
+    }
+  }
+  return dataSource;
+}
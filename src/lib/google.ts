@@ -1,6 +1,9 @@
 import { google } from "googleapis";
 
-const getAuth = () => {
+const READONLY_SCOPE = "https://www.googleapis.com/auth/spreadsheets.readonly";
+const READ_WRITE_SCOPE = "https://www.googleapis.com/auth/spreadsheets";
+
+const getAuth = (scope: string = READONLY_SCOPE) => {
   // Clean up environment variables
   // Remove surrounding quotes if they exist (common mistake when copying from .env)
   const client_email = process.env.GOOGLE_SERVICE_ACCOUNT_EMAIL?.replace(/^["']|["']$/g, "").trim();
@@ -25,7 +28,7 @@ const getAuth = () => {
       client_email,
       private_key,
     },
-    scopes: ["https://www.googleapis.com/auth/spreadsheets.readonly"],
+    scopes: [scope],
   });
 };
 
@@ -64,3 +67,33 @@ export async function getSheetTabs(spreadsheetId: string) {
     throw error;
   }
 }
+
+// Write access is only requested by the optional triage write-back (SHEET_WRITEBACK)
+export async function updateSheetData(spreadsheetId: string, range: string, values: string[][]) {
+  const sheets = google.sheets({ version: "v4", auth: getAuth(READ_WRITE_SCOPE) });
+  await sheets.spreadsheets.values.update({
+    spreadsheetId,
+    range,
+    valueInputOption: "RAW",
+    requestBody: { values },
+  });
+}
+
+export async function appendSheetData(spreadsheetId: string, range: string, values: string[][]) {
+  const sheets = google.sheets({ version: "v4", auth: getAuth(READ_WRITE_SCOPE) });
+  await sheets.spreadsheets.values.append({
+    spreadsheetId,
+    range,
+    valueInputOption: "RAW",
+    insertDataOption: "INSERT_ROWS",
+    requestBody: { values },
+  });
+}
+
+export async function addSheetTab(spreadsheetId: string, title: string) {
+  const sheets = google.sheets({ version: "v4", auth: getAuth(READ_WRITE_SCOPE) });
+  await sheets.spreadsheets.batchUpdate({
+    spreadsheetId,
+    requestBody: { requests: [{ addSheet: { properties: { title } } }] },
+  });
+}
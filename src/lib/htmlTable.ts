@@ -0,0 +1,101 @@
+// Parses the grid out of a Google Sheets htmlview page.
+// The page is a single <table class="waffle">: a <thead> of column letters,
+// then one <tr> per sheet row, each starting with a <th> row number.
+
+export interface SheetTable {
+  columns: string[]; // first non-empty row of the sheet
+  rows: string[][];
+  rowNumbers: number[]; // sheet row number of each entry in `rows`
+}
+
+const ENTITIES: Record<string, string> = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: '"',
+  apos: "'",
+  nbsp: " ",
+};
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, code: string) => {
+    if (code[0] === "#") {
+      const value = code[1] === "x" || code[1] === "X" ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10);
+      return isNaN(value) ? entity : String.fromCodePoint(value);
+    }
+    return ENTITIES[code.toLowerCase()] ?? entity;
+  });
+}
+
+export function cellText(html: string): string {
+  return decodeEntities(
+    html
+      .replace(/<br\s*\/?>/gi, "\n")
+      .replace(/<[^>]+>/g, "")
+  ).trim();
+}
+
+// Returns null when the page has no recognisable table, so callers can fall back to the raw HTML
+export function parseHtmlViewTable(html: string): SheetTable | null {
+  const table = html.match(/<table[^>]*class="[^"]*waffle[^"]*"[^>]*>([\s\S]*?)<\/table>/i);
+  if (!table) return null;
+
+  const grid: string[][] = [];
+  const gridRowNumbers: number[] = [];
+  // Cells covered by a rowspan from an earlier row: row index -> column indexes
+  const covered = new Map<number, Set<number>>();
+
+  for (const rowMatch of table[1].matchAll(/<tr[^>]*>([\s\S]*?)<\/tr>/gi)) {
+    const cells = Array.from(rowMatch[1].matchAll(/<td([^>]*)>([\s\S]*?)<\/td>/gi));
+    // Header row of column letters has no <td>
+    if (cells.length === 0) continue;
+
+    const rowIndex = grid.length;
+    const row: string[] = [];
+    const skip = covered.get(rowIndex) || new Set<number>();
+
+    for (const [, attrs, content] of cells) {
+      while (skip.has(row.length)) row.push("");
+
+      const colspan = parseInt(attrs.match(/colspan="(\d+)"/i)?.[1] || "1");
+      const rowspan = parseInt(attrs.match(/rowspan="(\d+)"/i)?.[1] || "1");
+      const start = row.length;
+
+      row.push(cellText(content));
+      for (let i = 1; i < colspan; i++) row.push("");
+
+      for (let r = 1; r < rowspan; r++) {
+        const set = covered.get(rowIndex + r) || new Set<number>();
+        for (let c = start; c < start + colspan; c++) set.add(c);
+        covered.set(rowIndex + r, set);
+      }
+    }
+
+    const rowHeader = rowMatch[1].match(/<th[^>]*>([\s\S]*?)<\/th>/i);
+    const rowNumber = parseInt(rowHeader ? cellText(rowHeader[1]) : "");
+
+    grid.push(row);
+    gridRowNumbers.push(isNaN(rowNumber) ? rowIndex + 1 : rowNumber);
+  }
+
+  const kept = grid
+    .map((row, i) => ({ row, rowNumber: gridRowNumbers[i] }))
+    .filter(({ row }) => row.some(cell => cell !== ""));
+  if (kept.length === 0) return null;
+
+  const nonEmpty = kept.map(({ row }) => row);
+
+  // Trim trailing columns that are empty in every row
+  const width = Math.max(...nonEmpty.map(row => {
+    let last = row.length;
+    while (last > 0 && row[last - 1] === "") last--;
+    return last;
+  }));
+  const normalized = nonEmpty.map(row => Array.from({ length: width }, (_, i) => row[i] ?? ""));
+
+  return {
+    columns: normalized[0],
+    rows: normalized.slice(1),
+    rowNumbers: kept.slice(1).map(({ rowNumber }) => rowNumber),
+  };
+}
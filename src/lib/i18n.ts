@@ -0,0 +1,86 @@
+import en from "@/lib/messages/en";
+import zhHans from "@/lib/messages/zh-Hans";
+import zhHantHK, { Messages } from "@/lib/messages/zh-Hant-HK";
+
+// Interface languages. Kept free of server-only imports so client components
+// can use it too; the server reads the visitor's choice in requestLocale.ts.
+
+export const LOCALES = ["zh-Hant-HK", "zh-Hans", "en"] as const;
+
+export type Locale = (typeof LOCALES)[number];
+
+export const DEFAULT_LOCALE: Locale = "zh-Hant-HK";
+
+// Remembers the language picked with the switcher
+export const LOCALE_COOKIE = "locale";
+
+// Each language in its own script, as listed in the switcher
+export const LOCALE_NAMES: Record<Locale, string> = {
+  "zh-Hant-HK": "繁體中文",
+  "zh-Hans": "简体中文",
+  en: "English",
+};
+
+const CATALOGS: Record<Locale, Messages> = {
+  "zh-Hant-HK": zhHantHK,
+  "zh-Hans": zhHans,
+  en,
+};
+
+// Sheet and form timestamps are Hong Kong time, so times on screen are too
+const TIME_ZONE = "Asia/Hong_Kong";
+
+export type MessageKey = keyof Messages;
+
+export type Translate = (key: MessageKey, vars?: Record<string, string | number>) => string;
+
+export function isLocale(value: unknown): value is Locale {
+  return LOCALES.includes(value as Locale);
+}
+
+// Best match for an Accept-Language header, for visitors who haven't picked one
+export function negotiateLocale(acceptLanguage: string | null): Locale {
+  const ranked = (acceptLanguage || "")
+    .split(",")
+    .map((part) => {
+      const [tag, q] = part.trim().split(";q=");
+      return { tag: tag.toLowerCase(), q: q ? parseFloat(q) : 1 };
+    })
+    .filter(({ tag, q }) => tag && q > 0)
+    .sort((a, b) => b.q - a.q);
+
+  for (const { tag } of ranked) {
+    if (tag.startsWith("en")) return "en";
+    if (/^zh-(hans|cn|sg)/.test(tag)) return "zh-Hans";
+    if (tag.startsWith("zh")) return "zh-Hant-HK";
+  }
+  return DEFAULT_LOCALE;
+}
+
+// Message in the given language, with {name} placeholders filled in from vars
+export function translate(locale: Locale, key: MessageKey, vars: Record<string, string | number> = {}): string {
+  return CATALOGS[locale][key].replace(/\{(\w+)\}/g, (match, name) => (name in vars ? String(vars[name]) : match));
+}
+
+// translate() bound to one language, for code rendering a whole page in it
+export function translator(locale: Locale): Translate {
+  return (key, vars) => translate(locale, key, vars);
+}
+
+// "14:05:09" / "2:05:09 pm", in place of a bare toLocaleTimeString()
+export function formatTime(locale: Locale, time: Date | number, style: "short" | "medium" = "medium"): string {
+  return new Intl.DateTimeFormat(locale, { timeStyle: style, timeZone: TIME_ZONE }).format(time);
+}
+
+export function formatDateTime(locale: Locale, time: Date | number): string {
+  return new Intl.DateTimeFormat(locale, { dateStyle: "medium", timeStyle: "short", timeZone: TIME_ZONE }).format(time);
+}
+
+export function formatDate(locale: Locale, time: Date | number): string {
+  return new Intl.DateTimeFormat(locale, { dateStyle: "medium", timeZone: TIME_ZONE }).format(time);
+}
+
+// "26日 14時" / "26, 14", for hourly chart labels
+export function formatDayHour(locale: Locale, time: Date | number): string {
+  return new Intl.DateTimeFormat(locale, { day: "numeric", hour: "2-digit", hourCycle: "h23", timeZone: TIME_ZONE }).format(time);
+}
@@ -0,0 +1,176 @@
+import { readFileSync, statSync } from "fs";
+import path from "path";
+import type { SOSColumnConfig } from "@/lib/sosColumns";
+
+// Every incident the site covers, each with its own sheets, caches and pages
+// under /<slug>. Lives in INCIDENTS_FILE (default ./config/incidents.json):
+//   {
+//     "incidents": [
+//       { "slug": "wang-fuk-court", "title": "宏福苑報平安", "sheetId": "...", "sosSheetId": "...",
+//         "formUrl": "https://docs.google.com/forms/...", "sosColumns": "./config/sos-columns.json" }
+//     ]
+//   }
+// `sosColumns` is a column config file or the config itself (see sosColumns.ts).
+// The first active incident is the default that /sos and /stats redirect to.
+// Without the file, a single "default" incident is built from SHEET_ID,
+// SOS_SHEET_ID, INCIDENT_TITLE and FORM_URL as before.
+export interface Incident {
+  slug: string;
+  title: string;
+  description: string;
+  status: "active" | "archived";
+  sheetId: string | null; // public htmlview sheet
+  sosSheetId: string | null; // SOS form responses, read with the service account
+  formUrl: string | null; // where residents report themselves safe
+  sosColumns: string | SOSColumnConfig; // file path or inline config
+  startedAt: string | null;
+  closedAt: string | null; // push subscriptions end once this has passed
+}
+
+interface IncidentsFile {
+  incidents?: Partial<Incident>[];
+}
+
+const SLUG_PATTERN = /^[a-z0-9][a-z0-9-]{0,62}$/;
+
+// Top-level paths an incident slug would shadow
+const RESERVED_SLUGS = new Set(["api", "admin", "incidents", "login", "push", "sheets", "sos", "stats", "lite", "offline"]);
+
+const incidentsFile = () => path.resolve(process.env.INCIDENTS_FILE || "./config/incidents.json");
+
+// What the site served before the registry, kept for deployments without one
+const DEFAULT_TITLE = "宏福苑報平安";
+const DEFAULT_FORM_URL = "https://docs.google.com/forms/d/e/1FAIpQLSc64NpaVIcAkg92fanI5W34xXwpoTnxXu0QozccOiRf3cAZYw/viewform";
+
+const defaultColumnsFile = () => process.env.SOS_COLUMNS_FILE || "./config/sos-columns.json";
+
+let loaded: { file: string; mtime: number; incidents: Incident[] } | null = null;
+
+function fromEnv(): Incident[] {
+  return [{
+    slug: "default",
+    title: process.env.INCIDENT_TITLE || DEFAULT_TITLE,
+    description: "",
+    status: "active",
+    sheetId: process.env.SHEET_ID || null,
+    sosSheetId: process.env.SOS_SHEET_ID || null,
+    formUrl: process.env.FORM_URL || DEFAULT_FORM_URL,
+    sosColumns: defaultColumnsFile(),
+    startedAt: null,
+    closedAt: process.env.INCIDENT_CLOSED_AT || null,
+  }];
+}
+
+function parseIncidents(file: string, config: IncidentsFile): Incident[] {
+  if (!Array.isArray(config.incidents) || config.incidents.length === 0) {
+    throw new Error("expected a non-empty \"incidents\" array");
+  }
+
+  const seen = new Set<string>();
+  return config.incidents.map((entry, i) => {
+    const slug = entry.slug || "";
+    if (!SLUG_PATTERN.test(slug) || RESERVED_SLUGS.has(slug)) {
+      throw new Error(`incident ${i}: slug must be lowercase letters, digits and dashes, and not ${[...RESERVED_SLUGS].join(", ")}`);
+    }
+    if (seen.has(slug)) throw new Error(`duplicate incident slug ${slug}`);
+    seen.add(slug);
+    if (!entry.title) throw new Error(`incident ${slug}: missing title`);
+
+    return {
+      slug,
+      title: entry.title,
+      description: entry.description || "",
+      status: entry.status === "archived" ? "archived" : "active",
+      sheetId: entry.sheetId || null,
+      sosSheetId: entry.sosSheetId || null,
+      formUrl: entry.formUrl || null,
+      // Relative column files resolve against the registry, like any other path in it
+      sosColumns: typeof entry.sosColumns === "string"
+        ? path.resolve(path.dirname(file), entry.sosColumns)
+        : entry.sosColumns || defaultColumnsFile(),
+      startedAt: entry.startedAt || null,
+      closedAt: entry.closedAt || null,
+    };
+  });
+}
+
+// Re-read the file whenever it changes, so a new incident appears without a restart
+export function getIncidents(): Incident[] {
+  const file = incidentsFile();
+
+  let mtime: number;
+  try {
+    mtime = statSync(file).mtimeMs;
+  } catch {
+    return fromEnv();
+  }
+
+  if (loaded?.file !== file || loaded.mtime !== mtime) {
+    try {
+      loaded = { file, mtime, incidents: parseIncidents(file, JSON.parse(readFileSync(file, "utf8"))) };
+    } catch (err) {
+      throw new Error(`Invalid incidents file ${file}: ${err instanceof Error ? err.message : err}`);
+    }
+  }
+
+  return loaded.incidents;
+}
+
+export function getIncident(slug: string): Incident | null {
+  return getIncidents().find(incident => incident.slug === slug) ?? null;
+}
+
+// Where the pre-registry paths (/sos, /stats) lead
+export function getDefaultIncident(): Incident {
+  const incidents = getIncidents();
+  return incidents.find(incident => incident.status === "active") ?? incidents[0];
+}
+
+// Same page and query under the default incident, for links and bookmarks
+// from before the registry: ("/sos", { id: "1" }) -> "/<slug>/sos?id=1"
+export function defaultIncidentPath(pathname: string, searchParams: Record<string, string | string[] | undefined>): string {
+  const query = new URLSearchParams();
+  for (const [key, value] of Object.entries(searchParams)) {
+    for (const item of Array.isArray(value) ? value : [value ?? ""]) query.append(key, item);
+  }
+  return `/${getDefaultIncident().slug}${pathname}${query.size > 0 ? `?${query}` : ""}`;
+}
+
+// Archived, or past its closing time: no new push subscriptions or partner webhooks
+export function isIncidentClosed(incident: Incident): boolean {
+  if (incident.status === "archived") return true;
+  const closedAt = incident.closedAt ? Date.parse(incident.closedAt) : NaN;
+  return !isNaN(closedAt) && closedAt <= Date.now();
+}
+
+// What the browser needs to render an incident's pages
+export interface IncidentSummary {
+  slug: string;
+  title: string;
+  description: string;
+  status: Incident["status"];
+  formUrl: string | null;
+  hasSheet: boolean;
+  hasSOS: boolean;
+  startedAt: string | null;
+  closedAt: string | null;
+}
+
+export function summarizeIncident(incident: Incident): IncidentSummary {
+  return {
+    slug: incident.slug,
+    title: incident.title,
+    description: incident.description,
+    status: incident.status,
+    formUrl: incident.formUrl,
+    hasSheet: !!incident.sheetId,
+    hasSOS: !!incident.sosSheetId,
+    startedAt: incident.startedAt,
+    closedAt: incident.closedAt,
+  };
+}
+
+// Second argument of route handlers (and props of pages) under [incident]
+export interface IncidentParams {
+  params: Promise<{ incident: string }>;
+}
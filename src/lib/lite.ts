@@ -0,0 +1,150 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  isLocale,
+  Locale,
+  LOCALE_COOKIE,
+  LOCALE_NAMES,
+  LOCALES,
+  MessageKey,
+  negotiateLocale,
+  translate,
+} from "@/lib/i18n";
+
+// Server-rendered pages for old phones and slow networks (/lite/<slug>,
+// /lite/<slug>/sos): plain HTML lists straight from the caches, query-string
+// links for every choice, a meta refresh for updates and no scripts at all.
+// Built as strings in the route handlers under src/app/lite so nothing of the
+// React runtime is sent along.
+
+// Rows or cases per page, keeping each page to a few tens of KB
+export const LITE_PAGE_SIZE = 50;
+
+// Markup that is already escaped; everything else put into html`` is escaped
+export class SafeHtml {
+  constructor(readonly value: string) {}
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+function render(value: unknown): string {
+  if (value instanceof SafeHtml) return value.value;
+  if (Array.isArray(value)) return value.map(render).join("");
+  if (value === null || value === undefined || value === false) return "";
+  return escapeHtml(String(value));
+}
+
+export function html(strings: TemplateStringsArray, ...values: unknown[]): SafeHtml {
+  return new SafeHtml(strings.reduce((out, part, i) => out + render(values[i - 1]) + part));
+}
+
+// ?lang= from the language links, then the same cookie and header as the full site
+export function liteLocale(request: NextRequest): Locale {
+  const requested = request.nextUrl.searchParams.get("lang");
+  if (isLocale(requested)) return requested;
+  const chosen = request.cookies.get(LOCALE_COOKIE)?.value;
+  if (isLocale(chosen)) return chosen;
+  return negotiateLocale(request.headers.get("accept-language"));
+}
+
+// This page with some query parameters changed (null removes one)
+export function hrefWith(request: NextRequest, changes: Record<string, string | null>): string {
+  const params = new URLSearchParams(request.nextUrl.searchParams);
+  params.delete("lang");
+  for (const [key, value] of Object.entries(changes)) {
+    if (value === null) {
+      params.delete(key);
+    } else {
+      params.set(key, value);
+    }
+  }
+  return `${request.nextUrl.pathname}${params.size > 0 ? `?${params}` : ""}`;
+}
+
+// Links for a list of choices, the current one in bold
+export function choiceLinks(choices: { href: string; label: string; current: boolean }[]): SafeHtml {
+  return html`<p class="choices">${choices.map(({ href, label, current }) =>
+    current ? html`<b>${label}</b> ` : html`<a href="${href}">${label}</a> `
+  )}</p>`;
+}
+
+// The requested page of a list, clamped to the ones that exist
+export function paginate<T>(request: NextRequest, items: T[]): { items: T[]; page: number; pages: number } {
+  const pages = Math.max(1, Math.ceil(items.length / LITE_PAGE_SIZE));
+  const requested = parseInt(request.nextUrl.searchParams.get("page") || "");
+  const page = isNaN(requested) ? 1 : Math.min(Math.max(requested, 1), pages);
+  return { items: items.slice((page - 1) * LITE_PAGE_SIZE, page * LITE_PAGE_SIZE), page, pages };
+}
+
+export function pageLinks(request: NextRequest, locale: Locale, page: number, pages: number): SafeHtml {
+  if (pages <= 1) return html``;
+  return html`<p class="choices">
+${page > 1 ? html`<a href="${hrefWith(request, { page: String(page - 1) })}">${translate(locale, "lite.prev")}</a>` : ""}
+${translate(locale, "lite.page", { page, pages })}
+${page < pages ? html`<a href="${hrefWith(request, { page: String(page + 1) })}">${translate(locale, "lite.next")}</a>` : ""}
+</p>`;
+}
+
+// Search box that works without scripts: a GET form keeping the other choices
+export function searchForm(request: NextRequest, locale: Locale, placeholder: MessageKey): SafeHtml {
+  const { searchParams } = request.nextUrl;
+  const kept = [...searchParams].filter(([key]) => key !== "q" && key !== "page" && key !== "lang");
+  return html`<form method="get">
+${kept.map(([key, value]) => html`<input type="hidden" name="${key}" value="${value}">`)}
+<input type="search" name="q" value="${searchParams.get("q") || ""}" placeholder="${translate(locale, placeholder)}">
+<button type="submit">${translate(locale, "search.submit")}</button>
+</form>`;
+}
+
+const STYLE = `body{font:16px/1.5 sans-serif;margin:0 auto;max-width:44em;padding:.5em;color:#111}
+h1{font-size:1.3em;margin:.3em 0}a{color:#1d4ed8}.choices a,.choices b{margin-right:.6em;white-space:nowrap}
+ol,ul{padding-left:1.4em}li{padding:.4em 0;border-bottom:1px solid #ddd}.k{color:#666}.note{color:#666;font-size:.9em}
+.warn{background:#fef3c7;padding:.4em}.err{background:#fee2e2;padding:.4em}.ok{color:#15803d}input{font-size:1em;max-width:60%}`;
+
+interface LitePageOptions {
+  title: string;
+  body: SafeHtml;
+  refresh?: number; // seconds until the browser reloads the page
+  status?: number;
+  cacheControl?: string;
+}
+
+export function litePage(request: NextRequest, locale: Locale, { title, body, refresh, status = 200, cacheControl = "no-store" }: LitePageOptions): NextResponse {
+  const languages = choiceLinks(LOCALES.map((option) => ({
+    href: hrefWith(request, { lang: option }),
+    label: LOCALE_NAMES[option],
+    current: option === locale,
+  })));
+
+  const page = html`<!DOCTYPE html>
+<html lang="${locale}">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+${refresh ? html`<meta http-equiv="refresh" content="${refresh}">` : ""}
+<title>${title}</title>
+<style>${new SafeHtml(STYLE)}</style>
+</head>
+<body>
+${body}
+<hr>
+${languages}
+</body>
+</html>`;
+
+  const response = new NextResponse(page.value, {
+    status,
+    headers: { "Content-Type": "text/html; charset=utf-8", "Cache-Control": cacheControl },
+  });
+  // A language picked from the links is remembered like the switcher's
+  if (request.nextUrl.searchParams.get("lang") === locale) {
+    response.cookies.set(LOCALE_COOKIE, locale, { path: "/", maxAge: 365 * 24 * 60 * 60, sameSite: "lax" });
+  }
+  return response;
+}
@@ -0,0 +1,116 @@
+import { getIncident, Incident } from "@/lib/incidents";
+import { getSheetsCache } from "@/lib/sheets";
+import { getSOSCache, getSOSConfigError } from "@/lib/sos";
+import { SnapshotCache } from "@/lib/snapshotCache";
+
+export type LiveSource = "sheets" | "sos";
+
+export interface LiveRefreshEvent {
+  source: LiveSource;
+  timestamp: number;
+  changed: boolean;
+  nextRefreshAt: number;
+}
+
+export type LiveStatus = Record<LiveSource, { timestamp: number; nextRefreshAt: number } | null>;
+
+// While anyone is subscribed, check the caches this often so refreshes
+// happen on the server's schedule instead of waiting for a request
+const TICK_INTERVAL = 15 * 1000;
+
+const sources: Record<LiveSource, { cache: (incident: Incident) => SnapshotCache<unknown>; isConfigured: (incident: Incident) => boolean }> = {
+  sheets: { cache: getSheetsCache, isConfigured: (incident) => !!incident.sheetId },
+  sos: { cache: getSOSCache, isConfigured: (incident) => !getSOSConfigError(incident) },
+};
+
+const sourceNames = Object.keys(sources) as LiveSource[];
+
+interface LiveState {
+  listeners: Set<(event: LiveRefreshEvent) => void>;
+  ticker: NodeJS.Timeout | null;
+  cacheUnsubscribers: (() => void)[];
+}
+
+// Kept on globalThis so the SSE route and the cache share one subscriber list per incident
+const globalForLive = globalThis as unknown as { liveUpdates?: Map<string, LiveState> };
+const states = (globalForLive.liveUpdates ??= new Map());
+
+const getState = (slug: string): LiveState => {
+  if (!states.has(slug)) {
+    states.set(slug, { listeners: new Set(), ticker: null, cacheUnsubscribers: [] });
+  }
+  return states.get(slug)!;
+};
+
+function tick(slug: string) {
+  // Look the incident up again so registry edits apply to running streams
+  const incident = getIncident(slug);
+  if (!incident) return;
+
+  for (const name of sourceNames) {
+    const { cache, isConfigured } = sources[name];
+    if (isConfigured(incident)) {
+      cache(incident).get().catch((err) => console.error(`[Live] Refresh of ${slug}/${name} failed:`, err));
+    }
+  }
+}
+
+function start(incident: Incident) {
+  console.log(`[Live] First subscriber for ${incident.slug}, starting server-side refresh`);
+  const state = getState(incident.slug);
+
+  state.cacheUnsubscribers = sourceNames.map((name) => {
+    const cache = sources[name].cache(incident);
+    return cache.onRefresh(({ timestamp, changed }) => {
+      const event = { source: name, timestamp, changed, nextRefreshAt: timestamp + cache.ttl };
+      for (const listener of state.listeners) {
+        listener(event);
+      }
+    });
+  });
+
+  tick(incident.slug);
+  state.ticker = setInterval(() => tick(incident.slug), TICK_INTERVAL);
+}
+
+function stop(incident: Incident) {
+  console.log(`[Live] No subscribers left for ${incident.slug}, stopping server-side refresh`);
+  const state = getState(incident.slug);
+
+  if (state.ticker) clearInterval(state.ticker);
+  state.ticker = null;
+  state.cacheUnsubscribers.forEach((unsubscribe) => unsubscribe());
+  state.cacheUnsubscribers = [];
+}
+
+export function subscribeLiveUpdates(incident: Incident, listener: (event: LiveRefreshEvent) => void): () => void {
+  const state = getState(incident.slug);
+  state.listeners.add(listener);
+  if (state.listeners.size === 1) start(incident);
+
+  return () => {
+    if (state.listeners.delete(listener) && state.listeners.size === 0) stop(incident);
+  };
+}
+
+// Tell subscribers a source changed outside a cache refresh, e.g. a triage edit
+export function notifyLiveChange(incident: Incident, name: LiveSource) {
+  const cache = sources[name].cache(incident);
+  const current = cache.peek();
+  const timestamp = current?.timestamp ?? Date.now();
+  const event = { source: name, timestamp, changed: true, nextRefreshAt: timestamp + cache.ttl };
+  for (const listener of getState(incident.slug).listeners) {
+    listener(event);
+  }
+}
+
+// Current cache times, so a new subscriber can show an accurate countdown straight away
+export function getLiveStatus(incident: Incident): LiveStatus {
+  const status = {} as LiveStatus;
+  for (const name of sourceNames) {
+    const cache = sources[name].cache(incident);
+    const current = cache.peek();
+    status[name] = current && { timestamp: current.timestamp, nextRefreshAt: current.timestamp + cache.ttl };
+  }
+  return status;
+}
@@ -0,0 +1,159 @@
+// Normalizes the free-text 邊座/樓層/單位 answers from the SOS form into
+// structured block / floor / unit fields, e.g. "2座 18樓 C室", "第二座18/F C"
+// and "宏昌閣 十八樓" all end up as block "2", floor "18".
+
+export type LocationConfidence = "high" | "partial" | "none";
+
+export interface ParsedLocation {
+  block: string | null;
+  floor: string | null;
+  unit: string | null;
+  raw: string;
+  confidence: LocationConfidence; // high = block, floor and unit all found
+}
+
+// 宏福苑 block names (Chinese and English) -> block number
+const BLOCK_NAMES: [string, string[]][] = [
+  ["1", ["宏泰閣", "宏泰阁", "WANG TAI HOUSE", "WANG TAI"]],
+  ["2", ["宏昌閣", "宏昌阁", "WANG CHEONG HOUSE", "WANG CHEONG"]],
+  ["3", ["宏建閣", "宏建阁", "WANG KIN HOUSE", "WANG KIN"]],
+  ["4", ["宏盛閣", "宏盛阁", "WANG SHING HOUSE", "WANG SHING"]],
+  ["5", ["宏新閣", "宏新阁", "WANG SUN HOUSE", "WANG SUN"]],
+  ["6", ["宏志閣", "宏志阁", "WANG CHI HOUSE", "WANG CHI"]],
+  ["7", ["宏道閣", "宏道阁", "WANG TAO HOUSE", "WANG TAO"]],
+  ["8", ["宏仁閣", "宏仁阁", "WANG YAN HOUSE", "WANG YAN"]],
+];
+
+const CHINESE_DIGITS: Record<string, number> = {
+  零: 0, 〇: 0, 一: 1, 二: 2, 兩: 2, 两: 2, 三: 3, 四: 4, 五: 5, 六: 6, 七: 7, 八: 8, 九: 9,
+};
+
+const BLOCK_PATTERNS = [
+  /第?\s*(\d{1,2})\s*座/,
+  /(?:BLOCK|BLK)\.?\s*(\d{1,2})(?!\d)/,
+];
+
+const UNIT_PATTERNS = [
+  /([A-Z]|\d{1,2})\s*(?:號室|室|單位|单位)/,
+  /(?:FLAT|UNIT|ROOM|RM)\.?\s*([A-Z0-9]{1,3})(?![A-Z0-9])/,
+];
+
+const FLOOR_PATTERNS = [
+  /(\d{1,2}|G)\s*(?:樓|楼|層|层)/,
+  /(\d{1,2})\s*\/?\s*F(?![A-Z])/,
+  /(?:FLOOR|FLR|FL)\.?\s*(\d{1,2})(?!\d)/,
+];
+
+// A lone letter left over after the floor, as in "18/F C"
+const BARE_UNIT_PATTERN = /(?:^|[^A-Z])([A-Z])(?![A-Z/])/;
+
+// Floor and unit written together, as in "2座 18C"
+const COMPACT_FLOOR_UNIT_PATTERN = /(\d{1,2})([A-Z])(?![A-Z/])/;
+
+// Convert full-width digits, letters and punctuation to their ASCII forms
+function toHalfWidth(str: string): string {
+  return str
+    .replace(/[！-～]/g, (ch) => String.fromCharCode(ch.charCodeAt(0) - 0xfee0))
+    .replace(/　/g, " ");
+}
+
+// Convert a run of Chinese numerals (十八, 二十三, 廿一, 一八) to a number
+function chineseNumeralToNumber(numeral: string): number {
+  const str = numeral.replace(/廿/g, "二十");
+  const tenIndex = str.indexOf("十");
+
+  if (tenIndex === -1) {
+    // Digit by digit, e.g. 一八 -> 18
+    return parseInt(str.split("").map((ch) => CHINESE_DIGITS[ch]).join(""), 10);
+  }
+
+  const tens = tenIndex === 0 ? 1 : CHINESE_DIGITS[str[tenIndex - 1]] ?? 1;
+  const ones = CHINESE_DIGITS[str[tenIndex + 1]] ?? 0;
+  return tens * 10 + ones;
+}
+
+// Drop leading zeros from numeric parts so "08" and "8" compare equal
+function normalizeNumber(value: string): string {
+  return /^\d+$/.test(value) ? String(parseInt(value, 10)) : value;
+}
+
+export function normalizeLocationText(raw: string): string {
+  let text = toHalfWidth(raw).toUpperCase();
+
+  for (const [block, names] of BLOCK_NAMES) {
+    for (const name of names) {
+      text = text.split(name).join(` ${block}座 `);
+    }
+  }
+
+  return text
+    .replace(/[零〇一二兩两三四五六七八九十廿]+/g, (numeral) => String(chineseNumeralToNumber(numeral)))
+    .replace(/地下|G\s*\/\s*F(?![A-Z])/g, "G樓")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+// Find the first matching pattern and cut the match out of the text,
+// so later fields don't pick up the same digits again
+function extract(text: string, patterns: RegExp[]): [string | null, string] {
+  for (const pattern of patterns) {
+    const match = text.match(pattern);
+    if (match && match.index !== undefined) {
+      const rest = text.slice(0, match.index) + " " + text.slice(match.index + match[0].length);
+      return [normalizeNumber(match[1]), rest];
+    }
+  }
+  return [null, text];
+}
+
+export function parseLocation(raw: string): ParsedLocation {
+  let text = normalizeLocationText(raw || "");
+
+  let block: string | null;
+  let floor: string | null;
+  let unit: string | null;
+
+  [block, text] = extract(text, BLOCK_PATTERNS);
+  [unit, text] = extract(text, UNIT_PATTERNS);
+  [floor, text] = extract(text, FLOOR_PATTERNS);
+
+  if (floor === null && unit === null) {
+    const match = text.match(COMPACT_FLOOR_UNIT_PATTERN);
+    if (match) {
+      floor = normalizeNumber(match[1]);
+      unit = match[2];
+    }
+  } else if (floor !== null && unit === null) {
+    [unit, text] = extract(text, [BARE_UNIT_PATTERN]);
+  }
+
+  const found = [block, floor, unit].filter((v) => v !== null).length;
+
+  return {
+    block,
+    floor,
+    unit,
+    raw,
+    confidence: found === 3 ? "high" : found > 0 ? "partial" : "none",
+  };
+}
+
+// Normalize a query value such as "宏昌閣", "Blk 2" or "18/F" so it can be
+// compared against parsed block / floor / unit fields
+export function normalizeLocationQuery(value: string): string {
+  const text = normalizeLocationText(value)
+    .replace(/BLOCK|BLK|FLOOR|FLR|FLAT|UNIT|ROOM|\/F|[第座樓楼層层室.\s]/g, "")
+    .replace(/^(\d+)F$/, "$1");
+  return normalizeNumber(text);
+}
+
+// Format parsed fields back into a canonical label, e.g. "2座 18樓 C室"
+export function formatLocation(location: Pick<ParsedLocation, "block" | "floor" | "unit">): string {
+  return [
+    location.block && `${location.block}座`,
+    location.floor && `${location.floor}樓`,
+    location.unit && `${location.unit}室`,
+  ]
+    .filter(Boolean)
+    .join(" ");
+}
@@ -0,0 +1,46 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { clearLoginFailures, loginRetryAfter, recordLoginFailure } from "@/lib/loginLimits";
+
+describe("login limits", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(Date.parse("2025-11-26T10:00:00Z"));
+  });
+  afterEach(() => vi.useRealTimers());
+
+  it("makes one address wait longer after each failure past the free tries", () => {
+    const fail = (times: number) => {
+      for (let i = 0; i < times; i++) recordLoginFailure("203.0.113.1", "amy");
+    };
+
+    fail(4);
+    expect(loginRetryAfter("203.0.113.1", "amy")).toBe(0);
+    fail(1);
+    expect(loginRetryAfter("203.0.113.1", "amy")).toBe(1000);
+    expect(loginRetryAfter("203.0.113.1", "ben")).toBe(1000);
+    expect(loginRetryAfter("203.0.113.2", "ben")).toBe(0);
+
+    fail(3);
+    expect(loginRetryAfter("203.0.113.1", "amy")).toBe(8000);
+    vi.advanceTimersByTime(8000);
+    expect(loginRetryAfter("203.0.113.1", "amy")).toBe(0);
+
+    clearLoginFailures("203.0.113.1");
+    fail(1);
+    expect(loginRetryAfter("203.0.113.1", "ben")).toBe(0);
+  });
+
+  it("slows down guessing the passcode from many addresses", () => {
+    for (let i = 0; i < 30; i++) recordLoginFailure(`198.51.100.${i}`, "");
+
+    expect(loginRetryAfter("192.0.2.1", "")).toBe(60 * 1000);
+    expect(loginRetryAfter("192.0.2.1", "amy")).toBe(0);
+
+    // A volunteer's successful login doesn't reset it
+    clearLoginFailures("192.0.2.1");
+    expect(loginRetryAfter(null, "")).toBe(60 * 1000);
+
+    vi.advanceTimersByTime(15 * 60 * 1000 + 1);
+    expect(loginRetryAfter(null, "")).toBe(0);
+  });
+});
@@ -0,0 +1,65 @@
+// Failed logins, counted per client address and per username (the shared
+// passcode counts as one username). After a few free tries each further one
+// has to wait twice as long as the last. The username limit is looser and
+// capped lower, so someone guessing can't lock volunteers out for long.
+
+const FORGET_AFTER = 15 * 60 * 1000; // failures this old no longer count
+const BASE_DELAY = 1000;
+const MAX_TRACKED = 10000;
+
+const LIMITS = {
+  address: { free: 5, maxDelay: 15 * 60 * 1000 },
+  username: { free: 20, maxDelay: 60 * 1000 },
+};
+
+interface Failures {
+  count: number;
+  lastAt: number;
+}
+
+// Kept on globalThis so both login routes share the counts across dev hot reloads
+const globalForLogin = globalThis as unknown as { loginFailures?: Map<string, Failures> };
+const failures = (globalForLogin.loginFailures ??= new Map());
+
+const keysOf = (address: string | null, username: string) => [
+  ...(address ? [{ key: `address:${address}`, limit: LIMITS.address }] : []),
+  { key: `username:${username || "(passcode)"}`, limit: LIMITS.username },
+];
+
+// Milliseconds until this address may try this username again; 0 if it may now
+export function loginRetryAfter(address: string | null, username: string): number {
+  const now = Date.now();
+  let wait = 0;
+
+  for (const { key, limit } of keysOf(address, username)) {
+    const entry = failures.get(key);
+    if (!entry || now - entry.lastAt > FORGET_AFTER || entry.count < limit.free) continue;
+
+    const delay = Math.min(BASE_DELAY * 2 ** (entry.count - limit.free), limit.maxDelay);
+    wait = Math.max(wait, entry.lastAt + delay - now);
+  }
+  return wait;
+}
+
+export function recordLoginFailure(address: string | null, username: string) {
+  const now = Date.now();
+
+  if (failures.size > MAX_TRACKED) {
+    for (const [key, entry] of failures) {
+      if (now - entry.lastAt > FORGET_AFTER) failures.delete(key);
+    }
+  }
+
+  for (const { key } of keysOf(address, username)) {
+    const entry = failures.get(key);
+    const count = entry && now - entry.lastAt <= FORGET_AFTER ? entry.count + 1 : 1;
+    failures.set(key, { count, lastAt: now });
+  }
+}
+
+// A successful login clears the address's count. The username's is left to
+// run out, so a volunteer logging in with the passcode doesn't reset it for
+// someone guessing it.
+export function clearLoginFailures(address: string | null) {
+  if (address) failures.delete(`address:${address}`);
+}
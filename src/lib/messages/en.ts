@@ -0,0 +1,276 @@
+import type { Messages } from "@/lib/messages/zh-Hant-HK";
+
+// Interface text in English
+const messages: Messages = {
+  "site.title": "Safety Check-in (read only)",
+  "site.shortTitle": "Check-in",
+  "site.readOnly": " (read only)",
+  "site.description": "Safety check-in sheets for fires and disasters - read only; to report, use the original form",
+  "site.incidentDescription": "{title} - read only; to report, use the original form",
+  "language.label": "Language",
+
+  "common.backHome": "Back to home",
+  "common.cancel": "Cancel",
+  "common.save": "Save",
+  "common.saving": "Saving...",
+  "common.saveFailed": "Could not save",
+  "common.networkError": "Network error, please try again.",
+  "common.listSeparator": ", ",
+
+  "status.lastUpdated": "Last updated: {time}",
+  "status.nextRefresh": "Refreshing in {countdown}",
+  "status.live": "Live",
+  "status.polling": "Auto-refresh",
+  "status.stale": "Showing older data while reloading",
+  "status.updating": "Updating...",
+  "status.tabFailedMinutes": "The last update of this tab failed; showing data from {n} minutes ago",
+  "status.tabFailedEarlier": "The last update of this tab failed; showing older data",
+  "offline.banner": "Offline – data as of {time}, will update once you're back online",
+
+  "index.subtitle": "This site is read only; you cannot report here",
+  "index.archived": "Past incidents",
+  "index.period": "{start} to {end}",
+  "index.now": "now",
+  "index.sheet": "Safety check-ins",
+  "index.sos": "Missing / SOS list",
+  "index.stats": "Incident statistics",
+
+  "home.subtitle": "This page is read only; you cannot report here",
+  "home.archived": "This incident is over; the data is kept for the record",
+  "home.report": "Report safe / missing / SOS",
+  "home.reportHint": "Fill in the Google form",
+  "home.sosList": "Missing / SOS list",
+  "home.sosHint": "Protected list of people needing help",
+  "home.allIncidents": "All incidents",
+  "home.stats": "Incident statistics",
+  "home.loadFailed": "Could not load",
+  "home.loading": "Loading the sheet...",
+  "home.tableView": "Switch to table view",
+  "home.googleView": "View in the original Google layout",
+
+  "table.search": "Search this tab...",
+  "table.noMatch": "No matching records",
+  "table.count": "Showing {shown} / {total} rows",
+
+  "search.placeholder": "Search all tabs: name / block / floor / flat...",
+  "search.submit": "Search",
+  "search.searching": "Searching...",
+  "search.clear": "Clear",
+  "search.failed": "Search failed",
+  "search.partial": "Some data can't be searched right now: {sources}",
+  "search.noResults": "No matching records",
+  "search.sos": "SOS list",
+  "search.sheet": "Check-in",
+  "search.row": "Row {row}",
+  "search.field": "{field}: {text}",
+  "search.count": "{n} results",
+
+  "push.sos.title": "Notify me of updates",
+  "push.sos.placeholder": "Block / floor / flat, e.g. 2座 18樓 C室",
+  "push.sos.hint": "Enter just a block, or a block and floor, to hear about the whole block or floor.",
+  "push.sheet.title": "Notify me about a name or keyword",
+  "push.sheet.placeholder": "Name or keyword",
+  "push.sheet.hint": "You'll be notified when a row containing it appears or changes on the public sheet.",
+  "push.footer": "Notifications stop when the incident is over. On iPhone, first \"Add to Home Screen\".",
+  "push.notReady": "Notifications aren't ready yet; reload the page and try again",
+  "push.denied": "Notifications are blocked; allow them for this site in your browser settings",
+  "push.failed": "Could not subscribe",
+  "push.subscribed": "Subscribed to updates for {label}",
+  "push.subscribe": "Subscribe",
+  "push.subscribing": "Subscribing...",
+  "push.unsupported": "This browser doesn't support push notifications.",
+  "push.until": "until {date}",
+  "push.unsubscribe": "Remove",
+  "push.unsubscribeFailed": "Could not remove, please try again later",
+
+  "sos.title": "Missing / SOS list",
+  "sos.source": "{title} · Source: check-in Google Form (Authenticated)",
+  "sos.logout": "Log out",
+  "sos.logoutAs": "Log out ({user})",
+  "sos.sessionExpired": "Your login has expired. The list below was loaded earlier and won't update.",
+  "sos.relogin": "Log in again",
+  "sos.expiredError": "Your login has expired, please log in again",
+  "sos.searchPlaceholder": "Search block / floor / flat...",
+  "sos.allStatuses": "All",
+  "sos.allTriage": "All follow-up",
+  "sos.print": "Print list",
+  "sos.exportCsv": "Export CSV",
+  "sos.exportXlsx": "Export Excel",
+  "sos.sinceLastVisit": "Since your last visit: {changes}",
+  "sos.added": "{n} new",
+  "sos.statusChanged": "{n} status updates",
+  "sos.removed": "{n} removed from the list",
+  "sos.resolved": "Resolved",
+  "sos.newCase": "New",
+  "sos.updated": "Updated",
+  "sos.partialLocation": "(location incomplete)",
+  "sos.unknownTime": "Unknown time",
+  "sos.rawTime": "({time})",
+  "sos.notifyMe": "Notify me of updates",
+  "sos.details": "Details",
+  "sos.showHistory": "Show history ({n} reports)",
+  "sos.hideHistory": "Hide history ({n} reports)",
+  "sos.empty": "No records",
+  "sos.noMatch": "No records match your search; try other keywords",
+  "sos.noCases": "No SOS reports received yet",
+  "sos.noneInFilter": "No records with this status",
+  "sos.count": "Showing {n} records",
+
+  "location.block": "Block {block}",
+  "location.floor": "{floor}/F",
+  "location.unit": "Flat {unit}",
+
+  "triage.none": "Not handled",
+  "triage.calling": "Following up",
+  "triage.rescued": "Rescued",
+  "triage.duplicate": "Duplicate",
+  "triage.unreachable": "Unreachable",
+  "triage.assignee": "Assigned: {name}",
+  "triage.update": "Update",
+  "triage.pickUp": "Follow up",
+  "triage.assigneePlaceholder": "Volunteer in charge",
+  "triage.notePlaceholder": "Note",
+
+  "lite.name": "Lite version",
+  "lite.fullVersion": "Full version",
+  "lite.noscript": "This page needs JavaScript. Try the lite version:",
+  "lite.updated": "Data from {time}; this page reloads every {minutes} minutes",
+  "lite.page": "Page {page} of {pages}",
+  "lite.prev": "Previous",
+  "lite.next": "Next",
+  "lite.empty": "This tab is empty",
+  "lite.unparsable": "This tab can't be shown in the lite version",
+  "lite.loadFailed": "Could not load the data: {error}",
+  "lite.notFound": "Incident not found",
+  "lite.noSheet": "This incident has no public sheet",
+  "lite.noSOS": "This incident has no SOS list",
+  "lite.history": "{n} reports",
+  "lite.login.title": "Volunteer login",
+  "lite.login.hint": "The SOS list is for registered volunteers only. Leave the username empty when using the passcode.",
+  "lite.login.username": "Username",
+  "lite.login.password": "Password or passcode",
+  "lite.login.submit": "Log in",
+  "lite.login.badAccount": "Wrong username or password",
+  "lite.login.badPasscode": "Wrong passcode",
+  "lite.login.tooMany": "Too many attempts, try again in {n} seconds",
+
+  "stats.title": "{title} · Incident statistics",
+  "stats.updatedAt": "Updated {time}",
+  "stats.loadFailed": "Could not load the statistics",
+  "stats.partial": "Some data can't be counted right now: {sources}",
+  "stats.reports": "Reports",
+  "stats.cases": "Cases (merged by flat)",
+  "stats.unresolved": "Not yet confirmed safe",
+  "stats.markedSafe": "Later reported safe",
+  "stats.markedSafeOf": "{count} of {of} SOS cases",
+  "stats.perHour": "New reports per hour",
+  "stats.openPerHour": "Cases not yet confirmed safe (at the end of each hour)",
+  "stats.byStatus": "By current situation",
+  "stats.byTab": "By tab",
+  "stats.tab": "Tab",
+  "stats.tabReports": "Reports",
+  "stats.tabCases": "Cases",
+  "stats.tabUnresolved": "Not confirmed safe",
+  "stats.sheetTab": "{name} (check-in)",
+  "stats.byBlock": "By block and floor",
+  "stats.byBlockHint": "Bars show cases not yet confirmed safe; pick a block below to see its floors",
+  "stats.blockCases": "{n} cases",
+  "stats.blockUnresolved": "{n} not confirmed safe",
+  "stats.floorCases": "{n} cases",
+  "stats.floorUnresolved": "{n} unconfirmed",
+  "stats.empty": "No statistics yet",
+  "chart.empty": "No data yet",
+
+  "roster.title": "SOS roster",
+  "roster.back": "Back to the list",
+  "roster.print": "Print",
+  "roster.downloadPdf": "Download PDF",
+  "roster.loadFailed": "Could not load the list",
+  "roster.empty": "No cases match these filters",
+  "roster.heading": "{heading} · {tab} · {n} cases",
+  "roster.continuedHeading": "{heading} · {tab}",
+  "roster.floorCount": "{floor} · {n} cases",
+  "roster.continued": " (continued)",
+  "roster.unknownBlock": "Unknown location",
+  "roster.unknownFloor": "Unknown floor",
+  "roster.generatedAt": "Generated {time}",
+  "roster.dataAge": "Data updated {time} ({minutes} min ago)",
+  "roster.dataAgeUnknown": "Data update time unknown",
+  "roster.filterStatus": "Situation: {value}",
+  "roster.filterTriage": "Follow-up: {value}",
+  "roster.filterQuery": "Search: {value}",
+  "roster.page": "Page {page} of {pages}",
+  "roster.column.unit": "Flat",
+  "roster.column.status": "Situation",
+  "roster.column.details": "Residents",
+  "roster.column.triage": "Follow-up",
+  "roster.column.lastReport": "Last report",
+  "roster.column.check": "Check",
+
+  "admin.status.title": "System status",
+  "admin.status.summary": "Data source: {source} · updated {time}",
+  "admin.status.loadFailed": "Could not load the status",
+  "admin.status.sheets": "Check-in (htmlview)",
+  "admin.status.sos": "Missing/SOS list (Sheets API)",
+  "admin.status.archived": " (ended)",
+  "admin.status.configError": "Configuration error: {error}",
+  "admin.status.refreshFailed": "Last refresh failed ({time}): {error}",
+  "admin.status.cacheAge": "Cached data",
+  "admin.status.restored": " (restored from snapshot)",
+  "admin.status.ttl": "Cache lifetime",
+  "admin.status.seconds": "{n} s",
+  "admin.status.lastRefresh": "Last refresh",
+  "admin.status.refreshing": " (refreshing)",
+  "admin.status.refreshDuration": "Refresh took",
+  "admin.status.noTabs": "No tabs loaded yet",
+  "admin.status.tab": "Tab",
+  "admin.status.tabAge": "Data age",
+  "admin.status.tabDuration": "Took",
+  "admin.status.tabRows": "Rows",
+  "admin.status.tabRecords": "Records",
+  "admin.status.tabMapping": "Column mapping",
+  "admin.status.tabError": "Error",
+  "admin.status.mappingOk": "OK",
+  "admin.status.secondsAgo": "{n} s ago",
+  "admin.status.minutesAgo": "{n} min ago",
+  "admin.status.hoursAgo": "{n} h ago",
+  "admin.writeBack.title": "Writing back to the sheet (tab \"{tab}\")",
+  "admin.writeBack.titleFake": "Writing back to the sheet (tab \"{tab}\", simulated)",
+  "admin.writeBack.failed": "Last write failed: {error}",
+  "admin.writeBack.pending": "Waiting",
+  "admin.writeBack.conflicts": "Conflicts",
+  "admin.writeBack.failing": "Failing",
+  "admin.writeBack.lastFlush": "Last write",
+  "admin.writeBack.resolveFailed": "Could not resolve the write",
+  "admin.writeBack.overwrite": "Overwrite with ours",
+  "admin.writeBack.discard": "Keep the sheet's version",
+  "admin.webhooks.title": "Webhook notifications",
+  "admin.webhooks.summary": "Waiting {pending} · last sent {time}",
+  "admin.webhooks.loadFailed": "Could not load the webhooks",
+  "admin.webhooks.retryFailed": "Could not resend",
+  "admin.webhooks.back": "Back to system status",
+  "admin.webhooks.targets": "Receivers",
+  "admin.webhooks.configError": "Configuration error: {error}",
+  "admin.webhooks.noTargets": "No receivers configured (WEBHOOKS_FILE)",
+  "admin.webhooks.added": "New cases",
+  "admin.webhooks.changed": "Status updates",
+  "admin.webhooks.allTabs": "All tabs",
+  "admin.webhooks.allIncidents": "All incidents",
+  "admin.webhooks.log": "Deliveries",
+  "admin.webhooks.empty": "Nothing sent yet",
+  "admin.webhooks.createdAt": "Created",
+  "admin.webhooks.target": "Receiver",
+  "admin.webhooks.cases": "Cases",
+  "admin.webhooks.status": "Status",
+  "admin.webhooks.attempts": "Attempts",
+  "admin.webhooks.response": "Response / error",
+  "admin.webhooks.caseCount": "{n} cases",
+  "admin.webhooks.pending": "Waiting",
+  "admin.webhooks.delivered": "Delivered",
+  "admin.webhooks.failed": "Failed",
+  "admin.webhooks.nextAttempt": "Next try {time}",
+  "admin.webhooks.deliveredAt": "Delivered {time}",
+  "admin.webhooks.retry": "Resend",
+};
+
+export default messages;
@@ -0,0 +1,276 @@
+import type { Messages } from "@/lib/messages/zh-Hant-HK";
+
+// Interface text in Simplified Chinese
+const messages: Messages = {
+  "site.title": "报平安【只读】",
+  "site.shortTitle": "报平安",
+  "site.readOnly": "【只读】",
+  "site.description": "火灾及灾害报平安表格 - 仅供查阅，如需报平安请使用原始表格",
+  "site.incidentDescription": "{title} - 仅供查阅，如需报平安请使用原始表格",
+  "language.label": "语言",
+
+  "common.backHome": "返回主页",
+  "common.cancel": "取消",
+  "common.save": "保存",
+  "common.saving": "保存中...",
+  "common.saveFailed": "保存失败",
+  "common.networkError": "网络错误，请重试。",
+  "common.listSeparator": "、",
+
+  "status.lastUpdated": "最后更新：{time}",
+  "status.nextRefresh": "{countdown} 后自动更新",
+  "status.live": "实时更新",
+  "status.polling": "定时更新",
+  "status.stale": "显示较早前的资料，正在重新加载",
+  "status.updating": "更新中...",
+  "status.tabFailedMinutes": "此分页最近一次更新失败，正在显示 {n} 分钟前的资料",
+  "status.tabFailedEarlier": "此分页最近一次更新失败，正在显示较早前的资料",
+  "offline.banner": "离线 – 资料截至 {time}，恢复连接后会自动更新",
+
+  "index.subtitle": "本网站仅供查阅，无法在此直接报平安",
+  "index.archived": "已结束的事故",
+  "index.period": "{start} 至 {end}",
+  "index.now": "现在",
+  "index.sheet": "报平安名单",
+  "index.sos": "失联/求救名单",
+  "index.stats": "事故统计",
+
+  "home.subtitle": "此页面仅供查阅，无法在此直接报平安",
+  "home.archived": "此事故已结束，资料仅作记录之用",
+  "home.report": "我要报平安/失联/求救",
+  "home.reportHint": "前往 Google 表单填写资料",
+  "home.sosList": "失联/求救名单",
+  "home.sosHint": "查看受保护的求助列表",
+  "home.allIncidents": "所有事故",
+  "home.stats": "查看事故统计",
+  "home.loadFailed": "加载失败",
+  "home.loading": "正在加载表格...",
+  "home.tableView": "切换至表格视图",
+  "home.googleView": "以 Google 原始格式查看",
+
+  "table.search": "搜索此分页...",
+  "table.noMatch": "找不到符合搜索条件的记录",
+  "table.count": "显示 {shown} / {total} 行",
+
+  "search.placeholder": "搜索所有分页：姓名 / 座数 / 楼层 / 单位...",
+  "search.submit": "搜索",
+  "search.searching": "搜索中...",
+  "search.clear": "清除",
+  "search.failed": "搜索失败",
+  "search.partial": "部分资料暂时无法搜索：{sources}",
+  "search.noResults": "找不到符合搜索条件的记录",
+  "search.sos": "求救名单",
+  "search.sheet": "报平安",
+  "search.row": "第 {row} 行",
+  "search.field": "{field}：{text}",
+  "search.count": "共 {n} 条结果",
+
+  "push.sos.title": "有更新时通知我",
+  "push.sos.placeholder": "座数 / 楼层 / 单位，例如 2座 18楼 C室",
+  "push.sos.hint": "可只填座数或座数加楼层，以接收整座或整层的通知。",
+  "push.sheet.title": "名字或关键字有更新时通知我",
+  "push.sheet.placeholder": "姓名或关键字",
+  "push.sheet.hint": "公开表格内出现或更新包含此字词的资料时会通知你。",
+  "push.footer": "事故结束后会自动停止通知。iPhone 需先把本网站「添加到主屏幕」。",
+  "push.notReady": "通知功能尚未准备好，请重新加载页面后再试",
+  "push.denied": "未获准发送通知，请在浏览器设置中允许此网站的通知",
+  "push.failed": "订阅失败",
+  "push.subscribed": "已订阅 {label} 的通知",
+  "push.subscribe": "订阅通知",
+  "push.subscribing": "订阅中...",
+  "push.unsupported": "此浏览器不支持推送通知。",
+  "push.until": "至 {date}",
+  "push.unsubscribe": "取消",
+  "push.unsubscribeFailed": "取消失败，请稍后再试",
+
+  "sos.title": "失联/求救名单",
+  "sos.source": "{title} · 资料来源：报平安Google Form (Authenticated)",
+  "sos.logout": "退出登录",
+  "sos.logoutAs": "退出登录（{user}）",
+  "sos.sessionExpired": "登录已过期，以下为较早前加载的资料，不会再自动更新。",
+  "sos.relogin": "重新登录",
+  "sos.expiredError": "登录已过期，请重新登录",
+  "sos.searchPlaceholder": "搜索座数 / 楼层 / 单位...",
+  "sos.allStatuses": "全部",
+  "sos.allTriage": "全部跟进",
+  "sos.print": "打印名单",
+  "sos.exportCsv": "导出 CSV",
+  "sos.exportXlsx": "导出 Excel",
+  "sos.sinceLastVisit": "自上次浏览以来：{changes}",
+  "sos.added": "{n} 个新个案",
+  "sos.statusChanged": "{n} 个状态更新",
+  "sos.removed": "{n} 个已从名单移除",
+  "sos.resolved": "已解决",
+  "sos.newCase": "新个案",
+  "sos.updated": "状态更新",
+  "sos.partialLocation": "（位置不完整）",
+  "sos.unknownTime": "时间不明",
+  "sos.rawTime": "（{time}）",
+  "sos.notifyMe": "有更新时通知我",
+  "sos.details": "详细情况",
+  "sos.showHistory": "查看记录（共 {n} 次通报）",
+  "sos.hideHistory": "收起记录（共 {n} 次通报）",
+  "sos.empty": "暂无相关记录",
+  "sos.noMatch": "找不到符合搜索条件的记录，请尝试其他关键字",
+  "sos.noCases": "目前没有收到求救记录",
+  "sos.noneInFilter": "此状态下暂无记录",
+  "sos.count": "显示共 {n} 条记录",
+
+  "location.block": "{block}座",
+  "location.floor": "{floor}楼",
+  "location.unit": "{unit}室",
+
+  "triage.none": "未处理",
+  "triage.calling": "跟进中",
+  "triage.rescued": "已救出",
+  "triage.duplicate": "重复",
+  "triage.unreachable": "未能联络",
+  "triage.assignee": "负责：{name}",
+  "triage.update": "更新",
+  "triage.pickUp": "跟进",
+  "triage.assigneePlaceholder": "负责义工",
+  "triage.notePlaceholder": "备注",
+
+  "lite.name": "简易版",
+  "lite.fullVersion": "完整版",
+  "lite.noscript": "此页面需要 JavaScript，可改用简易版：",
+  "lite.updated": "资料更新于 {time}，每 {minutes} 分钟自动刷新",
+  "lite.page": "第 {page} / {pages} 页",
+  "lite.prev": "上一页",
+  "lite.next": "下一页",
+  "lite.empty": "此分页没有资料",
+  "lite.unparsable": "此分页无法以简易版显示",
+  "lite.loadFailed": "暂时无法加载资料：{error}",
+  "lite.notFound": "找不到此事故",
+  "lite.noSheet": "此事故没有公开名单",
+  "lite.noSOS": "此事故没有失联/求救名单",
+  "lite.history": "共 {n} 次通报",
+  "lite.login.title": "义工登录",
+  "lite.login.hint": "失联/求救名单仅供已登记义工查看。使用通行码时请留空用户名。",
+  "lite.login.username": "用户名",
+  "lite.login.password": "密码或通行码",
+  "lite.login.submit": "登录",
+  "lite.login.badAccount": "用户名或密码错误",
+  "lite.login.badPasscode": "通行码错误",
+  "lite.login.tooMany": "尝试次数过多，请于 {n} 秒后再试",
+
+  "stats.title": "{title} · 事故统计",
+  "stats.updatedAt": "更新于 {time}",
+  "stats.loadFailed": "未能加载统计数据",
+  "stats.partial": "部分数据暂时无法统计：{sources}",
+  "stats.reports": "通报次数",
+  "stats.cases": "个案（按单位合并）",
+  "stats.unresolved": "仍未确认安全",
+  "stats.markedSafe": "其后报平安",
+  "stats.markedSafeOf": "{count} / {of} 宗求救个案",
+  "stats.perHour": "每小时新通报",
+  "stats.openPerHour": "仍未确认安全的个案（每小时结束时）",
+  "stats.byStatus": "按现时情况",
+  "stats.byTab": "按分页",
+  "stats.tab": "分页",
+  "stats.tabReports": "通报",
+  "stats.tabCases": "个案",
+  "stats.tabUnresolved": "未确认安全",
+  "stats.sheetTab": "{name}（报平安）",
+  "stats.byBlock": "按座数及楼层",
+  "stats.byBlockHint": "柱高为仍未确认安全的个案数目；点选下表查看各楼层",
+  "stats.blockCases": "{n} 宗个案",
+  "stats.blockUnresolved": "{n} 宗未确认安全",
+  "stats.floorCases": "{n} 宗",
+  "stats.floorUnresolved": "{n} 未确认",
+  "stats.empty": "暂无统计数据",
+  "chart.empty": "暂无数据",
+
+  "roster.title": "SOS 名单",
+  "roster.back": "返回名单",
+  "roster.print": "打印",
+  "roster.downloadPdf": "下载 PDF",
+  "roster.loadFailed": "未能加载名单",
+  "roster.empty": "没有符合条件的个案",
+  "roster.heading": "{heading} · {tab} · {n} 宗个案",
+  "roster.continuedHeading": "{heading} · {tab}",
+  "roster.floorCount": "{floor} · {n} 宗",
+  "roster.continued": "（续）",
+  "roster.unknownBlock": "位置不明",
+  "roster.unknownFloor": "楼层不明",
+  "roster.generatedAt": "生成时间 {time}",
+  "roster.dataAge": "数据更新于 {time}（{minutes} 分钟前）",
+  "roster.dataAgeUnknown": "数据更新时间不明",
+  "roster.filterStatus": "现时情况：{value}",
+  "roster.filterTriage": "处理状态：{value}",
+  "roster.filterQuery": "搜索：{value}",
+  "roster.page": "第 {page} / {pages} 页",
+  "roster.column.unit": "单位",
+  "roster.column.status": "现时情况",
+  "roster.column.details": "住户情况",
+  "roster.column.triage": "处理",
+  "roster.column.lastReport": "最后通报",
+  "roster.column.check": "核对",
+
+  "admin.status.title": "系统状态",
+  "admin.status.summary": "数据来源：{source} · 更新于 {time}",
+  "admin.status.loadFailed": "未能加载系统状态",
+  "admin.status.sheets": "报平安 (htmlview)",
+  "admin.status.sos": "失联/求救名单 (Sheets API)",
+  "admin.status.archived": "（已结束）",
+  "admin.status.configError": "设置错误：{error}",
+  "admin.status.refreshFailed": "最近一次更新失败（{time}）：{error}",
+  "admin.status.cacheAge": "缓存数据",
+  "admin.status.restored": "（从快照还原）",
+  "admin.status.ttl": "缓存有效期",
+  "admin.status.seconds": "{n} 秒",
+  "admin.status.lastRefresh": "最近一次更新",
+  "admin.status.refreshing": "（更新中）",
+  "admin.status.refreshDuration": "更新耗时",
+  "admin.status.noTabs": "尚未加载任何分页",
+  "admin.status.tab": "分页",
+  "admin.status.tabAge": "数据时间",
+  "admin.status.tabDuration": "耗时",
+  "admin.status.tabRows": "行数",
+  "admin.status.tabRecords": "记录",
+  "admin.status.tabMapping": "字段对应",
+  "admin.status.tabError": "错误",
+  "admin.status.mappingOk": "正常",
+  "admin.status.secondsAgo": "{n} 秒前",
+  "admin.status.minutesAgo": "{n} 分钟前",
+  "admin.status.hoursAgo": "{n} 小时前",
+  "admin.writeBack.title": "写回电子表格（分页「{tab}」）",
+  "admin.writeBack.titleFake": "写回电子表格（分页「{tab}」，模拟模式）",
+  "admin.writeBack.failed": "最近一次写入失败：{error}",
+  "admin.writeBack.pending": "等待写入",
+  "admin.writeBack.conflicts": "冲突",
+  "admin.writeBack.failing": "多次失败",
+  "admin.writeBack.lastFlush": "最近一次写入",
+  "admin.writeBack.resolveFailed": "未能处理此写入",
+  "admin.writeBack.overwrite": "以我们的版本覆盖",
+  "admin.writeBack.discard": "保留电子表格版本",
+  "admin.webhooks.title": "Webhook 通知",
+  "admin.webhooks.summary": "等待发送 {pending} · 最近一次发送 {time}",
+  "admin.webhooks.loadFailed": "未能加载 Webhook 状态",
+  "admin.webhooks.retryFailed": "未能重新发送",
+  "admin.webhooks.back": "返回系统状态",
+  "admin.webhooks.targets": "接收方",
+  "admin.webhooks.configError": "设置错误：{error}",
+  "admin.webhooks.noTargets": "未设置任何接收方（WEBHOOKS_FILE）",
+  "admin.webhooks.added": "新个案",
+  "admin.webhooks.changed": "状态更新",
+  "admin.webhooks.allTabs": "所有分页",
+  "admin.webhooks.allIncidents": "所有事故",
+  "admin.webhooks.log": "发送记录",
+  "admin.webhooks.empty": "暂无记录",
+  "admin.webhooks.createdAt": "创建时间",
+  "admin.webhooks.target": "接收方",
+  "admin.webhooks.cases": "个案",
+  "admin.webhooks.status": "状态",
+  "admin.webhooks.attempts": "尝试",
+  "admin.webhooks.response": "响应 / 错误",
+  "admin.webhooks.caseCount": "{n} 宗",
+  "admin.webhooks.pending": "等待发送",
+  "admin.webhooks.delivered": "已送达",
+  "admin.webhooks.failed": "失败",
+  "admin.webhooks.nextAttempt": "下次重试 {time}",
+  "admin.webhooks.deliveredAt": "送达 {time}",
+  "admin.webhooks.retry": "重新发送",
+};
+
+export default messages;
@@ -0,0 +1,277 @@
+// Interface text in Traditional Chinese (Hong Kong), the site's original language.
+// The other catalogs must have the same keys; {name} is filled in by translate().
+const messages = {
+  "site.title": "報平安【齋睇】",
+  "site.shortTitle": "報平安",
+  "site.readOnly": "【齋睇】",
+  "site.description": "火警及災害報平安試算表 - 只供查閱，如需報平安請用原始試算表",
+  "site.incidentDescription": "{title} - 只供查閱，如需報平安請用原始試算表",
+  "language.label": "語言",
+
+  "common.backHome": "返回主頁",
+  "common.cancel": "取消",
+  "common.save": "儲存",
+  "common.saving": "儲存中...",
+  "common.saveFailed": "儲存失敗",
+  "common.networkError": "網絡錯誤，請重試。",
+  "common.listSeparator": "、",
+
+  "status.lastUpdated": "最後更新：{time}",
+  "status.nextRefresh": "{countdown} 後自動更新",
+  "status.live": "即時更新",
+  "status.polling": "定時更新",
+  "status.stale": "顯示較早前的資料，正在重新載入",
+  "status.updating": "更新中...",
+  "status.tabFailedMinutes": "此分頁最近一次更新失敗，正在顯示 {n} 分鐘前的資料",
+  "status.tabFailedEarlier": "此分頁最近一次更新失敗，正在顯示較早前的資料",
+  "offline.banner": "離線 – 資料截至 {time}，恢復連線後會自動更新",
+
+  "index.subtitle": "此網站只供查閱，無法在此直接報平安",
+  "index.archived": "已結束的事故",
+  "index.period": "{start} 至 {end}",
+  "index.now": "現在",
+  "index.sheet": "報平安名單",
+  "index.sos": "失聯/求救名單",
+  "index.stats": "事故統計",
+
+  "home.subtitle": "此頁面只供查閱，無法在此直接報平安",
+  "home.archived": "此事故已結束，資料只作記錄之用",
+  "home.report": "我要報平安/失聯/求救",
+  "home.reportHint": "前往 Google 表格填寫資料",
+  "home.sosList": "失聯/求救名單",
+  "home.sosHint": "查看受保護的求助列表",
+  "home.allIncidents": "所有事故",
+  "home.stats": "查看事故統計",
+  "home.loadFailed": "載入失敗",
+  "home.loading": "正在載入試算表...",
+  "home.tableView": "切換至表格檢視",
+  "home.googleView": "以 Google 原始格式檢視",
+
+  "table.search": "搜尋此分頁...",
+  "table.noMatch": "找不到符合搜尋條件的記錄",
+  "table.count": "顯示 {shown} / {total} 行",
+
+  "search.placeholder": "搜尋所有分頁：姓名 / 座數 / 樓層 / 單位...",
+  "search.submit": "搜尋",
+  "search.searching": "搜尋中...",
+  "search.clear": "清除",
+  "search.failed": "搜尋失敗",
+  "search.partial": "部分資料暫時無法搜尋：{sources}",
+  "search.noResults": "找不到符合搜尋條件的記錄",
+  "search.sos": "求救名單",
+  "search.sheet": "報平安",
+  "search.row": "第 {row} 行",
+  "search.field": "{field}：{text}",
+  "search.count": "共 {n} 筆結果",
+
+  "push.sos.title": "有更新時通知我",
+  "push.sos.placeholder": "座數 / 樓層 / 單位，例如 2座 18樓 C室",
+  "push.sos.hint": "可只填座數或座數加樓層，以接收整座或整層的通知。",
+  "push.sheet.title": "名字或關鍵字有更新時通知我",
+  "push.sheet.placeholder": "姓名或關鍵字",
+  "push.sheet.hint": "公開表格內出現或更新包含此字詞的資料時會通知你。",
+  "push.footer": "事故結束後會自動停止通知。iPhone 需先把本網站「加入主畫面」。",
+  "push.notReady": "通知功能尚未準備好，請重新載入頁面後再試",
+  "push.denied": "未獲准發送通知，請在瀏覽器設定中允許此網站的通知",
+  "push.failed": "訂閱失敗",
+  "push.subscribed": "已訂閱 {label} 的通知",
+  "push.subscribe": "訂閱通知",
+  "push.subscribing": "訂閱中...",
+  "push.unsupported": "此瀏覽器不支援推送通知。",
+  "push.until": "至 {date}",
+  "push.unsubscribe": "取消",
+  "push.unsubscribeFailed": "取消失敗，請稍後再試",
+
+  "sos.title": "失聯/求救名單",
+  "sos.source": "{title} · 資料來源：報平安Google Form (Authenticated)",
+  "sos.logout": "登出",
+  "sos.logoutAs": "登出（{user}）",
+  "sos.sessionExpired": "登入已過期，以下為較早前載入的資料，不會再自動更新。",
+  "sos.relogin": "重新登入",
+  "sos.expiredError": "登入已過期，請重新登入",
+  "sos.searchPlaceholder": "搜尋座數 / 樓層 / 單位...",
+  "sos.allStatuses": "全部",
+  "sos.allTriage": "全部跟進",
+  "sos.print": "列印名單",
+  "sos.exportCsv": "匯出 CSV",
+  "sos.exportXlsx": "匯出 Excel",
+  "sos.sinceLastVisit": "自上次瀏覽以來：{changes}",
+  "sos.added": "{n} 個新個案",
+  "sos.statusChanged": "{n} 個狀態更新",
+  "sos.removed": "{n} 個已從名單移除",
+  "sos.resolved": "已解決",
+  "sos.newCase": "新個案",
+  "sos.updated": "狀態更新",
+  "sos.partialLocation": "（位置未完整）",
+  "sos.unknownTime": "時間不明",
+  "sos.rawTime": "（{time}）",
+  "sos.notifyMe": "有更新時通知我",
+  "sos.details": "詳細情況",
+  "sos.showHistory": "查看紀錄（共 {n} 次通報）",
+  "sos.hideHistory": "收起紀錄（共 {n} 次通報）",
+  "sos.empty": "暫無相關記錄",
+  "sos.noMatch": "找不到符合搜尋條件的記錄，請嘗試其他關鍵字",
+  "sos.noCases": "目前沒有收到求救記錄",
+  "sos.noneInFilter": "此狀態下暫無記錄",
+  "sos.count": "顯示共 {n} 筆記錄",
+
+  "location.block": "{block}座",
+  "location.floor": "{floor}樓",
+  "location.unit": "{unit}室",
+
+  "triage.none": "未處理",
+  "triage.calling": "跟進中",
+  "triage.rescued": "已救出",
+  "triage.duplicate": "重複",
+  "triage.unreachable": "未能聯絡",
+  "triage.assignee": "負責：{name}",
+  "triage.update": "更新",
+  "triage.pickUp": "跟進",
+  "triage.assigneePlaceholder": "負責義工",
+  "triage.notePlaceholder": "備註",
+
+  "lite.name": "簡易版",
+  "lite.fullVersion": "完整版",
+  "lite.noscript": "此頁面需要 JavaScript，可改用簡易版：",
+  "lite.updated": "資料更新於 {time}，每 {minutes} 分鐘自動重新整理",
+  "lite.page": "第 {page} / {pages} 頁",
+  "lite.prev": "上一頁",
+  "lite.next": "下一頁",
+  "lite.empty": "此分頁沒有資料",
+  "lite.unparsable": "此分頁無法以簡易版顯示",
+  "lite.loadFailed": "暫時未能載入資料：{error}",
+  "lite.notFound": "找不到此事故",
+  "lite.noSheet": "此事故沒有公開名單",
+  "lite.noSOS": "此事故沒有失聯/求救名單",
+  "lite.history": "共 {n} 次通報",
+  "lite.login.title": "義工登入",
+  "lite.login.hint": "失聯/求救名單只供已登記義工查看。使用通行碼時請留空用戶名稱。",
+  "lite.login.username": "用戶名稱",
+  "lite.login.password": "密碼或通行碼",
+  "lite.login.submit": "登入",
+  "lite.login.badAccount": "用戶名稱或密碼錯誤",
+  "lite.login.badPasscode": "通行碼錯誤",
+  "lite.login.tooMany": "嘗試次數過多，請於 {n} 秒後再試",
+
+  "stats.title": "{title} · 事故統計",
+  "stats.updatedAt": "更新於 {time}",
+  "stats.loadFailed": "未能載入統計數據",
+  "stats.partial": "部分資料暫時無法統計：{sources}",
+  "stats.reports": "通報次數",
+  "stats.cases": "個案（按單位合併）",
+  "stats.unresolved": "仍未確認安全",
+  "stats.markedSafe": "其後報平安",
+  "stats.markedSafeOf": "{count} / {of} 宗求救個案",
+  "stats.perHour": "每小時新通報",
+  "stats.openPerHour": "仍未確認安全的個案（每小時結束時）",
+  "stats.byStatus": "按現時情況",
+  "stats.byTab": "按分頁",
+  "stats.tab": "分頁",
+  "stats.tabReports": "通報",
+  "stats.tabCases": "個案",
+  "stats.tabUnresolved": "未確認安全",
+  "stats.sheetTab": "{name}（報平安）",
+  "stats.byBlock": "按座數及樓層",
+  "stats.byBlockHint": "柱高為仍未確認安全的個案數目；點選下表查看各樓層",
+  "stats.blockCases": "{n} 宗個案",
+  "stats.blockUnresolved": "{n} 宗未確認安全",
+  "stats.floorCases": "{n} 宗",
+  "stats.floorUnresolved": "{n} 未確認",
+  "stats.empty": "暫無統計數據",
+  "chart.empty": "暫無數據",
+
+  "roster.title": "SOS 名單",
+  "roster.back": "返回名單",
+  "roster.print": "列印",
+  "roster.downloadPdf": "下載 PDF",
+  "roster.loadFailed": "未能載入名單",
+  "roster.empty": "沒有符合條件的個案",
+  "roster.heading": "{heading} · {tab} · {n} 宗個案",
+  "roster.continuedHeading": "{heading} · {tab}",
+  "roster.floorCount": "{floor} · {n} 宗",
+  "roster.continued": "（續）",
+  "roster.unknownBlock": "位置不明",
+  "roster.unknownFloor": "樓層不明",
+  "roster.generatedAt": "產生時間 {time}",
+  "roster.dataAge": "資料更新於 {time}（{minutes} 分鐘前）",
+  "roster.dataAgeUnknown": "資料更新時間不明",
+  "roster.filterStatus": "現時情況：{value}",
+  "roster.filterTriage": "處理狀態：{value}",
+  "roster.filterQuery": "搜尋：{value}",
+  "roster.page": "第 {page} / {pages} 頁",
+  "roster.column.unit": "單位",
+  "roster.column.status": "現時情況",
+  "roster.column.details": "住戶情況",
+  "roster.column.triage": "處理",
+  "roster.column.lastReport": "最後通報",
+  "roster.column.check": "核對",
+
+  "admin.status.title": "系統狀態",
+  "admin.status.summary": "資料來源：{source} · 更新於 {time}",
+  "admin.status.loadFailed": "未能載入系統狀態",
+  "admin.status.sheets": "報平安 (htmlview)",
+  "admin.status.sos": "失聯/求救名單 (Sheets API)",
+  "admin.status.archived": "（已結束）",
+  "admin.status.configError": "設定錯誤：{error}",
+  "admin.status.refreshFailed": "最近一次更新失敗（{time}）：{error}",
+  "admin.status.cacheAge": "快取資料",
+  "admin.status.restored": "（從快照還原）",
+  "admin.status.ttl": "快取有效期",
+  "admin.status.seconds": "{n} 秒",
+  "admin.status.lastRefresh": "最近一次更新",
+  "admin.status.refreshing": "（更新中）",
+  "admin.status.refreshDuration": "更新耗時",
+  "admin.status.noTabs": "尚未載入任何分頁",
+  "admin.status.tab": "分頁",
+  "admin.status.tabAge": "資料時間",
+  "admin.status.tabDuration": "耗時",
+  "admin.status.tabRows": "行數",
+  "admin.status.tabRecords": "記錄",
+  "admin.status.tabMapping": "欄位對應",
+  "admin.status.tabError": "錯誤",
+  "admin.status.mappingOk": "正常",
+  "admin.status.secondsAgo": "{n} 秒前",
+  "admin.status.minutesAgo": "{n} 分鐘前",
+  "admin.status.hoursAgo": "{n} 小時前",
+  "admin.writeBack.title": "寫回試算表（分頁「{tab}」）",
+  "admin.writeBack.titleFake": "寫回試算表（分頁「{tab}」，模擬模式）",
+  "admin.writeBack.failed": "最近一次寫入失敗：{error}",
+  "admin.writeBack.pending": "等待寫入",
+  "admin.writeBack.conflicts": "衝突",
+  "admin.writeBack.failing": "多次失敗",
+  "admin.writeBack.lastFlush": "最近一次寫入",
+  "admin.writeBack.resolveFailed": "未能處理此寫入",
+  "admin.writeBack.overwrite": "以我們的版本覆蓋",
+  "admin.writeBack.discard": "保留試算表版本",
+  "admin.webhooks.title": "Webhook 通知",
+  "admin.webhooks.summary": "等待發送 {pending} · 最近一次發送 {time}",
+  "admin.webhooks.loadFailed": "未能載入 Webhook 狀態",
+  "admin.webhooks.retryFailed": "未能重新發送",
+  "admin.webhooks.back": "返回系統狀態",
+  "admin.webhooks.targets": "接收方",
+  "admin.webhooks.configError": "設定錯誤：{error}",
+  "admin.webhooks.noTargets": "未設定任何接收方（WEBHOOKS_FILE）",
+  "admin.webhooks.added": "新個案",
+  "admin.webhooks.changed": "狀態更新",
+  "admin.webhooks.allTabs": "所有分頁",
+  "admin.webhooks.allIncidents": "所有事故",
+  "admin.webhooks.log": "發送記錄",
+  "admin.webhooks.empty": "暫無記錄",
+  "admin.webhooks.createdAt": "建立時間",
+  "admin.webhooks.target": "接收方",
+  "admin.webhooks.cases": "個案",
+  "admin.webhooks.status": "狀態",
+  "admin.webhooks.attempts": "嘗試",
+  "admin.webhooks.response": "回應 / 錯誤",
+  "admin.webhooks.caseCount": "{n} 宗",
+  "admin.webhooks.pending": "等待發送",
+  "admin.webhooks.delivered": "已送達",
+  "admin.webhooks.failed": "失敗",
+  "admin.webhooks.nextAttempt": "下次重試 {time}",
+  "admin.webhooks.deliveredAt": "送達 {time}",
+  "admin.webhooks.retry": "重新發送",
+};
+
+export type Messages = typeof messages;
+
+export default messages;
@@ -0,0 +1,17 @@
+// Client side of the service worker in public/sw.js
+
+// Set by the service worker on responses it served from the device's cache
+const OFFLINE_HEADER = "X-Offline-Cached-At";
+
+// When the data was stored, if this response came from the offline cache
+export function offlineCachedAt(response: Response): number | null {
+  const value = Number(response.headers.get(OFFLINE_HEADER));
+  return value > 0 ? value : null;
+}
+
+// Drop the SOS data kept on this device, e.g. on logout
+export async function clearOfflineSOSData(): Promise<void> {
+  if (typeof caches === "undefined") return;
+  const keys = await caches.keys();
+  await Promise.all(keys.filter(key => key.startsWith("sos-")).map(key => caches.delete(key)));
+}
@@ -0,0 +1,219 @@
+import { deflateSync } from "zlib";
+import { getPdfFont, PdfFont } from "@/lib/pdfFont";
+
+// Minimal PDF writer: A4 pages of text, lines and grey boxes, enough for
+// printed rosters. By default text is set in MSung-Light, one of the standard
+// CJK fonts PDF readers are meant to provide themselves, so no font file has
+// to be embedded; readers without it may substitute another font or show
+// blanks, as do characters outside the Big5 / CNS set. Set PDF_FONT_FILE to a
+// TrueType font to embed that instead.
+
+export const PAGE_WIDTH = 595.28; // A4 in points
+export const PAGE_HEIGHT = 841.89;
+
+// Drawing operations of one page. Coordinates are measured from the top-left
+// corner; text is placed by its baseline.
+export interface PdfPage {
+  ops: string[];
+  chars: Set<number>; // code points drawn, for the embedded font's widths
+}
+
+const num = (n: number) => String(Math.round(n * 100) / 100);
+
+const hex4 = (n: number) => n.toString(16).padStart(4, "0");
+
+// Unicode text as UCS-2 hex for the UniCNS-UCS2-H encoding
+function encodeText(text: string): string {
+  return Array.from(text.replace(/[\u0000-\u001f]/g, ""))
+    .map(char => {
+      const code = char.codePointAt(0)!;
+      return hex4(code > 0xffff ? 0x3f : code); // "?" outside the BMP
+    })
+    .join("");
+}
+
+const glyphOf = (font: PdfFont, code: number) => font.glyphs.get(code) ?? 0;
+
+// Glyph ids as hex for Identity-H; missing characters get the font's .notdef box
+function encodeGlyphs(font: PdfFont, text: string): string {
+  return Array.from(text.replace(/[\u0000-\u001f]/g, ""), char => hex4(glyphOf(font, char.codePointAt(0)!))).join("");
+}
+
+// Advance width in em. In MSung-Light Latin glyphs are half width, everything
+// else full width.
+function charWidth(char: string): number {
+  const font = getPdfFont();
+  if (font) return font.advances[glyphOf(font, char.codePointAt(0)!)] / font.unitsPerEm;
+  return char.charCodeAt(0) < 0x7f ? 0.5 : 1;
+}
+
+export function textWidth(text: string, size: number): number {
+  return Array.from(text).reduce((sum, char) => sum + charWidth(char), 0) * size;
+}
+
+// Break text into lines no wider than `width`, keeping explicit line breaks
+export function wrapText(text: string, width: number, size: number): string[] {
+  const lines: string[] = [];
+
+  for (const paragraph of text.split(/\r?\n/)) {
+    let line = "";
+    let lineWidth = 0;
+    for (const char of Array.from(paragraph)) {
+      const w = charWidth(char) * size;
+      if (lineWidth + w > width && line) {
+        lines.push(line);
+        line = "";
+        lineWidth = 0;
+      }
+      line += char;
+      lineWidth += w;
+    }
+    lines.push(line);
+  }
+
+  return lines;
+}
+
+export function createPage(): PdfPage {
+  return { ops: [], chars: new Set() };
+}
+
+export function drawText(page: PdfPage, x: number, y: number, size: number, text: string) {
+  if (!text) return;
+  const font = getPdfFont();
+  for (const char of text) page.chars.add(char.codePointAt(0)!);
+  page.ops.push(`BT /F1 ${num(size)} Tf ${num(x)} ${num(PAGE_HEIGHT - y)} Td <${font ? encodeGlyphs(font, text) : encodeText(text)}> Tj ET`);
+}
+
+export function drawLine(page: PdfPage, x1: number, y1: number, x2: number, y2: number, lineWidth = 0.5) {
+  page.ops.push(`${num(lineWidth)} w ${num(x1)} ${num(PAGE_HEIGHT - y1)} m ${num(x2)} ${num(PAGE_HEIGHT - y2)} l S`);
+}
+
+export function strokeRect(page: PdfPage, x: number, y: number, width: number, height: number, lineWidth = 0.5) {
+  page.ops.push(`${num(lineWidth)} w ${num(x)} ${num(PAGE_HEIGHT - y - height)} ${num(width)} ${num(height)} re S`);
+}
+
+// gray: 0 black .. 1 white
+export function fillRect(page: PdfPage, x: number, y: number, width: number, height: number, gray: number) {
+  page.ops.push(`${num(gray)} g ${num(x)} ${num(PAGE_HEIGHT - y - height)} ${num(width)} ${num(height)} re f 0 g`);
+}
+
+const MSUNG_LIGHT = [
+  "<< /Type /Font /Subtype /Type0 /BaseFont /MSung-Light /Encoding /UniCNS-UCS2-H /DescendantFonts [4 0 R] >>",
+  "<< /Type /Font /Subtype /CIDFontType0 /BaseFont /MSung-Light " +
+    "/CIDSystemInfo << /Registry (Adobe) /Ordering (CNS1) /Supplement 0 >> " +
+    "/FontDescriptor 5 0 R /DW 1000 /W [1 95 500] >>",
+  "<< /Type /FontDescriptor /FontName /MSung-Light /Flags 6 /FontBBox [-160 -249 1015 1071] " +
+    "/ItalicAngle 0 /Ascent 880 /Descent -120 /CapHeight 880 /StemV 93 >>",
+];
+
+const stream = (dict: string, content: Buffer) => Buffer.concat([
+  Buffer.from(`<< ${dict} /Length ${content.length} >>\nstream\n`, "latin1"),
+  content,
+  Buffer.from("\nendstream", "latin1"),
+]);
+
+// Type0 font, CIDFont and descriptor (objects 3-5) for an embedded TrueType
+// font, plus its font file and ToUnicode map, which go at `fileRef` and the
+// object after it. CIDs are glyph ids; widths and the map cover only the
+// characters drawn.
+function embeddedFontObjects(font: PdfFont, chars: Set<number>, fileRef: number): (string | Buffer)[] {
+  const scale = (units: number) => Math.round((units * 1000) / font.unitsPerEm);
+  const used = new Map<number, number>(); // glyph id -> code point
+  for (const code of chars) {
+    const glyph = glyphOf(font, code);
+    if (glyph !== 0 && !used.has(glyph)) used.set(glyph, code);
+  }
+  const glyphs = Array.from(used.keys()).sort((a, b) => a - b);
+
+  const widths = glyphs.map(glyph => `${glyph} [${scale(font.advances[glyph])}]`).join(" ");
+  const toUtf16 = (code: number) => Buffer.from(String.fromCodePoint(code), "utf16le").swap16().toString("hex");
+  const mappings: string[] = [];
+  for (let i = 0; i < glyphs.length; i += 100) {
+    const chunk = glyphs.slice(i, i + 100);
+    mappings.push(`${chunk.length} beginbfchar`, ...chunk.map(glyph => `<${hex4(glyph)}> <${toUtf16(used.get(glyph)!)}>`), "endbfchar");
+  }
+  const toUnicode = [
+    "/CIDInit /ProcSet findresource begin",
+    "12 dict begin",
+    "begincmap",
+    "/CIDSystemInfo << /Registry (Adobe) /Ordering (UCS) /Supplement 0 >> def",
+    "/CMapName /Adobe-Identity-UCS def",
+    "/CMapType 2 def",
+    "1 begincodespacerange",
+    "<0000> <FFFF>",
+    "endcodespacerange",
+    ...mappings,
+    "endcmap",
+    "CMapName currentdict /CMap defineresource pop",
+    "end",
+    "end",
+  ].join("\n");
+
+  return [
+    `<< /Type /Font /Subtype /Type0 /BaseFont /${font.name} /Encoding /Identity-H /DescendantFonts [4 0 R] /ToUnicode ${fileRef + 1} 0 R >>`,
+    `<< /Type /Font /Subtype /CIDFontType2 /BaseFont /${font.name} ` +
+      "/CIDSystemInfo << /Registry (Adobe) /Ordering (Identity) /Supplement 0 >> " +
+      `/FontDescriptor 5 0 R /CIDToGIDMap /Identity /DW 1000 /W [${widths}] >>`,
+    `<< /Type /FontDescriptor /FontName /${font.name} /Flags 4 /FontBBox [${font.bbox.map(scale).join(" ")}] ` +
+      `/ItalicAngle 0 /Ascent ${scale(font.ascent)} /Descent ${scale(font.descent)} /CapHeight ${scale(font.ascent)} ` +
+      `/StemV 80 /FontFile2 ${fileRef} 0 R >>`,
+    stream(`/Filter /FlateDecode /Length1 ${font.length}`, font.file),
+    stream("/Filter /FlateDecode", deflateSync(Buffer.from(toUnicode, "latin1"))),
+  ];
+}
+
+export function buildPdf(pages: PdfPage[], title: string): Buffer {
+  const font = getPdfFont();
+  const fontObjects = font
+    ? embeddedFontObjects(font, new Set(pages.flatMap(page => Array.from(page.chars))), 7 + pages.length * 2)
+    : MSUNG_LIGHT;
+
+  // Objects 1-6 are fixed; each page then adds a page object and its content
+  // stream, and an embedded font's file and ToUnicode map come last
+  const objects: (string | Buffer)[] = [
+    "<< /Type /Catalog /Pages 2 0 R >>",
+    `<< /Type /Pages /Kids [${pages.map((_, i) => `${7 + i * 2} 0 R`).join(" ")}] /Count ${pages.length} >>`,
+    ...fontObjects.slice(0, 3),
+    `<< /Title <feff${encodeText(title)}> /Producer (taipo-spreadsheet) >>`,
+  ];
+
+  pages.forEach((page, i) => {
+    objects.push(
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] ` +
+        `/Resources << /Font << /F1 3 0 R >> >> /Contents ${8 + i * 2} 0 R >>`
+    );
+    objects.push(stream("/Filter /FlateDecode", deflateSync(Buffer.from(page.ops.join("\n"), "latin1"))));
+  });
+  objects.push(...fontObjects.slice(3));
+
+  const chunks: Buffer[] = [Buffer.from("%PDF-1.4\n%\xe2\xe3\xcf\xd3\n", "latin1")];
+  let length = chunks[0].length;
+  const offsets: number[] = [];
+
+  objects.forEach((body, i) => {
+    offsets.push(length);
+    const chunk = Buffer.concat([
+      Buffer.from(`${i + 1} 0 obj\n`, "latin1"),
+      typeof body === "string" ? Buffer.from(body, "latin1") : body,
+      Buffer.from("\nendobj\n", "latin1"),
+    ]);
+    chunks.push(chunk);
+    length += chunk.length;
+  });
+
+  const xref = [
+    "xref",
+    `0 ${objects.length + 1}`,
+    "0000000000 65535 f ",
+    ...offsets.map(offset => `${String(offset).padStart(10, "0")} 00000 n `),
+    "trailer",
+    `<< /Size ${objects.length + 1} /Root 1 0 R /Info 6 0 R >>`,
+    "startxref",
+    String(length),
+    "%%EOF",
+  ].join("\n");
+  chunks.push(Buffer.from(xref + "\n", "latin1"));
+
+  return Buffer.concat(chunks);
+}
@@ -0,0 +1,133 @@
+import { readFileSync } from "fs";
+import path from "path";
+import { deflateSync } from "zlib";
+
+// A TrueType font for pdf.ts to embed, from PDF_FONT_FILE. Only what the PDF
+// needs is read: glyph widths, the Unicode cmap and a few metrics for the
+// font descriptor. The whole file is embedded, so a single-weight font keeps
+// downloads small. Collections (.ttc) and CFF-based .otf files aren't supported.
+
+export interface PdfFont {
+  name: string; // BaseFont name, from the file name
+  file: Buffer; // deflated font file
+  length: number; // of the file before deflating
+  unitsPerEm: number;
+  bbox: [number, number, number, number];
+  ascent: number;
+  descent: number;
+  glyphs: Map<number, number>; // code point -> glyph id
+  advances: number[]; // by glyph id, in font units
+}
+
+function readFont(file: string): PdfFont {
+  const data = readFileSync(file);
+  const version = data.readUInt32BE(0);
+  if (version !== 0x00010000 && version !== 0x74727565 /* "true" */) {
+    throw new Error("not a TrueType font (.ttc collections and CFF .otf fonts can't be embedded)");
+  }
+
+  const tables = new Map<string, number>();
+  for (let i = 0; i < data.readUInt16BE(4); i++) {
+    const record = 12 + i * 16;
+    tables.set(data.toString("latin1", record, record + 4), data.readUInt32BE(record + 8));
+  }
+  const table = (tag: string) => {
+    const offset = tables.get(tag);
+    if (offset === undefined) throw new Error(`missing ${tag} table`);
+    return offset;
+  };
+
+  const head = table("head");
+  const hhea = table("hhea");
+  const unitsPerEm = data.readUInt16BE(head + 18);
+  const bbox = [36, 38, 40, 42].map(at => data.readInt16BE(head + at)) as PdfFont["bbox"];
+
+  const numGlyphs = data.readUInt16BE(table("maxp") + 4);
+  const numberOfHMetrics = data.readUInt16BE(hhea + 34);
+  const hmtx = table("hmtx");
+  const advances = Array.from({ length: numGlyphs }, (_, glyph) =>
+    data.readUInt16BE(hmtx + Math.min(glyph, numberOfHMetrics - 1) * 4)
+  );
+
+  return {
+    name: path.basename(file, path.extname(file)).replace(/[^A-Za-z0-9+-]/g, "") || "EmbeddedFont",
+    file: deflateSync(data),
+    length: data.length,
+    unitsPerEm,
+    bbox,
+    ascent: data.readInt16BE(hhea + 4),
+    descent: data.readInt16BE(hhea + 6),
+    glyphs: readCmap(data, table("cmap")),
+    advances,
+  };
+}
+
+// Unicode mappings from the full-repertoire (format 12) subtable if there is
+// one, else the BMP (format 4) one
+function readCmap(data: Buffer, cmap: number): Map<number, number> {
+  const subtables = Array.from({ length: data.readUInt16BE(cmap + 2) }, (_, i) => {
+    const record = cmap + 4 + i * 8;
+    const offset = cmap + data.readUInt32BE(record + 4);
+    return { platform: data.readUInt16BE(record), encoding: data.readUInt16BE(record + 2), offset, format: data.readUInt16BE(offset) };
+  }).filter(s => s.platform === 0 || (s.platform === 3 && (s.encoding === 1 || s.encoding === 10)));
+
+  const glyphs = new Map<number, number>();
+  const full = subtables.find(s => s.format === 12);
+  const bmp = subtables.find(s => s.format === 4);
+
+  if (full) {
+    const groups = data.readUInt32BE(full.offset + 12);
+    for (let i = 0; i < groups; i++) {
+      const group = full.offset + 16 + i * 12;
+      const start = data.readUInt32BE(group);
+      const end = data.readUInt32BE(group + 4);
+      const startGlyph = data.readUInt32BE(group + 8);
+      for (let code = start; code <= end; code++) glyphs.set(code, startGlyph + code - start);
+    }
+  } else if (bmp) {
+    const segments = data.readUInt16BE(bmp.offset + 6) / 2;
+    const ends = bmp.offset + 14;
+    const starts = ends + segments * 2 + 2;
+    const deltas = starts + segments * 2;
+    const rangeOffsets = deltas + segments * 2;
+
+    for (let i = 0; i < segments; i++) {
+      const start = data.readUInt16BE(starts + i * 2);
+      const end = data.readUInt16BE(ends + i * 2);
+      const delta = data.readUInt16BE(deltas + i * 2);
+      const rangeOffset = data.readUInt16BE(rangeOffsets + i * 2);
+
+      for (let code = start; code <= end && code !== 0xffff; code++) {
+        let glyph = rangeOffset === 0
+          ? code
+          : data.readUInt16BE(rangeOffsets + i * 2 + rangeOffset + (code - start) * 2);
+        if (rangeOffset === 0 || glyph !== 0) glyph = (glyph + delta) & 0xffff;
+        if (glyph !== 0) glyphs.set(code, glyph);
+      }
+    }
+  } else {
+    throw new Error("no Unicode cmap");
+  }
+
+  return glyphs;
+}
+
+let loaded: { file: string; font: PdfFont } | null = null;
+
+// The configured font, or null to fall back to the reader's own MSung-Light.
+// Read once, as text layout asks for it on every character; a replaced file
+// takes a restart.
+export function getPdfFont(): PdfFont | null {
+  const file = process.env.PDF_FONT_FILE;
+  if (!file) return null;
+
+  if (loaded?.file !== file) {
+    try {
+      loaded = { file, font: readFont(file) };
+    } catch (err) {
+      throw new Error(`Invalid PDF font ${file}: ${err instanceof Error ? err.message : err}`);
+    }
+  }
+
+  return loaded.font;
+}
@@ -0,0 +1,56 @@
+import { describe, expect, it } from "vitest";
+import { getDefaultIncident } from "@/lib/incidents";
+import { addSubscription, endSessionSubscriptions, getSubscriptions, PushSubscriptionInfo, validateSubscription } from "@/lib/push";
+import { Session } from "@/lib/session";
+
+const keys = {
+  p256dh: Buffer.alloc(65, 4).toString("base64url"),
+  auth: Buffer.alloc(16, 1).toString("base64url"),
+};
+
+describe("validateSubscription", () => {
+  it("accepts the browsers' push services only", () => {
+    expect(validateSubscription({ endpoint: "https://fcm.googleapis.com/fcm/send/abc", keys })).not.toBeTypeOf("string");
+    expect(validateSubscription({ endpoint: "https://updates.push.services.mozilla.com/wpush/v2/abc", keys })).not.toBeTypeOf("string");
+    expect(validateSubscription({ endpoint: "https://web.push.apple.com/abc", keys })).not.toBeTypeOf("string");
+
+    expect(validateSubscription({ endpoint: "https://example.com/hook", keys })).toBeTypeOf("string");
+    expect(validateSubscription({ endpoint: "https://fcm.googleapis.com.example.com/x", keys })).toBeTypeOf("string");
+    expect(validateSubscription({ endpoint: "https://fcm.googleapis.com:8443/x", keys })).toBeTypeOf("string");
+    expect(validateSubscription({ endpoint: "http://fcm.googleapis.com/fcm/send/abc", keys })).toBeTypeOf("string");
+  });
+});
+
+describe("endSessionSubscriptions", () => {
+  it("drops the SOS subscriptions made in a session at its logout", async () => {
+    const incident = getDefaultIncident();
+    const session = (sid: string): Session => ({ user: "passcode", role: "viewer", sid, exp: Date.now() + 60 * 60 * 1000 });
+    const subscribe = async (endpoint: string, sid: string) => (await addSubscription(
+      { endpoint: `https://fcm.googleapis.com/fcm/send/${endpoint}`, keys },
+      incident,
+      { kind: "sos", block: "2", floor: null, unit: null },
+      { session: session(sid), address: "203.0.113.7" }
+    )) as PushSubscriptionInfo;
+
+    const mine = await subscribe("phone-a", "sid-a");
+    const theirs = await subscribe("phone-b", "sid-b");
+    await endSessionSubscriptions("sid-a");
+
+    const left = await getSubscriptions([mine.id, theirs.id], null);
+    expect(left.map(s => s.id)).toEqual([theirs.id]);
+  });
+});
+
+describe("addSubscription", () => {
+  it("says why a limit stops a subscription rather than failing", async () => {
+    const incident = getDefaultIncident();
+    const endpoint = "https://fcm.googleapis.com/fcm/send/busy-phone";
+    const subscribe = (keyword: string) =>
+      addSubscription({ endpoint, keys }, incident, { kind: "sheet", keyword }, { session: null, address: null });
+
+    for (let i = 0; i < 20; i++) {
+      expect(await subscribe(`住戶 ${i}`)).not.toBeTypeOf("string");
+    }
+    expect(await subscribe("住戶 20")).toBe("每部裝置最多可訂閱 20 項通知");
+  });
+});
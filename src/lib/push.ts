@@ -0,0 +1,493 @@
+import { createHash, randomBytes } from "crypto";
+import { promises as fs } from "fs";
+import path from "path";
+import { getDefaultIncident, getIncident, getIncidents, Incident, isIncidentClosed } from "@/lib/incidents";
+import { formatLocation, parseLocation } from "@/lib/location";
+import { getSheetTable, getSheetsCache, PublicSheetData } from "@/lib/sheets";
+import { Session } from "@/lib/session";
+import { getSOSCache, getSOSConfigError, SOSSheetData } from "@/lib/sos";
+import { diffSOSData, SOSChange } from "@/lib/sosChanges";
+import { getPushConfigError, PushSubscriptionKeys, sendWebPush } from "@/lib/webPush";
+
+// Browser push notifications for families following one flat. A visitor
+// subscribes to a block / floor / unit of the SOS list, or to a name or keyword
+// on the public sheet of one incident, and is notified when a matching row
+// appears or changes. Subscriptions are kept in PUSH_SUBSCRIPTIONS_FILE and
+// dropped after PUSH_SUBSCRIPTION_DAYS, or as soon as their incident is
+// archived or past its closedAt. SOS subscriptions also end with the volunteer
+// session they were made in: at logout, or once it expires.
+
+const STORE_FILE = path.resolve(process.env.PUSH_SUBSCRIPTIONS_FILE || ".data/push-subscriptions.json");
+
+const TICK_INTERVAL = 60 * 1000;
+const MESSAGE_TTL = 6 * 60 * 60; // seconds a push service holds a message for an offline phone
+const MAX_FAILURES = 5; // consecutive failed sends before a subscription is dropped
+const MAX_PER_ENDPOINT = 20;
+const MAX_PER_ADDRESS = 200; // phones on one mobile network can share an address
+const MAX_SUBSCRIPTIONS = 20000;
+const MAX_KEYWORD_LENGTH = 50;
+const MAX_LISTED = 3; // cases named in one notification
+
+// Browsers' push services; we only ever send to these, never to a host the caller picked
+const PUSH_SERVICE_HOSTS = [
+  "fcm.googleapis.com", // Chrome and other Chromium browsers
+  "push.services.mozilla.com", // Firefox
+  "push.apple.com", // Safari
+  "notify.windows.com", // Edge on Windows
+];
+
+export type PushTopic =
+  | { kind: "sos"; block: string; floor: string | null; unit: string | null }
+  | { kind: "sheet"; keyword: string };
+
+export interface PushSubscriptionRecord {
+  id: string; // random; doubles as the unsubscribe token
+  incident: string; // slug
+  endpoint: string;
+  keys: PushSubscriptionKeys;
+  topic: PushTopic;
+  session: { user: string; sid: string; expiresAt: number } | null; // the volunteer session an SOS subscription belongs to
+  source: string; // hash of the subscriber's address, for MAX_PER_ADDRESS; "" if unknown
+  createdAt: number;
+  expiresAt: number;
+  lastSentAt: number | null;
+  failures: number;
+}
+
+// What the browser is shown about one of its subscriptions
+export interface PushSubscriptionInfo {
+  id: string;
+  incident: string;
+  kind: PushTopic["kind"];
+  label: string;
+  expiresAt: number;
+}
+
+type PushCursors = { sos: number | null; sheets: number | null }; // cache timestamps already compared
+
+interface PushStore {
+  cursors: Record<string, PushCursors>; // by incident slug
+  subscriptions: PushSubscriptionRecord[];
+}
+
+interface PushMessage {
+  title: string;
+  body: string;
+  url: string;
+  unsubscribeUrl: string;
+}
+
+interface PushState {
+  started: boolean;
+  subscribed: Set<string>; // incidents whose caches we listen to
+  store: PushStore | null;
+  queue: Promise<unknown>; // store reads and writes, one at a time
+}
+
+// Kept on globalThis so the refresh listeners, the timer and the API route share one store
+const globalForPush = globalThis as unknown as { push?: PushState };
+const state = (globalForPush.push ??= { started: false, subscribed: new Set(), store: null, queue: Promise.resolve() });
+
+function subscriptionLifetime(): number {
+  const days = parseFloat(process.env.PUSH_SUBSCRIPTION_DAYS || "14");
+  return (isNaN(days) || days <= 0 ? 14 : days) * 24 * 60 * 60 * 1000;
+}
+
+export function describeTopic(topic: PushTopic): string {
+  return topic.kind === "sos" ? formatLocation(topic) : `「${topic.keyword}」`;
+}
+
+const toInfo = (sub: PushSubscriptionRecord): PushSubscriptionInfo => ({
+  id: sub.id,
+  incident: sub.incident,
+  kind: sub.topic.kind,
+  label: describeTopic(sub.topic),
+  expiresAt: sub.expiresAt,
+});
+
+// Run store operations one after another so concurrent requests don't drop each other's changes
+function withStore<T>(fn: (store: PushStore) => Promise<T> | T): Promise<T> {
+  const run = state.queue.then(async () => {
+    if (!state.store) {
+      try {
+        const store = JSON.parse(await fs.readFile(STORE_FILE, "utf8")) as PushStore;
+        // Stores from before the incident registry only held the default incident
+        const slug = getDefaultIncident().slug;
+        if ("sos" in store.cursors && typeof store.cursors.sos !== "object") {
+          store.cursors = { [slug]: store.cursors as unknown as PushCursors };
+        }
+        store.subscriptions.forEach(s => {
+          s.incident ??= slug;
+          // Older SOS subscriptions weren't tied to a session, and are dropped at the next sweep
+          s.session ??= null;
+          s.source ??= "";
+        });
+        state.store = store;
+      } catch (err) {
+        if ((err as NodeJS.ErrnoException).code !== "ENOENT") throw err;
+        state.store = { cursors: {}, subscriptions: [] };
+      }
+    }
+    return fn(state.store);
+  });
+  state.queue = run.catch(() => {});
+  return run;
+}
+
+async function saveStore(store: PushStore): Promise<void> {
+  await fs.mkdir(path.dirname(STORE_FILE), { recursive: true });
+  await fs.writeFile(`${STORE_FILE}.tmp`, JSON.stringify(store, null, 2));
+  await fs.rename(`${STORE_FILE}.tmp`, STORE_FILE);
+}
+
+// Turn the request body's topic into a stored one; a string is a validation error
+export function validateTopic(value: unknown): PushTopic | string {
+  const topic = value as { kind?: unknown; location?: unknown; keyword?: unknown } | null;
+
+  if (topic?.kind === "sos") {
+    const location = parseLocation(typeof topic.location === "string" ? topic.location : "");
+    if (!location.block) return "請輸入座數，例如「2座」、「2座 18樓」或「2座 18樓 C室」";
+    return { kind: "sos", block: location.block, floor: location.floor, unit: location.unit };
+  }
+
+  if (topic?.kind === "sheet") {
+    const keyword = typeof topic.keyword === "string" ? topic.keyword.trim() : "";
+    if (keyword.length < 2) return "關鍵字最少要有兩個字";
+    if (keyword.length > MAX_KEYWORD_LENGTH) return `關鍵字不可超過 ${MAX_KEYWORD_LENGTH} 個字`;
+    return { kind: "sheet", keyword };
+  }
+
+  return "Unknown topic kind";
+}
+
+function isPushServiceEndpoint(endpoint: string): boolean {
+  let url: URL;
+  try {
+    url = new URL(endpoint);
+  } catch {
+    return false;
+  }
+  if (url.protocol !== "https:" || url.port || url.username || url.password) return false;
+  return PUSH_SERVICE_HOSTS.some(host => url.hostname === host || url.hostname.endsWith(`.${host}`));
+}
+
+export function validateSubscription(value: unknown): { endpoint: string; keys: PushSubscriptionKeys } | string {
+  const sub = value as { endpoint?: unknown; keys?: { p256dh?: unknown; auth?: unknown } } | null;
+  if (typeof sub?.endpoint !== "string" || !isPushServiceEndpoint(sub.endpoint)) return "Invalid push subscription endpoint";
+
+  const { p256dh, auth } = sub.keys ?? {};
+  if (typeof p256dh !== "string" || Buffer.from(p256dh, "base64url").length !== 65) return "Invalid push subscription key";
+  if (typeof auth !== "string" || Buffer.from(auth, "base64url").length !== 16) return "Invalid push subscription auth secret";
+
+  return { endpoint: sub.endpoint, keys: { p256dh, auth } };
+}
+
+const sameTopic = (a: PushTopic, b: PushTopic) => describeTopic(a) === describeTopic(b) && a.kind === b.kind;
+
+// Addresses are only counted, so only a hash of each is kept
+const sourceOf = (address: string) => createHash("sha256").update(address).digest("base64url").slice(0, 16);
+
+const sessionOf = (session: Session | null) =>
+  session && { user: session.user, sid: session.sid, expiresAt: session.exp };
+
+// SOS locations only go to a subscription whose volunteer session is still open
+const hasOpenSession = (sub: PushSubscriptionRecord, now: number) =>
+  sub.topic.kind !== "sos" || (!!sub.session && sub.session.expiresAt > now);
+
+// The new or renewed subscription, or why a limit stops it
+export async function addSubscription(
+  subscription: { endpoint: string; keys: PushSubscriptionKeys },
+  incident: Incident,
+  topic: PushTopic,
+  { session, address }: { session: Session | null; address: string | null }
+): Promise<PushSubscriptionInfo | string> {
+  return withStore(async (store) => {
+    const mine = store.subscriptions.filter(s => s.endpoint === subscription.endpoint);
+    const source = address ? sourceOf(address) : "";
+
+    // Subscribing again to the same thing just renews it
+    const existing = mine.find(s => s.incident === incident.slug && sameTopic(s.topic, topic));
+    if (existing) {
+      Object.assign(existing, {
+        keys: subscription.keys,
+        session: topic.kind === "sos" ? sessionOf(session) : null,
+        expiresAt: Date.now() + subscriptionLifetime(),
+        failures: 0,
+      });
+      await saveStore(store);
+      return toInfo(existing);
+    }
+
+    if (mine.length >= MAX_PER_ENDPOINT) {
+      return `每部裝置最多可訂閱 ${MAX_PER_ENDPOINT} 項通知`;
+    }
+    if (source && store.subscriptions.filter(s => s.source === source).length >= MAX_PER_ADDRESS) {
+      return "此網絡的通知訂閱已達上限，請稍後再試";
+    }
+    if (store.subscriptions.length >= MAX_SUBSCRIPTIONS) {
+      return "通知訂閱已達上限，請稍後再試";
+    }
+
+    const record: PushSubscriptionRecord = {
+      id: randomBytes(16).toString("base64url"),
+      incident: incident.slug,
+      ...subscription,
+      topic,
+      session: topic.kind === "sos" ? sessionOf(session) : null,
+      source,
+      createdAt: Date.now(),
+      expiresAt: Date.now() + subscriptionLifetime(),
+      lastSentAt: null,
+      failures: 0,
+    };
+    store.subscriptions.push(record);
+    await saveStore(store);
+    console.log(`[PUSH] New subscription to ${incident.slug} ${describeTopic(topic)}`);
+    return toInfo(record);
+  });
+}
+
+export async function removeSubscription(id: string): Promise<boolean> {
+  return withStore(async (store) => {
+    const before = store.subscriptions.length;
+    store.subscriptions = store.subscriptions.filter(s => s.id !== id);
+    if (store.subscriptions.length === before) return false;
+    await saveStore(store);
+    return true;
+  });
+}
+
+// The subscriptions out of `ids` that still exist, for the browser that holds them.
+// SOS subscriptions made in the browser's current session follow its renewed expiry.
+export async function getSubscriptions(ids: string[], session: Session | null): Promise<PushSubscriptionInfo[]> {
+  return withStore(async (store) => {
+    const found = store.subscriptions.filter(s => ids.includes(s.id));
+    const renewed = found.filter(s => session && s.session?.sid === session.sid && s.session.expiresAt !== session.exp);
+    if (renewed.length > 0) {
+      renewed.forEach(s => (s.session = sessionOf(session)));
+      await saveStore(store);
+    }
+    return found.map(toInfo);
+  });
+}
+
+// At logout: the SOS subscriptions made in that session stop at once
+export async function endSessionSubscriptions(sid: string): Promise<void> {
+  await withStore(async (store) => {
+    const kept = store.subscriptions.filter(s => s.session?.sid !== sid);
+    if (kept.length === store.subscriptions.length) return;
+
+    console.log(`[PUSH] Removed ${store.subscriptions.length - kept.length} subscription(s) at logout`);
+    store.subscriptions = kept;
+    await saveStore(store);
+  });
+}
+
+// Drop expired subscriptions, SOS ones whose session has expired, ones to a
+// host that isn't a push service (stored before those were checked), and all
+// of an incident's once it is closed or removed from the registry
+async function expireSubscriptions(): Promise<void> {
+  await withStore(async (store) => {
+    const open = new Set(getIncidents().filter(i => !isIncidentClosed(i)).map(i => i.slug));
+    const now = Date.now();
+    const kept = store.subscriptions.filter(s =>
+      open.has(s.incident) && s.expiresAt > now && hasOpenSession(s, now) && isPushServiceEndpoint(s.endpoint)
+    );
+    if (kept.length === store.subscriptions.length) return;
+
+    console.log(`[PUSH] Removed ${store.subscriptions.length - kept.length} expired subscription(s)`);
+    store.subscriptions = kept;
+    await saveStore(store);
+  });
+}
+
+const truncate = (text: string, length: number) => (text.length > length ? `${text.slice(0, length - 1)}…` : text);
+
+function sosMessage(sub: PushSubscriptionRecord, changes: SOSChange[]): PushMessage {
+  const label = describeTopic(sub.topic);
+  const unsubscribeUrl = `/push/unsubscribe?id=${sub.id}`;
+
+  if (changes.length === 1) {
+    const [{ type, tabId, key, item, previousStatus }] = changes;
+    return {
+      title: `${formatLocation(item) || label}：${item.status}`,
+      body: type === "added" ? `${item.location} 有新通報` : `狀態由「${previousStatus}」更新為「${item.status}」`,
+      url: `/${sub.incident}/sos?id=${tabId}&case=${encodeURIComponent(key)}`,
+      unsubscribeUrl,
+    };
+  }
+
+  return {
+    title: `${label}：${changes.length} 項更新`,
+    body: changes.slice(0, MAX_LISTED).map(c => `${formatLocation(c.item) || c.item.location} ${c.item.status}`).join("\n"),
+    url: `/${sub.incident}/sos?id=${changes[0].tabId}`,
+    unsubscribeUrl,
+  };
+}
+
+interface SheetRowChange {
+  gid: string;
+  tabName: string;
+  rowNumber: number;
+  cells: string[];
+}
+
+// Rows of the public sheet whose text is new since `previous`. Compared by
+// content rather than row number, so rows shifting down don't all look changed.
+function diffPublicSheet(previous: PublicSheetData, current: PublicSheetData): SheetRowChange[] {
+  const changes: SheetRowChange[] = [];
+
+  for (const tab of current.tabs) {
+    const table = getSheetTable(current, tab.gid);
+    const before = getSheetTable(previous, tab.gid);
+    // A tab that can't be parsed on either side would read as all rows new
+    if (!table || !before) continue;
+
+    const seen = new Set(before.rows.map(row => row.join("\t")));
+    table.rows.forEach((row, i) => {
+      if (!seen.has(row.join("\t"))) {
+        changes.push({ gid: tab.gid, tabName: tab.name, rowNumber: table.rowNumbers[i], cells: row });
+      }
+    });
+  }
+
+  return changes;
+}
+
+function sheetMessage(sub: PushSubscriptionRecord, rows: SheetRowChange[]): PushMessage {
+  const summary = (row: SheetRowChange) => truncate(row.cells.filter(Boolean).slice(0, 3).join(" · "), 80);
+  return {
+    title: `${describeTopic(sub.topic)}有${rows.length > 1 ? ` ${rows.length} 項` : ""}更新`,
+    body: rows.slice(0, MAX_LISTED).map(row => `${row.tabName}：${summary(row)}`).join("\n"),
+    url: `/${sub.incident}?gid=${rows[0].gid}&row=${rows[0].rowNumber}`,
+    unsubscribeUrl: `/push/unsubscribe?id=${sub.id}`,
+  };
+}
+
+async function send(store: PushStore, sub: PushSubscriptionRecord, message: PushMessage): Promise<void> {
+  try {
+    const status = await sendWebPush(sub, JSON.stringify(message), { ttl: MESSAGE_TTL, urgency: "high" });
+    if (status === 404 || status === 410) {
+      // The browser unsubscribed or the user cleared site data
+      store.subscriptions = store.subscriptions.filter(s => s !== sub);
+      console.log(`[PUSH] Subscription ${sub.id} gone (HTTP ${status}), removed`);
+    } else if (status >= 200 && status < 300) {
+      sub.lastSentAt = Date.now();
+      sub.failures = 0;
+    } else {
+      throw new Error(`HTTP ${status}`);
+    }
+  } catch (err) {
+    sub.failures++;
+    console.error(`[PUSH] Failed to notify ${sub.id} (${sub.failures} in a row):`, err instanceof Error ? err.message : err);
+    if (sub.failures >= MAX_FAILURES) {
+      store.subscriptions = store.subscriptions.filter(s => s !== sub);
+    }
+  }
+}
+
+const cursorsOf = (store: PushStore, incident: Incident) =>
+  (store.cursors[incident.slug] ??= { sos: null, sheets: null });
+
+// Compare a refresh (`data`, fetched at `timestamp`) with what was last seen
+// and notify every matching subscription
+async function notifySOSChanges(incident: Incident, timestamp: number, data: SOSSheetData): Promise<void> {
+  await withStore(async (store) => {
+    const cursors = cursorsOf(store, incident);
+    const since = cursors.sos;
+    cursors.sos = timestamp;
+
+    // Checked again here: a session can end between two expiry sweeps
+    const subs = store.subscriptions.filter(s =>
+      s.incident === incident.slug && s.topic.kind === "sos" && hasOpenSession(s, Date.now())
+    );
+    if (since !== null && since < timestamp && subs.length > 0 && !getPushConfigError()) {
+      const baseline = await getSOSCache(incident).getSnapshot(since);
+      const changes = baseline ? diffSOSData(baseline.data, data, incident).filter(c => c.type !== "removed") : [];
+
+      for (const sub of subs) {
+        const topic = sub.topic as Extract<PushTopic, { kind: "sos" }>;
+        const matches = changes.filter(({ item }) =>
+          item.block === topic.block &&
+          (!topic.floor || item.floor === topic.floor) &&
+          (!topic.unit || item.unit === topic.unit)
+        );
+        if (matches.length > 0) await send(store, sub, sosMessage(sub, matches));
+      }
+    }
+
+    await saveStore(store);
+  });
+}
+
+async function notifySheetChanges(incident: Incident, timestamp: number, data: PublicSheetData): Promise<void> {
+  await withStore(async (store) => {
+    const cursors = cursorsOf(store, incident);
+    const since = cursors.sheets;
+    cursors.sheets = timestamp;
+
+    const subs = store.subscriptions.filter(s => s.incident === incident.slug && s.topic.kind === "sheet");
+    if (since !== null && since < timestamp && subs.length > 0 && !getPushConfigError()) {
+      const baseline = await getSheetsCache(incident).getSnapshot(since);
+      const rows = baseline ? diffPublicSheet(baseline.data, data) : [];
+
+      for (const sub of subs) {
+        const keyword = (sub.topic as Extract<PushTopic, { kind: "sheet" }>).keyword.toLowerCase();
+        const matches = rows.filter(row => row.cells.some(cell => cell.toLowerCase().includes(keyword)));
+        if (matches.length > 0) await send(store, sub, sheetMessage(sub, matches));
+      }
+    }
+
+    await saveStore(store);
+  });
+}
+
+// Listen to every incident's caches, including ones added to the registry later
+function subscribe(incidents: Incident[]) {
+  for (const { slug } of incidents) {
+    if (state.subscribed.has(slug)) continue;
+    state.subscribed.add(slug);
+
+    const incident = getIncident(slug)!;
+    getSOSCache(incident).onRefresh(({ timestamp, changed, data }) => {
+      const current = getIncident(slug);
+      if (changed && current) {
+        notifySOSChanges(current, timestamp, data).catch(err => console.error(`[PUSH] Failed to notify ${slug} SOS changes:`, err));
+      }
+    });
+    getSheetsCache(incident).onRefresh(({ timestamp, changed, data }) => {
+      const current = getIncident(slug);
+      if (changed && current) {
+        notifySheetChanges(current, timestamp, data).catch(err => console.error(`[PUSH] Failed to notify ${slug} sheet changes:`, err));
+      }
+    });
+  }
+}
+
+// Keep the caches refreshing while anyone is subscribed, and clear out expired subscriptions
+async function tick(): Promise<void> {
+  const incidents = getIncidents();
+  subscribe(incidents);
+  await expireSubscriptions();
+  if (getPushConfigError()) return;
+
+  const topics = await withStore((store) => new Set(store.subscriptions.map(s => `${s.incident}/${s.topic.kind}`)));
+  for (const incident of incidents) {
+    if (topics.has(`${incident.slug}/sos`) && !getSOSConfigError(incident)) {
+      getSOSCache(incident).get().catch(err => console.error(`[PUSH] ${incident.slug} SOS refresh failed:`, err));
+    }
+    if (topics.has(`${incident.slug}/sheet`) && incident.sheetId) {
+      getSheetsCache(incident).get().catch(err => console.error(`[PUSH] ${incident.slug} sheet refresh failed:`, err));
+    }
+  }
+}
+
+// Called once at server start (src/instrumentation.ts)
+export function startPush() {
+  if (state.started) return;
+  state.started = true;
+
+  const run = () => tick().catch(err => console.error("[PUSH]", err));
+  setInterval(run, TICK_INTERVAL).unref?.();
+  run();
+}
@@ -0,0 +1,20 @@
+import { describe, expect, it } from "vitest";
+import { redactText } from "@/lib/redact";
+
+describe("redactText", () => {
+  it("masks Hong Kong phone numbers", () => {
+    expect(redactText("請致電 91234567")).toBe("請致電 [已隱藏]");
+    expect(redactText("請致電 9123 4567")).toBe("請致電 [已隱藏]");
+    expect(redactText("請致電 +852 2123-4567")).toBe("請致電 [已隱藏]");
+  });
+
+  it("masks numbers that only look like dates", () => {
+    expect(redactText("請致電 20231215")).toBe("請致電 [已隱藏]");
+    expect(redactText("31122024 下午仍在單位")).toBe("[已隱藏] 下午仍在單位");
+  });
+
+  it("leaves dates labelled with 年/月/日 alone", () => {
+    expect(redactText("日期：20251127 下午仍在單位")).toBe("日期：20251127 下午仍在單位");
+    expect(redactText("11月26日 27112025")).toBe("11月26日 27112025");
+  });
+});
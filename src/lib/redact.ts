@@ -0,0 +1,106 @@
+import { cellText } from "@/lib/htmlTable";
+
+// Masks personal data in htmlview pages before they are cached and re-served:
+// Hong Kong phone numbers, HKID-like numbers and email addresses in any cell,
+// plus every cell under a header listed in REDACT_COLUMNS.
+
+const MASK = "[已隱藏]";
+
+// Eight digits that read as a date, 20251127 or 27112025, right after a
+// 年/月/日/日期 label. Bare ones could as well be a phone number, so stay masked.
+const LABELLED_DATE = String.raw`(?<=(?:[年月日]|日期)[\s:：]*)(?:20\d{2}(?:0[1-9]|1[0-2])(?:0[1-9]|[12]\d|3[01])|(?:0[1-9]|[12]\d|3[01])(?:0[1-9]|1[0-2])20\d{2})(?!\d)`;
+
+const PATTERNS: RegExp[] = [
+  // Email addresses
+  /[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}/g,
+  // HKID: one or two letters, six digits, optional check digit in brackets
+  /(?<![A-Za-z0-9])[A-Z]{1,2}\d{6}(?:\s*[(（]\s*[0-9A]\s*[)）]|[0-9A])?(?![A-Za-z0-9])/gi,
+  // HK phone numbers: 8 digits starting 2-9, optional space or dash in the middle,
+  // after +852 or on their own unless labelled as a date
+  new RegExp(String.raw`(?<!\d)(?:\+?852[\s-]?[2-9]\d{3}[\s-]?\d{4}|(?!${LABELLED_DATE})[2-9]\d{3}[\s-]?\d{4})(?!\d)`, "g"),
+];
+
+// Header keywords whose whole column is blanked, comma separated
+const DEFAULT_REDACT_COLUMNS = "電話,聯絡電話,身份證,電郵,email,phone";
+
+function redactColumnKeywords(): string[] {
+  return (process.env.REDACT_COLUMNS ?? DEFAULT_REDACT_COLUMNS)
+    .split(",")
+    .map(k => k.trim().toLowerCase())
+    .filter(Boolean);
+}
+
+// Mask phone numbers, HKID-like numbers and emails in plain text
+export function redactText(text: string): string {
+  return PATTERNS.reduce((result, pattern) => result.replace(pattern, MASK), text);
+}
+
+// Apply the patterns to text between tags only, and drop mailto:/tel: links
+function maskContent(content: string): string {
+  return content
+    .split(/(<[^>]*>)/)
+    .map(part => {
+      if (part.startsWith("<")) {
+        return part.replace(/\s+href=(["'])(?:mailto|tel):[^"']*\1/gi, "");
+      }
+      return redactText(part);
+    })
+    .join("");
+}
+
+export interface RedactionResult {
+  html: string;
+  cells: number; // cells whose content was changed
+}
+
+export function redactHtmlView(html: string): RedactionResult {
+  const keywords = redactColumnKeywords();
+  let cells = 0;
+
+  // Column index -> blanked, decided by the first row with any text (the header row)
+  let blankedColumns: Set<number> | null = null;
+  // Cells covered by a rowspan from an earlier row: row index -> column indexes
+  const covered = new Map<number, Set<number>>();
+  let rowIndex = 0;
+
+  const redacted = html.replace(/(<tr[^>]*>)([\s\S]*?)(<\/tr>)/gi, (_row, open: string, body: string, close: string) => {
+    if (!/<td/i.test(body)) return open + body + close;
+
+    const skip = covered.get(rowIndex) || new Set<number>();
+    const isHeader = blankedColumns === null;
+    const headerColumns = new Set<number>();
+    let column = 0;
+
+    const newBody = body.replace(/(<td([^>]*)>)([\s\S]*?)(<\/td>)/gi, (_cell, tdOpen: string, attrs: string, content: string, tdClose: string) => {
+      while (skip.has(column)) column++;
+
+      const colspan = parseInt(attrs.match(/colspan="(\d+)"/i)?.[1] || "1");
+      const rowspan = parseInt(attrs.match(/rowspan="(\d+)"/i)?.[1] || "1");
+      const start = column;
+      column += colspan;
+
+      for (let r = 1; r < rowspan; r++) {
+        const set = covered.get(rowIndex + r) || new Set<number>();
+        for (let c = start; c < start + colspan; c++) set.add(c);
+        covered.set(rowIndex + r, set);
+      }
+
+      if (isHeader) {
+        const text = cellText(content).toLowerCase();
+        if (text && keywords.some(k => text.includes(k))) headerColumns.add(start);
+      }
+
+      const newContent = !isHeader && blankedColumns?.has(start) && cellText(content) ? "" : maskContent(content);
+      if (newContent !== content) cells++;
+      return tdOpen + newContent + tdClose;
+    });
+
+    if (isHeader && cellText(body.replace(/<th[^>]*>[\s\S]*?<\/th>/gi, ""))) {
+      blankedColumns = headerColumns;
+    }
+    rowIndex++;
+    return open + newBody + close;
+  });
+
+  return { html: redacted, cells };
+}
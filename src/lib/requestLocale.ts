@@ -0,0 +1,9 @@
+import { cookies, headers } from "next/headers";
+import { isLocale, Locale, LOCALE_COOKIE, negotiateLocale } from "@/lib/i18n";
+
+// Language of the current request: the switcher's cookie, else the browser's Accept-Language
+export async function getRequestLocale(): Promise<Locale> {
+  const chosen = (await cookies()).get(LOCALE_COOKIE)?.value;
+  if (isLocale(chosen)) return chosen;
+  return negotiateLocale((await headers()).get("accept-language"));
+}
@@ -0,0 +1,110 @@
+import { MessageKey, Translate } from "@/lib/i18n";
+import { ALL_STATUSES, CaseFilters, TRIAGE_STATES, TriageState, UNTRIAGED } from "@/lib/sosFilters";
+import { formatHongKongTime } from "@/lib/timestamp";
+
+// Paper rosters for on-site teams: SOS cases grouped by block, then floor,
+// then unit. Shared by the print view (/sos/print) and the PDF download, so
+// it stays free of server-only imports. Text comes in the reader's language
+// through `t`; times stay in the language-neutral "2025-11-27 09:38" form.
+
+export const UNKNOWN_LOCATION = "未知";
+
+export interface RosterCase {
+  key: string;
+  location: string;
+  block: string | null;
+  floor: string | null;
+  unit: string | null;
+  status: string;
+  details: string;
+  timestamp: string;
+  timestampISO: string | null;
+  resolved: boolean;
+  triage?: { state: TriageState | null; assignee: string } | null;
+}
+
+export interface RosterFloor<T extends RosterCase> {
+  floor: string; // UNKNOWN_LOCATION when the floor couldn't be parsed
+  cases: T[];
+}
+
+export interface RosterBlock<T extends RosterCase> {
+  block: string; // UNKNOWN_LOCATION when the block couldn't be parsed
+  floors: RosterFloor<T>[];
+  count: number;
+}
+
+// Numeric-aware order, with unknown last
+function compareLabels(a: string, b: string): number {
+  if (a === UNKNOWN_LOCATION || b === UNKNOWN_LOCATION) {
+    return Number(a === UNKNOWN_LOCATION) - Number(b === UNKNOWN_LOCATION);
+  }
+  return a.localeCompare(b, "zh-Hant", { numeric: true });
+}
+
+export function groupByBlock<T extends RosterCase>(items: T[]): RosterBlock<T>[] {
+  const blocks = new Map<string, Map<string, T[]>>();
+
+  for (const item of items) {
+    const block = item.block || UNKNOWN_LOCATION;
+    const floor = item.floor || UNKNOWN_LOCATION;
+    if (!blocks.has(block)) blocks.set(block, new Map());
+    const floors = blocks.get(block)!;
+    floors.set(floor, [...(floors.get(floor) || []), item]);
+  }
+
+  return Array.from(blocks, ([block, floors]) => ({
+    block,
+    floors: Array.from(floors, ([floor, cases]) => ({
+      floor,
+      // Unit order, then raw text for cases without a unit
+      cases: cases.sort((a, b) => compareLabels(a.unit || UNKNOWN_LOCATION, b.unit || UNKNOWN_LOCATION) || a.location.localeCompare(b.location)),
+    })).sort((a, b) => compareLabels(a.floor, b.floor)),
+    count: Array.from(floors.values()).reduce((sum, cases) => sum + cases.length, 0),
+  })).sort((a, b) => compareLabels(a.block, b.block));
+}
+
+export const blockHeading = (block: string, t: Translate) =>
+  block === UNKNOWN_LOCATION ? t("roster.unknownBlock") : t("location.block", { block });
+
+export const floorHeading = (floor: string, t: Translate) =>
+  floor === UNKNOWN_LOCATION ? t("roster.unknownFloor") : t("location.floor", { floor });
+
+// Roster columns; width is a share of the table width
+export const ROSTER_COLUMNS: { header: MessageKey; width: number; value: (item: RosterCase, t: Translate) => string }[] = [
+  { header: "roster.column.unit", width: 0.1, value: (item, t) => item.unit ? t("location.unit", { unit: item.unit }) : item.location },
+  { header: "roster.column.status", width: 0.14, value: (item) => item.status },
+  { header: "roster.column.details", width: 0.36, value: (item) => item.details },
+  {
+    header: "roster.column.triage",
+    width: 0.16,
+    value: (item, t) => [
+      item.triage?.state && t(`triage.${item.triage.state}`),
+      item.triage?.assignee,
+    ].filter(Boolean).join(" · "),
+  },
+  {
+    header: "roster.column.lastReport",
+    width: 0.16,
+    value: (item, t) => item.timestampISO ? item.timestampISO.slice(5, 16).replace("T", " ") : t("sos.unknownTime"),
+  },
+  { header: "roster.column.check", width: 0.08, value: () => "" }, // ticked by hand on site
+];
+
+// Header line saying how old the printed data is
+export function describeDataAge(generatedAt: number, dataUpdatedAt: number | null, t: Translate): string {
+  if (!dataUpdatedAt) return t("roster.dataAgeUnknown");
+  const minutes = Math.max(0, Math.round((generatedAt - dataUpdatedAt) / 60000));
+  return t("roster.dataAge", { time: formatHongKongTime(dataUpdatedAt), minutes });
+}
+
+// Filters applied to a roster, for its header, e.g. ["現時情況：需要協助"]
+export function describeFilters({ status, triage, query }: CaseFilters, t: Translate): string[] {
+  const state = TRIAGE_STATES.find(s => s.value === triage)?.value;
+  return [
+    status && status !== ALL_STATUSES && t("roster.filterStatus", { value: status }),
+    triage && triage !== ALL_STATUSES &&
+      t("roster.filterTriage", { value: triage === UNTRIAGED ? t("triage.none") : state ? t(`triage.${state}`) : triage }),
+    query && t("roster.filterQuery", { value: query }),
+  ].filter((part): part is string => !!part);
+}
@@ -0,0 +1,47 @@
+import { inflateSync } from "zlib";
+import { describe, expect, it } from "vitest";
+import { DEFAULT_LOCALE, translator } from "@/lib/i18n";
+import { groupByBlock, RosterCase } from "@/lib/roster";
+import { buildRosterPdf } from "@/lib/rosterPdf";
+
+const rosterCase = (details: string): RosterCase => ({
+  key: "2-18-C",
+  location: "2座 18樓 C室",
+  block: "2",
+  floor: "18",
+  unit: "C",
+  status: "被困求救",
+  details,
+  timestamp: "26/11 16:05",
+  timestampISO: "2025-11-26T16:05:00+08:00",
+  resolved: false,
+});
+
+// Baselines of every piece of text, per page, measured from the bottom
+function textPositions(pdf: Buffer): number[][] {
+  const text = pdf.toString("latin1");
+  const pages: number[][] = [];
+  for (const match of text.matchAll(/<< \/Filter \/FlateDecode \/Length (\d+) >>\nstream\n/g)) {
+    const start = match.index + match[0].length;
+    const content = inflateSync(pdf.subarray(start, start + Number(match[1]))).toString("latin1");
+    pages.push(Array.from(content.matchAll(/ ([\d.]+) Td /g), m => Number(m[1])));
+  }
+  return pages;
+}
+
+describe("buildRosterPdf", () => {
+  it("keeps a row with very long cells on one page", () => {
+    const pdf = buildRosterPdf(groupByBlock([rosterCase("住戶被困，需要協助。".repeat(400))]), {
+      tabName: "求救個案",
+      generatedAt: Date.parse("2025-11-26T10:00:00Z"),
+      dataUpdatedAt: null,
+      filters: [],
+      t: translator(DEFAULT_LOCALE),
+    });
+
+    expect(pdf.toString("latin1")).toContain("/Count 1 >>");
+    const [page] = textPositions(pdf);
+    expect(Math.min(...page)).toBeGreaterThanOrEqual(36); // the bottom margin
+    expect(page.length).toBeGreaterThan(50); // the details were wrapped, then cut short
+  });
+});
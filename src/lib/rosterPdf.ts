@@ -0,0 +1,164 @@
+import {
+  buildPdf,
+  createPage,
+  drawLine,
+  drawText,
+  fillRect,
+  PAGE_HEIGHT,
+  PAGE_WIDTH,
+  PdfPage,
+  strokeRect,
+  textWidth,
+  wrapText,
+} from "@/lib/pdf";
+import { Translate } from "@/lib/i18n";
+import { blockHeading, describeDataAge, floorHeading, ROSTER_COLUMNS, RosterBlock, RosterCase } from "@/lib/roster";
+import { formatHongKongTime } from "@/lib/timestamp";
+
+// Same layout as the /sos/print view: one block per sheet (continuing onto
+// more pages if needed), a floor heading row before each floor's units, and
+// the generated-at time and data age at the top of every page.
+
+const MARGIN = 36;
+const TABLE_WIDTH = PAGE_WIDTH - MARGIN * 2;
+const FONT_SIZE = 9;
+const LINE_HEIGHT = 11.5;
+const CELL_PADDING = 3;
+const HEADING_HEIGHT = LINE_HEIGHT + CELL_PADDING * 2; // column headings and floor headings
+// Lines a cell may wrap to so its row still fits below the headings of a new page
+const MAX_CELL_LINES = Math.floor((PAGE_HEIGHT - MARGIN * 2 - 36 - HEADING_HEIGHT * 2 - CELL_PADDING * 2) / LINE_HEIGHT);
+
+export interface RosterPdfOptions {
+  tabName: string;
+  generatedAt: number;
+  dataUpdatedAt: number | null; // when the tab was last fetched from the sheet
+  filters: string[]; // filters applied, described for the header
+  t: Translate; // the reader's language
+}
+
+const columnWidths = ROSTER_COLUMNS.map(column => column.width * TABLE_WIDTH);
+
+// Wrapped lines of a cell, cut short with "…" past MAX_CELL_LINES
+function cellLines(text: string, width: number): string[] {
+  const lines = wrapText(text, width, FONT_SIZE);
+  if (lines.length <= MAX_CELL_LINES) return lines;
+
+  const kept = lines.slice(0, MAX_CELL_LINES);
+  let last = Array.from(kept[kept.length - 1]);
+  while (last.length > 0 && textWidth(last.join("") + "…", FONT_SIZE) > width) last = last.slice(0, -1);
+  kept[kept.length - 1] = last.join("") + "…";
+  return kept;
+}
+
+function drawRow(page: PdfPage, y: number, cells: string[][], height: number) {
+  let x = MARGIN;
+  cells.forEach((lines, i) => {
+    lines.forEach((line, l) => drawText(page, x + CELL_PADDING, y + CELL_PADDING + FONT_SIZE + l * LINE_HEIGHT, FONT_SIZE, line));
+    drawLine(page, x, y, x, y + height);
+    x += columnWidths[i];
+  });
+  drawLine(page, x, y, x, y + height);
+  drawLine(page, MARGIN, y + height, MARGIN + TABLE_WIDTH, y + height);
+}
+
+export function buildRosterPdf<T extends RosterCase>(blocks: RosterBlock<T>[], options: RosterPdfOptions): Buffer {
+  const pages: PdfPage[] = [];
+  let page = createPage();
+  let y = 0;
+
+  const { t } = options;
+
+  const startPage = (heading: string, count: number | null) => {
+    page = createPage();
+    pages.push(page);
+
+    drawText(
+      page,
+      MARGIN,
+      MARGIN + 14,
+      14,
+      count === null
+        ? t("roster.continuedHeading", { heading, tab: options.tabName })
+        : t("roster.heading", { heading, tab: options.tabName, n: count })
+    );
+    drawText(
+      page,
+      MARGIN,
+      MARGIN + 28,
+      8,
+      [
+        t("roster.generatedAt", { time: formatHongKongTime(options.generatedAt) }),
+        describeDataAge(options.generatedAt, options.dataUpdatedAt, t),
+        ...options.filters,
+      ].join(" · ")
+    );
+
+    // Column headings
+    y = MARGIN + 36;
+    fillRect(page, MARGIN, y, TABLE_WIDTH, HEADING_HEIGHT, 0.85);
+    drawLine(page, MARGIN, y, MARGIN + TABLE_WIDTH, y);
+    drawRow(page, y, ROSTER_COLUMNS.map(column => [t(column.header)]), HEADING_HEIGHT);
+    y += HEADING_HEIGHT;
+  };
+
+  const fits = (height: number) => y + height <= PAGE_HEIGHT - MARGIN;
+
+  if (blocks.length === 0) {
+    startPage(t("roster.title"), 0);
+    drawText(page, MARGIN, y + 24, 11, t("roster.empty"));
+  }
+
+  for (const block of blocks) {
+    startPage(blockHeading(block.block, t), block.count);
+
+    for (const floor of block.floors) {
+      let continued = false;
+
+      const drawFloorHeading = () => {
+        fillRect(page, MARGIN, y, TABLE_WIDTH, HEADING_HEIGHT, 0.93);
+        drawText(
+          page,
+          MARGIN + CELL_PADDING,
+          y + CELL_PADDING + FONT_SIZE,
+          FONT_SIZE,
+          t("roster.floorCount", { floor: floorHeading(floor.floor, t), n: floor.cases.length }) + (continued ? t("roster.continued") : "")
+        );
+        drawLine(page, MARGIN, y, MARGIN, y + HEADING_HEIGHT);
+        drawLine(page, MARGIN + TABLE_WIDTH, y, MARGIN + TABLE_WIDTH, y + HEADING_HEIGHT);
+        drawLine(page, MARGIN, y + HEADING_HEIGHT, MARGIN + TABLE_WIDTH, y + HEADING_HEIGHT);
+        y += HEADING_HEIGHT;
+      };
+
+      // Keep a floor heading together with at least its first row
+      if (!fits(HEADING_HEIGHT + LINE_HEIGHT * 2 + CELL_PADDING * 2)) startPage(blockHeading(block.block, t), null);
+      drawFloorHeading();
+      continued = true;
+
+      for (const item of floor.cases) {
+        const cells = ROSTER_COLUMNS.map((column, i) =>
+          cellLines(column.value(item, t), columnWidths[i] - CELL_PADDING * 2)
+        );
+        const height = Math.max(...cells.map(lines => lines.length)) * LINE_HEIGHT + CELL_PADDING * 2;
+
+        if (!fits(height)) {
+          startPage(blockHeading(block.block, t), null);
+          drawFloorHeading();
+        }
+
+        drawRow(page, y, cells, height);
+        // Tick box in the last column
+        const boxSize = 9;
+        strokeRect(page, MARGIN + TABLE_WIDTH - columnWidths[columnWidths.length - 1] / 2 - boxSize / 2, y + CELL_PADDING + 1, boxSize, boxSize);
+        y += height;
+      }
+    }
+  }
+
+  // Page numbers, now that the total is known
+  pages.forEach((page, i) => {
+    const label = t("roster.page", { page: i + 1, pages: pages.length });
+    drawText(page, PAGE_WIDTH - MARGIN - textWidth(label, 8), MARGIN + 14, 8, label);
+  });
+
+  return buildPdf(pages, `${t("roster.title")} - ${options.tabName}`);
+}
@@ -0,0 +1,117 @@
+import { Incident } from "@/lib/incidents";
+import { getSheetsCache, getSheetTable } from "@/lib/sheets";
+import { getSOSCache, getSOSConfigError, groupIntoCases, processSheetData, SOSItem } from "@/lib/sos";
+import { formatLocation } from "@/lib/location";
+
+export interface SearchResult {
+  sheet: "sheets" | "sos";
+  tabName: string;
+  tab: string; // gid for the public sheet, sheet id for the SOS sheet
+  row: string; // sheet row number for the public sheet, case key for the SOS sheet
+  field: string; // column header, or the SOS field that matched
+  text: string; // the matching value
+  summary: string; // short description of the row, for the result list
+  url: string; // page that shows this row
+}
+
+export interface SearchResponse {
+  results: SearchResult[];
+  errors: string[]; // sources that couldn't be searched
+}
+
+const MAX_RESULTS_PER_SHEET = 50;
+
+const SOS_FIELDS: [keyof SOSItem, string][] = [
+  ["location", "位置"],
+  ["details", "詳細情況"],
+  ["source", "消息來源"],
+  ["status", "現時情況"],
+];
+
+async function searchPublicSheet(incident: Incident, query: string): Promise<SearchResult[]> {
+  const { data } = await getSheetsCache(incident).get();
+  const results: SearchResult[] = [];
+
+  for (const tab of data.tabs) {
+    const table = getSheetTable(data, tab.gid);
+    if (!table) continue;
+
+    table.rows.forEach((row, i) => {
+      const index = row.findIndex(cell => cell.toLowerCase().includes(query));
+      if (index === -1 || results.length >= MAX_RESULTS_PER_SHEET) return;
+
+      const rowNumber = table.rowNumbers[i];
+      results.push({
+        sheet: "sheets",
+        tabName: tab.name,
+        tab: tab.gid,
+        row: String(rowNumber),
+        field: table.columns[index] || "",
+        text: row[index],
+        summary: row.filter(Boolean).slice(0, 3).join(" · "),
+        url: `/${incident.slug}?gid=${tab.gid}&row=${rowNumber}`,
+      });
+    });
+  }
+
+  return results;
+}
+
+async function searchSOSSheet(incident: Incident, query: string): Promise<SearchResult[]> {
+  const { data } = await getSOSCache(incident).get();
+  const results: SearchResult[] = [];
+
+  for (const tab of data.tabs) {
+    const cases = groupIntoCases(processSheetData(data.sheets.get(tab.id)?.value || [], incident, tab.name));
+
+    for (const item of cases) {
+      if (results.length >= MAX_RESULTS_PER_SHEET) break;
+
+      // Match against every submission for the case, newest first
+      const match = [...item.history].reverse()
+        .flatMap(entry => SOS_FIELDS.map(([field, label]) => ({ label, value: String(entry[field] || "") })))
+        .concat([{ label: "位置", value: formatLocation(item) }])
+        .find(({ value }) => value.toLowerCase().includes(query));
+      if (!match) continue;
+
+      results.push({
+        sheet: "sos",
+        tabName: tab.name,
+        tab: String(tab.id),
+        row: item.key,
+        field: match.label,
+        text: match.value,
+        summary: [item.location, item.status].filter(Boolean).join(" · "),
+        url: `/${incident.slug}/sos?id=${tab.id}&case=${encodeURIComponent(item.key)}`,
+      });
+    }
+  }
+
+  return results;
+}
+
+// Search every cached tab of both of an incident's spreadsheets; the SOS sheet only for logged-in volunteers
+export async function searchAll(incident: Incident, rawQuery: string, includeSOS: boolean): Promise<SearchResponse> {
+  const query = rawQuery.trim().toLowerCase();
+  const response: SearchResponse = { results: [], errors: [] };
+  if (!query) return response;
+
+  const sources: [string, boolean, () => Promise<SearchResult[]>][] = [
+    ["public sheet", !!incident.sheetId, () => searchPublicSheet(incident, query)],
+    ["SOS sheet", includeSOS && !getSOSConfigError(incident), () => searchSOSSheet(incident, query)],
+  ];
+
+  const resultsBySource = await Promise.all(sources.map(async ([name, configured, search]) => {
+    if (!configured) return [];
+    try {
+      return await search();
+    } catch (err) {
+      console.error(`[Search] Failed to search ${name}:`, err);
+      response.errors.push(name);
+      return [];
+    }
+  }));
+
+  response.results = resultsBySource.flat();
+  return response;
+}
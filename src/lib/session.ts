@@ -0,0 +1,88 @@
+import { createHmac, randomBytes, timingSafeEqual } from "crypto";
+
+// Signed session cookie for volunteers: base64url(JSON payload) + "." + HMAC-SHA256.
+// Only verifies signatures, so the proxy can use it without touching the user store.
+
+export type Role = "viewer" | "coordinator";
+
+export interface Session {
+  user: string; // username, or "passcode" for the shared passcode
+  role: Role;
+  sid: string; // random per login and kept when the session is renewed; push subscriptions end with it
+  exp: number; // ms since epoch
+}
+
+export const SESSION_COOKIE = "sos_session";
+
+const ROLE_RANK: Record<Role, number> = { viewer: 1, coordinator: 2 };
+
+export function sessionTtl(): number {
+  const hours = parseFloat(process.env.SESSION_TTL_HOURS || "12");
+  return (isNaN(hours) || hours <= 0 ? 12 : hours) * 60 * 60 * 1000;
+}
+
+function getSecret(): string | null {
+  return process.env.AUTH_SECRET || null;
+}
+
+export function getAuthConfigError(): string | null {
+  const secret = getSecret();
+  if (!secret) return "AUTH_SECRET environment variable not configured";
+  if (secret.length < 32) return "AUTH_SECRET must be at least 32 characters";
+  return null;
+}
+
+function sign(payload: string, secret: string): string {
+  return createHmac("sha256", secret).update(payload).digest("base64url");
+}
+
+// A new login gets a new sid; renewing passes the current one on
+export function createSessionToken(
+  user: string,
+  role: Role,
+  sid: string = randomBytes(12).toString("base64url")
+): { token: string; session: Session } {
+  const secret = getSecret();
+  if (!secret) throw new Error("AUTH_SECRET environment variable not configured");
+
+  const session: Session = { user, role, sid, exp: Date.now() + sessionTtl() };
+  const payload = Buffer.from(JSON.stringify(session)).toString("base64url");
+  return { token: `${payload}.${sign(payload, secret)}`, session };
+}
+
+// Returns null for a missing, tampered or expired token
+export function verifySessionToken(token: string | undefined): Session | null {
+  const secret = getSecret();
+  if (!token || !secret) return null;
+
+  const [payload, signature] = token.split(".");
+  if (!payload || !signature) return null;
+
+  const expected = Buffer.from(sign(payload, secret));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) return null;
+
+  try {
+    const session = JSON.parse(Buffer.from(payload, "base64url").toString("utf8")) as Session;
+    if (!(session.role in ROLE_RANK) || typeof session.sid !== "string" || typeof session.exp !== "number" || session.exp < Date.now()) {
+      return null;
+    }
+    return session;
+  } catch {
+    return null;
+  }
+}
+
+export function hasRole(session: Session | null, role: Role): boolean {
+  return !!session && ROLE_RANK[session.role] >= ROLE_RANK[role];
+}
+
+export function sessionCookieOptions(maxAge: number) {
+  return {
+    httpOnly: true,
+    sameSite: "lax" as const,
+    secure: process.env.NODE_ENV === "production",
+    path: "/",
+    maxAge: Math.max(0, Math.floor(maxAge / 1000)),
+  };
+}
@@ -0,0 +1,106 @@
+import { addSheetTab, appendSheetData, getSheetData, getSheetTabs, updateSheetData } from "@/lib/google";
+import { getDataSource } from "@/lib/dataSource";
+
+// The few Sheets calls the triage write-back needs. Ranges use A1 notation,
+// e.g. 'Tab name'!A2:H2, and row numbers are 1-based like the sheet itself.
+export interface SheetsWriteClient {
+  name: "google" | "fake";
+  listTabs(spreadsheetId: string): Promise<string[]>;
+  addTab(spreadsheetId: string, title: string): Promise<void>;
+  read(spreadsheetId: string, range: string): Promise<string[][]>;
+  update(spreadsheetId: string, range: string, values: string[][]): Promise<void>;
+  append(spreadsheetId: string, range: string, values: string[][]): Promise<void>;
+}
+
+const googleWriteClient: SheetsWriteClient = {
+  name: "google",
+  listTabs: async (spreadsheetId) => (await getSheetTabs(spreadsheetId)).map(tab => tab.title),
+  addTab: addSheetTab,
+  read: getSheetData,
+  update: updateSheetData,
+  append: appendSheetData,
+};
+
+// In-memory spreadsheet for offline runs and for exercising the outbox without Google.
+// `failNext` makes the next calls throw, to simulate quota errors and outages.
+export interface FakeSheetsClient extends SheetsWriteClient {
+  tabs: Map<string, string[][]>; // "<spreadsheetId>/<tab>" -> rows
+  failNext(count: number, message?: string): void;
+}
+
+export function createFakeSheetsClient(): FakeSheetsClient {
+  const tabs = new Map<string, string[][]>();
+  let failures = 0;
+  let failureMessage = "";
+
+  const parseRange = (spreadsheetId: string, range: string) => {
+    const match = range.match(/^'((?:[^']|'')+)'!(?:[A-Z]+(\d+)?)(?::[A-Z]+(\d+)?)?$/);
+    if (!match) throw new Error(`Fake Sheets client can't parse range ${range}`);
+
+    const key = `${spreadsheetId}/${match[1].replace(/''/g, "'")}`;
+    if (!tabs.has(key)) throw new Error(`Unable to parse range: ${range}`);
+    return { rows: tabs.get(key)!, startRow: match[2] ? parseInt(match[2]) : 1 };
+  };
+
+  const maybeFail = () => {
+    if (failures > 0) {
+      failures--;
+      throw new Error(failureMessage);
+    }
+  };
+
+  return {
+    name: "fake",
+    tabs,
+
+    failNext(count, message = "Fake Sheets client: simulated failure") {
+      failures = count;
+      failureMessage = message;
+    },
+
+    async listTabs(spreadsheetId) {
+      maybeFail();
+      const prefix = `${spreadsheetId}/`;
+      return Array.from(tabs.keys()).filter(k => k.startsWith(prefix)).map(k => k.slice(prefix.length));
+    },
+
+    async addTab(spreadsheetId, title) {
+      maybeFail();
+      const key = `${spreadsheetId}/${title}`;
+      if (tabs.has(key)) throw new Error(`A sheet with the name "${title}" already exists`);
+      tabs.set(key, []);
+    },
+
+    async read(spreadsheetId, range) {
+      maybeFail();
+      const { rows, startRow } = parseRange(spreadsheetId, range);
+      return rows.slice(startRow - 1).map(row => [...row]);
+    },
+
+    async update(spreadsheetId, range, values) {
+      maybeFail();
+      const { rows, startRow } = parseRange(spreadsheetId, range);
+      values.forEach((row, i) => {
+        rows[startRow - 1 + i] = [...row];
+      });
+      for (let i = 0; i < rows.length; i++) rows[i] ??= [];
+    },
+
+    async append(spreadsheetId, range, values) {
+      maybeFail();
+      const { rows } = parseRange(spreadsheetId, range);
+      rows.push(...values.map(row => [...row]));
+    },
+  };
+}
+
+// Kept on globalThis so the fake sheet survives dev hot reloads like the caches do
+const globalForWriter = globalThis as unknown as { fakeSheetsClient?: FakeSheetsClient };
+
+// The fake client goes with DATA_SOURCE=file, so offline runs never touch Google
+export function getSheetsWriteClient(): SheetsWriteClient {
+  if (getDataSource().name === "file") {
+    return (globalForWriter.fakeSheetsClient ??= createFakeSheetsClient());
+  }
+  return googleWriteClient;
+}
@@ -0,0 +1,128 @@
+import { getDataSource } from "@/lib/dataSource";
+import { getIncident, Incident } from "@/lib/incidents";
+import { parseHtmlViewTable, SheetTable } from "@/lib/htmlTable";
+import { redactHtmlView } from "@/lib/redact";
+import { createSnapshotCache, SnapshotCache } from "@/lib/snapshotCache";
+import { fetchTabEntries, TabEntry, tabContents, toTabEntry } from "@/lib/tabCache";
+
+export interface SheetTab {
+  name: string;
+  gid: string;
+  pageUrl: string;
+}
+
+export interface PublicSheetData {
+  tabs: SheetTab[];
+  sheets: Map<string, TabEntry<string>>; // gid -> last good html content
+}
+
+interface StoredPublicSheetData {
+  tabs: SheetTab[];
+  sheets: [string, TabEntry<string> | string][];
+}
+
+const CACHE_TTL = 5 * 60 * 1000; // 5 minutes in milliseconds
+
+// Extract sheet tabs from htmlview JavaScript
+function parseSheetTabs(html: string): SheetTab[] {
+  const tabs: SheetTab[] = [];
+
+  // Pattern: items.push({name: "xxx", pageUrl: "xxx", gid: "xxx", ...})
+  const matches = html.matchAll(/items\.push\(\{name:\s*"([^"]+)",\s*pageUrl:\s*"([^"]+)",\s*gid:\s*"(\d+)"/g);
+
+  for (const match of matches) {
+    tabs.push({
+      name: match[1],
+      pageUrl: match[2].replace(/\\x3d/g, "=").replace(/\\\//g, "/"),
+      gid: match[3],
+    });
+  }
+
+  return tabs;
+}
+
+// Rewrite relative URLs to absolute Google URLs
+function rewriteUrls(html: string): string {
+  return html
+    .replace(/href="\//g, 'href="https://docs.google.com/')
+    .replace(/href='\//g, "href='https://docs.google.com/")
+    .replace(/src="\//g, 'src="https://docs.google.com/')
+    .replace(/src='\//g, "src='https://docs.google.com/")
+    .replace(/url\(\//g, "url(https://docs.google.com/")
+    .replace(/\/\/ssl\.gstatic\.com/g, "https://ssl.gstatic.com");
+}
+
+async function fetchAllData(sheetId: string, previous: PublicSheetData | null): Promise<PublicSheetData> {
+  const dataSource = getDataSource();
+
+  // 1. Fetch main page
+  const mainHtml = await dataSource.getHtmlView(sheetId);
+  
+  // 2. Parse tabs
+  const tabs = parseSheetTabs(mainHtml);
+  if (tabs.length === 0) {
+    throw new Error("No sheets found in spreadsheet");
+  }
+  console.log(`[FETCH] Found ${tabs.length} tabs`);
+
+  // 3. Fetch all tabs in parallel, keeping last good html for any that fail
+  const sheets = await fetchTabEntries("[FETCH]", tabs, (tab) => tab.gid, previous?.sheets, async (tab) => {
+    console.log(`[FETCH] Fetching tab "${tab.name}" (${tab.gid})`);
+    const html = await dataSource.getHtmlViewTab(sheetId, tab);
+
+    // Redact before caching so personal data is never stored or served
+    const redacted = redactHtmlView(rewriteUrls(html));
+    if (redacted.cells > 0) {
+      console.log(`[FETCH] Redacted ${redacted.cells} cells in tab "${tab.name}"`);
+    }
+    return redacted.html;
+  });
+
+  return {
+    tabs,
+    sheets
+  };
+}
+
+// Parsed tables, computed on first request for each cache generation
+const parsedTables = new WeakMap<PublicSheetData, Map<string, SheetTable | null>>();
+
+// Rows and columns of a cached tab, or null if the htmlview couldn't be parsed
+export function getSheetTable(data: PublicSheetData, gid: string): SheetTable | null {
+  let tables = parsedTables.get(data);
+  if (!tables) {
+    tables = new Map();
+    parsedTables.set(data, tables);
+  }
+
+  if (!tables.has(gid)) {
+    const html = data.sheets.get(gid)?.value;
+    tables.set(gid, html ? parseHtmlViewTable(html) : null);
+  }
+  return tables.get(gid) ?? null;
+}
+
+const sheetsCaches = new Map<string, SnapshotCache<PublicSheetData>>();
+
+// In-memory cache with 5 minute TTL, persisted as snapshots; one per incident
+export function getSheetsCache(incident: Incident): SnapshotCache<PublicSheetData> {
+  const { slug } = incident;
+  if (!sheetsCaches.has(slug)) {
+    sheetsCaches.set(slug, createSnapshotCache<PublicSheetData, StoredPublicSheetData>({
+      name: `${slug}/sheets`,
+      ttl: CACHE_TTL,
+      load: (previous) => fetchAllData(getIncident(slug)?.sheetId || "", previous),
+      serialize: (data) => ({ tabs: data.tabs, sheets: Array.from(data.sheets.entries()) }),
+      fingerprint: tabContents,
+      deserialize: (stored, timestamp) => ({
+        tabs: stored.tabs,
+        sheets: new Map(stored.sheets.map(([gid, value]) => {
+          // Snapshots may predate redaction (or a change to REDACT_COLUMNS)
+          const entry = toTabEntry(value, timestamp);
+          return [gid, entry.value ? { ...entry, value: redactHtmlView(entry.value).html } : entry];
+        })),
+      }),
+    }));
+  }
+  return sheetsCaches.get(slug)!;
+}
@@ -0,0 +1,72 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { createSnapshotCache, RefreshEvent } from "@/lib/snapshotCache";
+import { saveSnapshot } from "@/lib/snapshotStore";
+import { TabEntry, tabContents } from "@/lib/tabCache";
+
+interface TestData {
+  tabs: { name: string; id: number }[];
+  sheets: Map<number, TabEntry<string[][]>>;
+}
+
+describe("createSnapshotCache", () => {
+  afterEach(() => vi.useRealTimers());
+
+  it("reports a refresh that fetched the same rows as unchanged", async () => {
+    let rows = [["時間", "位置"], ["26/11 16:05", "2座 18樓 C室"]];
+    let fetches = 0;
+
+    const cache = createSnapshotCache<TestData, TestData>({
+      name: "test/unchanged",
+      ttl: -1, // every get() refreshes
+      load: async () => {
+        fetches++;
+        // Fetch times differ on every refresh even when the rows don't
+        const entry = { value: rows, updatedAt: fetches, error: null, failedAt: null, duration: fetches };
+        return { tabs: [{ name: "求救個案", id: 0 }], sheets: new Map([[0, entry]]) };
+      },
+      serialize: (data) => data,
+      deserialize: (stored) => stored,
+      fingerprint: tabContents,
+    });
+
+    const events: RefreshEvent[] = [];
+    cache.onRefresh((event) => events.push(event));
+
+    await cache.get();
+    await cache.get();
+    rows = [...rows, ["26/11 17:00", "5座 12樓 A室"]];
+    await cache.get();
+
+    expect(events.map((event) => event.changed)).toEqual([true, false, true]);
+  });
+
+  it("waits out the TTL before retrying a failed refresh of a restored snapshot", async () => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    vi.setSystemTime(Date.parse("2025-11-26T10:00:00Z"));
+    await saveSnapshot("test/restored", Date.now() - 60 * 1000, ["26/11 16:05"]);
+
+    let loads = 0;
+    const cache = createSnapshotCache<string[], string[]>({
+      name: "test/restored",
+      ttl: 30 * 1000,
+      load: async () => {
+        loads++;
+        throw new Error("upstream down");
+      },
+      serialize: (data) => data,
+      deserialize: (stored) => stored,
+    });
+
+    const served = await cache.get();
+    expect(served).toMatchObject({ data: ["26/11 16:05"], stale: true });
+    await vi.waitFor(() => expect(cache.status().lastErrorAt).not.toBeNull());
+
+    await cache.get();
+    await cache.get();
+    expect(loads).toBe(1);
+
+    vi.advanceTimersByTime(30 * 1000 + 1);
+    await cache.get();
+    expect(loads).toBe(2);
+  });
+});
@@ -0,0 +1,207 @@
+import { createHash } from "crypto";
+import { findSnapshot, listSnapshots, saveSnapshot } from "@/lib/snapshotStore";
+
+export interface CachedData<T> {
+  data: T;
+  timestamp: number;
+  stale: boolean; // restored from disk and not refreshed yet, or the last refresh failed
+}
+
+export interface RefreshEvent<T = unknown> {
+  timestamp: number;
+  changed: boolean; // false when the refresh returned exactly the same data
+  data: T; // what this refresh fetched; peek() may already hold a later one
+}
+
+// Outcome of the most recent refreshes, for /api/status
+export interface CacheStatus {
+  timestamp: number | null; // when the cached data was fetched
+  restored: boolean;
+  refreshing: boolean;
+  lastRefreshAt: number | null; // when the latest refresh attempt finished
+  lastRefreshDuration: number | null; // ms
+  lastError: string | null; // from the latest failed refresh, cleared on success
+  lastErrorAt: number | null;
+}
+
+export interface SnapshotCache<T> {
+  ttl: number;
+  get(): Promise<CachedData<T>>;
+  peek(): CachedData<T> | null; // current contents, without triggering a refresh
+  status(): CacheStatus;
+  onRefresh(listener: (event: RefreshEvent<T>) => void): () => void;
+  listSnapshots(): Promise<number[]>; // newest first
+  getSnapshot(at: number): Promise<{ data: T; timestamp: number } | null>; // latest at or before `at`
+}
+
+export interface SnapshotCacheOptions<T, S> {
+  name: string; // used for the snapshot directory and log lines
+  ttl: number;
+  load: (previous: T | null) => Promise<T>; // previous data, to keep last-good parts on partial failure
+  serialize: (data: T) => S;
+  deserialize: (stored: S, timestamp: number) => T;
+  // What a refresh has to differ in to count as changed; defaults to the whole
+  // serialized data. Leave out anything that differs on every fetch, like timings.
+  fingerprint?: (data: T) => unknown;
+}
+
+interface CacheState<T> {
+  entry: { data: T; timestamp: number; restored: boolean; hash: string } | null;
+  refreshPromise: Promise<void> | null;
+  restorePromise: Promise<void> | null;
+  listeners: Set<(event: RefreshEvent<T>) => void>;
+  lastRefresh: { finishedAt: number; duration: number; error: string | null; errorAt: number | null } | null;
+}
+
+// Kept on globalThis so every route bundle (and dev hot reloads) share one cache per name
+const globalForCaches = globalThis as unknown as {
+  snapshotCaches?: Map<string, CacheState<unknown>>;
+};
+const states = (globalForCaches.snapshotCaches ??= new Map());
+
+// In-memory cache with a TTL, backed by on-disk snapshots.
+// On a cold start the latest snapshot is served immediately (marked stale)
+// while a refresh runs in the background.
+export function createSnapshotCache<T, S>(options: SnapshotCacheOptions<T, S>): SnapshotCache<T> {
+  const { name, ttl, load, serialize, deserialize, fingerprint = serialize } = options;
+  const label = `[CACHE:${name}]`;
+
+  const hashOf = (data: T) => createHash("sha1").update(JSON.stringify(fingerprint(data))).digest("hex");
+
+  const getState = (): CacheState<T> => {
+    if (!states.has(name)) {
+      states.set(name, { entry: null, refreshPromise: null, restorePromise: null, listeners: new Set(), lastRefresh: null });
+    }
+    return states.get(name) as CacheState<T>;
+  };
+
+  const refresh = (): Promise<void> => {
+    const state = getState();
+
+    if (!state.refreshPromise) {
+      console.log(`${label} Cache expired or empty, starting refresh...`);
+      const startedAt = Date.now();
+      state.refreshPromise = load(state.entry?.data ?? null)
+        .then((data) => {
+          const timestamp = Date.now();
+          state.lastRefresh = { finishedAt: timestamp, duration: timestamp - startedAt, error: null, errorAt: null };
+          const stored = serialize(data);
+          const hash = hashOf(data);
+          const changed = state.entry?.hash !== hash;
+
+          state.entry = { data, timestamp, restored: false, hash };
+          console.log(`${label} Cache updated successfully`);
+
+          saveSnapshot(name, timestamp, stored).catch((err) => {
+            console.error(`${label} Failed to save snapshot:`, err);
+          });
+
+          for (const listener of state.listeners) {
+            try {
+              listener({ timestamp, changed, data });
+            } catch (err) {
+              console.error(`${label} Refresh listener failed:`, err);
+            }
+          }
+        })
+        .catch((err) => {
+          console.error(`${label} Refresh failed:`, err);
+          const failedAt = Date.now();
+          state.lastRefresh = {
+            finishedAt: failedAt,
+            duration: failedAt - startedAt,
+            error: err instanceof Error ? err.message : String(err),
+            errorAt: failedAt,
+          };
+          // Keep serving the old data if we have any
+          if (!state.entry) throw err;
+        })
+        .finally(() => {
+          state.refreshPromise = null;
+        });
+    }
+
+    return state.refreshPromise;
+  };
+
+  const restore = async (): Promise<void> => {
+    const state = getState();
+    const snapshot = await findSnapshot<S>(name);
+
+    if (snapshot && !state.entry) {
+      const data = deserialize(snapshot.data, snapshot.timestamp);
+      state.entry = { data, timestamp: snapshot.timestamp, restored: true, hash: hashOf(data) };
+      console.log(`${label} Restored snapshot from ${new Date(snapshot.timestamp).toISOString()}`);
+    }
+  };
+
+  // A refresh failed within the TTL: keep serving what we have rather than
+  // sending every request to a source that is still down
+  const failedRecently = (state: CacheState<T>) =>
+    state.lastRefresh?.errorAt != null && Date.now() - state.lastRefresh.errorAt <= ttl;
+
+  const toCachedData = (entry: NonNullable<CacheState<T>["entry"]>): CachedData<T> => ({
+    data: entry.data,
+    timestamp: entry.timestamp,
+    stale: entry.restored || Date.now() - entry.timestamp > ttl,
+  });
+
+  return {
+    ttl,
+
+    async get() {
+      const state = getState();
+
+      if (!state.entry) {
+        state.restorePromise ??= restore();
+        await state.restorePromise;
+      }
+
+      if (state.entry?.restored) {
+        // Serve the snapshot now, refresh in the background
+        if (!failedRecently(state)) refresh().catch(() => {});
+      } else if (!state.entry || (Date.now() - state.entry.timestamp > ttl && !failedRecently(state))) {
+        await refresh();
+      }
+
+      if (!state.entry) {
+        throw new Error("Failed to load spreadsheet data");
+      }
+
+      return toCachedData(state.entry);
+    },
+
+    peek() {
+      const { entry } = getState();
+      return entry && toCachedData(entry);
+    },
+
+    status() {
+      const { entry, refreshPromise, lastRefresh } = getState();
+      return {
+        timestamp: entry?.timestamp ?? null,
+        restored: entry?.restored ?? false,
+        refreshing: refreshPromise !== null,
+        lastRefreshAt: lastRefresh?.finishedAt ?? null,
+        lastRefreshDuration: lastRefresh?.duration ?? null,
+        lastError: lastRefresh?.error ?? null,
+        lastErrorAt: lastRefresh?.errorAt ?? null,
+      };
+    },
+
+    onRefresh(listener) {
+      const { listeners } = getState();
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+
+    listSnapshots: () => listSnapshots(name),
+
+    async getSnapshot(at) {
+      const snapshot = await findSnapshot<S>(name, at);
+      return snapshot && { data: deserialize(snapshot.data, snapshot.timestamp), timestamp: snapshot.timestamp };
+    },
+  };
+}
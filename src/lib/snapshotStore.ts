@@ -0,0 +1,65 @@
+import { promises as fs } from "fs";
+import path from "path";
+
+// Every successful cache refresh is written to disk as
+// <SNAPSHOT_DIR>/<name>/<timestamp>.json, keeping the newest SNAPSHOT_HISTORY files.
+// Defaults keep 24 hours of 5-minute refreshes.
+const SNAPSHOT_DIR = path.resolve(process.env.SNAPSHOT_DIR || ".data/snapshots");
+const SNAPSHOT_HISTORY = snapshotHistory();
+
+// Anything but a whole number of at least one would prune every snapshot
+function snapshotHistory(): number {
+  const count = Number(process.env.SNAPSHOT_HISTORY || "288");
+  return Number.isInteger(count) && count >= 1 ? count : 288;
+}
+
+export interface Snapshot<S> {
+  timestamp: number;
+  data: S;
+}
+
+const snapshotDir = (name: string) => path.join(SNAPSHOT_DIR, name);
+
+export async function saveSnapshot<S>(name: string, timestamp: number, data: S): Promise<void> {
+  const dir = snapshotDir(name);
+  await fs.mkdir(dir, { recursive: true });
+
+  // Write to a temp file first so a crash mid-write never leaves a truncated snapshot
+  const file = path.join(dir, `${timestamp}.json`);
+  await fs.writeFile(`${file}.tmp`, JSON.stringify(data));
+  await fs.rename(`${file}.tmp`, file);
+
+  const timestamps = await listSnapshots(name);
+  await Promise.all(
+    timestamps.slice(SNAPSHOT_HISTORY).map(t => fs.rm(path.join(dir, `${t}.json`), { force: true }))
+  );
+}
+
+// Snapshot timestamps, newest first
+export async function listSnapshots(name: string): Promise<number[]> {
+  try {
+    const files = await fs.readdir(snapshotDir(name));
+    return files
+      .filter(f => /^\d+\.json$/.test(f))
+      .map(f => parseInt(f))
+      .sort((a, b) => b - a);
+  } catch {
+    return [];
+  }
+}
+
+export async function loadSnapshot<S>(name: string, timestamp: number): Promise<Snapshot<S> | null> {
+  try {
+    const content = await fs.readFile(path.join(snapshotDir(name), `${timestamp}.json`), "utf8");
+    return { timestamp, data: JSON.parse(content) as S };
+  } catch (err) {
+    console.error(`[Snapshot] Failed to read ${name}/${timestamp}:`, err);
+    return null;
+  }
+}
+
+// Latest snapshot taken at or before `at` (defaults to now)
+export async function findSnapshot<S>(name: string, at: number = Date.now()): Promise<Snapshot<S> | null> {
+  const timestamp = (await listSnapshots(name)).find(t => t <= at);
+  return timestamp === undefined ? null : loadSnapshot<S>(name, timestamp);
+}
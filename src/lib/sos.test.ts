@@ -0,0 +1,55 @@
+import { promises as fs } from "fs";
+import path from "path";
+import { describe, expect, it } from "vitest";
+import { getDefaultIncident } from "@/lib/incidents";
+import { getSOSCache, groupIntoCases, processSheetData } from "@/lib/sos";
+
+const demoDir = () => path.join(process.env.DATA_SOURCE_DIR!, "demo");
+
+describe("getSOSCache", () => {
+  it("leaves the triage write-back tab out of the SOS tabs", async () => {
+    // What writeBack.ts adds to the SOS spreadsheet once it has written a row
+    const tabs = JSON.parse(await fs.readFile(path.join(demoDir(), "tabs.json"), "utf8"));
+    tabs.push({ title: "義工跟進", sheetId: 99 });
+    await fs.writeFile(path.join(demoDir(), "tabs.json"), JSON.stringify(tabs));
+    await fs.writeFile(path.join(demoDir(), "rows", "99.json"), JSON.stringify([
+      ["編號", "分頁", "個案", "處理狀態", "負責義工", "備註", "更新者", "更新時間"],
+      ["0:2-18-C", "求救個案", "2-18-C", "已救出", "", "", "c1", "2025-11-26T10:00:00.000Z"],
+    ]));
+
+    const { data } = await getSOSCache(getDefaultIncident()).get();
+
+    expect(data.tabs.map(tab => tab.name)).toEqual(["求救個案", "失聯人士"]);
+    expect(data.sheets.has(99)).toBe(false);
+  });
+});
+
+describe("groupIntoCases", () => {
+  const header = ["時間戳記", "邊座/樓層/單位", "現時情況", "住戶情況", "消息來源"];
+  const casesOf = (rows: string[][]) => groupIntoCases(processSheetData([header, ...rows], getDefaultIncident()));
+
+  it("merges reports for the same unit", () => {
+    const cases = casesOf([
+      ["2025年11月26日 下午03:12:40", "2座 18樓 C室", "被困求救", "", "家人"],
+      ["2025年11月26日 下午05:45:10", "宏昌閣 十八樓 C", "平安", "", "家人"],
+    ]);
+    expect(cases).toHaveLength(1);
+    expect(cases[0].history).toHaveLength(2);
+  });
+
+  it("keeps reports without a location apart", () => {
+    const cases = casesOf([
+      ["2025年11月26日 下午03:12:40", "", "被困求救", "一名長者", "家人"],
+      ["2025年11月26日 下午03:20:00", " ", "失去聯絡", "兩名住戶", "鄰居"],
+    ]);
+    expect(cases.map(c => c.status).sort()).toEqual(["失去聯絡", "被困求救"]);
+  });
+
+  it("keeps reports that only name a block or floor apart", () => {
+    const cases = casesOf([
+      ["2025年11月26日 下午03:12:40", "2座 18樓", "被困求救", "", "家人"],
+      ["2025年11月26日 下午03:20:00", "2座 18樓", "平安", "", "家人"],
+    ]);
+    expect(cases).toHaveLength(2);
+  });
+});
@@ -0,0 +1,215 @@
+import { getDataSource } from "@/lib/dataSource";
+import { getIncident, Incident } from "@/lib/incidents";
+import { parseLocation, normalizeLocationText, LocationConfidence } from "@/lib/location";
+import { createSnapshotCache, SnapshotCache } from "@/lib/snapshotCache";
+import { getColumnMapping, mapColumns } from "@/lib/sosColumns";
+import { fetchTabEntries, TabEntry, tabContents, toTabEntry } from "@/lib/tabCache";
+import { compareNewestFirst, parseFormTimestamp } from "@/lib/timestamp";
+import { writeBackTab } from "@/lib/writeBack";
+
+export interface SheetTab {
+  name: string;
+  id: number;
+}
+
+export interface SOSItem {
+  timestamp: string; // raw text from the sheet
+  timestampISO: string | null; // Hong Kong time with offset; null when the timestamp couldn't be parsed
+  timestampObj: number | null; // for sorting; null when unknown
+  location: string; // raw text as typed in the form
+  block: string | null;
+  floor: string | null;
+  unit: string | null;
+  locationConfidence: LocationConfidence;
+  status: string;
+  details: string;
+  source: string;
+  extra: Record<string, string>; // optional fields mapped in the column config, non-empty only
+  rowNumber: number; // row in the sheet, counting the header as row 1
+}
+
+// All submissions for one unit, merged into a single case.
+// Top-level fields come from the newest submission.
+export interface SOSCase extends SOSItem {
+  key: string;
+  resolved: boolean; // newest status is "平安"
+  history: SOSItem[]; // every submission, oldest first
+}
+
+export interface SOSSheetData {
+  tabs: SheetTab[];
+  sheets: Map<number, TabEntry<string[][]>>; // sheetId -> last good raw rows
+}
+
+interface StoredSOSSheetData {
+  tabs: SheetTab[];
+  sheets: [number, TabEntry<string[][]> | string[][]][];
+}
+
+const CACHE_TTL = 5 * 60 * 1000; // 5 minutes
+
+// Why the configured column mapping doesn't fit this tab, naming each
+// field whose header couldn't be matched; null when it works
+export function getColumnMappingError(rows: string[][], incident: Incident, tabName?: string): string | null {
+  if (!rows || rows.length === 0) return null; // empty tab, nothing to map
+
+  const { errors } = mapColumns(rows[0], getColumnMapping(incident.sosColumns, tabName));
+  if (errors.length === 0) return null;
+
+  return `Column mapping failed${tabName ? ` for tab ${tabName}` : ""}: ${errors.join("; ")}. ` +
+    `Headers found: ${rows[0].filter(Boolean).join(", ")}`;
+}
+
+export function processSheetData(rows: string[][], incident: Incident, tabName?: string): SOSItem[] {
+  if (!rows || rows.length < 2) return [];
+
+  const dataRows = rows.slice(1);
+  const { columns, errors } = mapColumns(rows[0], getColumnMapping(incident.sosColumns, tabName));
+  const {
+    timestamp: idxTimestamp,
+    location: idxLocation,
+    status: idxStatus,
+    details: idxDetails,
+    source: idxSource,
+  } = columns;
+
+  // Callers that must not show an empty list check getColumnMappingError first
+  if (errors.length > 0) {
+    console.warn(`[SOS API] ${errors.join("; ")}`);
+    return [];
+  }
+
+  return dataRows
+    .map((row, i) => {
+      const status = row[idxStatus] || "";
+      const timestamp = row[idxTimestamp] || "";
+      const location = parseLocation(row[idxLocation] || "");
+      const parsed = parseFormTimestamp(timestamp);
+
+      return {
+        timestamp,
+        timestampISO: parsed?.iso ?? null,
+        timestampObj: parsed?.time ?? null,
+        location: location.raw,
+        block: location.block,
+        floor: location.floor,
+        unit: location.unit,
+        locationConfidence: location.confidence,
+        status,
+        details: idxDetails !== -1 ? (row[idxDetails] || "") : "",
+        source: idxSource !== -1 ? (row[idxSource] || "") : "",
+        extra: Object.fromEntries(columns.extra.map(([label, index]) => [label, row[index] || ""]).filter(([, value]) => value)),
+        rowNumber: i + 2,
+      };
+    })
+    .sort((a, b) => compareNewestFirst(a.timestampObj, b.timestampObj));
+}
+
+// Fully parsed locations group by unit, and identical free-text locations by
+// their normalized text. A report with no location, or only a block or floor,
+// could be anyone there, so it is a case of its own, keyed by its row.
+function caseKey(item: SOSItem): string {
+  if (item.block && item.floor && item.unit) {
+    return `${item.block}-${item.floor}-${item.unit}`;
+  }
+  const text = normalizeLocationText(item.location);
+  if (text && item.locationConfidence === "none") {
+    return `raw:${text}`;
+  }
+  return `row:${item.rowNumber}`;
+}
+
+// Group submissions by unit so a unit reported trapped at 09:00 and safe at
+// 11:00 shows up once, with the newest status
+export function groupIntoCases(items: SOSItem[]): SOSCase[] {
+  const groups = new Map<string, SOSItem[]>();
+
+  for (const item of items) {
+    const key = caseKey(item);
+    const group = groups.get(key);
+    if (group) {
+      group.push(item);
+    } else {
+      groups.set(key, [item]);
+    }
+  }
+
+  return Array.from(groups.entries())
+    .map(([key, group]) => {
+      // Oldest first; reports of unknown time go first so a dated one decides the status
+      const history = [...group].sort((a, b) => compareNewestFirst(b.timestampObj, a.timestampObj));
+      const latest = history[history.length - 1];
+
+      return {
+        ...latest,
+        key,
+        resolved: latest.status.includes("平安"),
+        history,
+      };
+    })
+    .sort((a, b) => compareNewestFirst(a.timestampObj, b.timestampObj));
+}
+
+async function fetchAllData(sheetId: string, previous: SOSSheetData | null): Promise<SOSSheetData> {
+  const dataSource = getDataSource();
+
+  console.log(`[SOS API] Fetching tabs for sheet ${sheetId} (${dataSource.name})`);
+  const tabsData = await dataSource.getSheetTabs(sheetId);
+  
+  // Our own triage write-back tab holds no form responses
+  const tabs: SheetTab[] = tabsData
+    .filter(t => t.title !== writeBackTab())
+    .map(t => ({
+      name: t.title,
+      id: t.sheetId || 0
+    }));
+
+  // Fetch all sheets in parallel, keeping last good rows for any that fail
+  const sheets = await fetchTabEntries("[SOS API]", tabs, (tab) => tab.id, previous?.sheets, (tab) => {
+    console.log(`[SOS API] Fetching data for tab "${tab.name}"`);
+    return dataSource.getSheetData(sheetId, `'${tab.name}'!A:Z`);
+  });
+
+  return {
+    tabs,
+    sheets
+  };
+}
+
+// Returns a message describing missing configuration, or null if the SOS sheet can be read
+export function getSOSConfigError(incident: Incident): string | null {
+  if (!incident.sosSheetId) {
+    return `No SOS sheet configured for incident ${incident.slug}`;
+  }
+
+  if (
+    getDataSource().name === "google" &&
+    (!process.env.GOOGLE_SERVICE_ACCOUNT_EMAIL || !process.env.GOOGLE_PRIVATE_KEY)
+  ) {
+    return "Google Service Account credentials not configured";
+  }
+
+  return null;
+}
+
+const sosCaches = new Map<string, SnapshotCache<SOSSheetData>>();
+
+// One cache per incident; the sheet id is looked up on every refresh so
+// registry edits apply without a restart
+export function getSOSCache(incident: Incident): SnapshotCache<SOSSheetData> {
+  const { slug } = incident;
+  if (!sosCaches.has(slug)) {
+    sosCaches.set(slug, createSnapshotCache<SOSSheetData, StoredSOSSheetData>({
+      name: `${slug}/sos`,
+      ttl: CACHE_TTL,
+      load: (previous) => fetchAllData(getIncident(slug)?.sosSheetId || "", previous),
+      serialize: (data) => ({ tabs: data.tabs, sheets: Array.from(data.sheets.entries()) }),
+      fingerprint: tabContents,
+      deserialize: (stored, timestamp) => ({
+        tabs: stored.tabs,
+        sheets: new Map(stored.sheets.map(([id, entry]) => [id, toTabEntry(entry, timestamp)])),
+      }),
+    }));
+  }
+  return sosCaches.get(slug)!;
+}
@@ -0,0 +1,66 @@
+import { Incident } from "@/lib/incidents";
+import { getColumnMappingError, groupIntoCases, processSheetData, SOSCase, SOSSheetData } from "@/lib/sos";
+
+export type SOSChangeType = "added" | "changed" | "removed";
+
+export interface SOSChange {
+  type: SOSChangeType;
+  tabId: number;
+  tabName: string;
+  key: string;
+  item: SOSCase; // current case, or the last known one when removed
+  previousStatus?: string; // set when status changed
+}
+
+// null for tabs whose column mapping is broken
+function casesByTab(data: SOSSheetData, incident: Incident): Map<number, Map<string, SOSCase> | null> {
+  const result = new Map<number, Map<string, SOSCase> | null>();
+  for (const tab of data.tabs) {
+    const rows = data.sheets.get(tab.id)?.value || [];
+    if (getColumnMappingError(rows, incident, tab.name)) {
+      result.set(tab.id, null);
+      continue;
+    }
+
+    const cases = groupIntoCases(processSheetData(rows, incident, tab.name));
+    result.set(tab.id, new Map(cases.map(c => [c.key, c])));
+  }
+  return result;
+}
+
+// Cases added, whose status changed, or that disappeared between two refreshes
+export function diffSOSData(previous: SOSSheetData, current: SOSSheetData, incident: Incident): SOSChange[] {
+  const before = casesByTab(previous, incident);
+  const after = casesByTab(current, incident);
+  const changes: SOSChange[] = [];
+
+  const tabNames = new Map<number, string>();
+  for (const tab of [...previous.tabs, ...current.tabs]) {
+    tabNames.set(tab.id, tab.name);
+  }
+
+  for (const [tabId, tabName] of tabNames) {
+    // A broken mapping would otherwise read as every case being removed, then re-added
+    if (before.get(tabId) === null || after.get(tabId) === null) continue;
+
+    const oldCases = before.get(tabId) || new Map<string, SOSCase>();
+    const newCases = after.get(tabId) || new Map<string, SOSCase>();
+
+    for (const [key, item] of newCases) {
+      const old = oldCases.get(key);
+      if (!old) {
+        changes.push({ type: "added", tabId, tabName, key, item });
+      } else if (old.status !== item.status) {
+        changes.push({ type: "changed", tabId, tabName, key, item, previousStatus: old.status });
+      }
+    }
+
+    for (const [key, item] of oldCases) {
+      if (!newCases.has(key)) {
+        changes.push({ type: "removed", tabId, tabName, key, item });
+      }
+    }
+  }
+
+  return changes;
+}
@@ -0,0 +1,118 @@
+import { readFileSync, statSync } from "fs";
+import path from "path";
+
+// Which SOS form question feeds which field. A column matches when its header
+// contains any of the keywords. Each incident names its config file (or
+// inlines the config) in the registry; the default is SOS_COLUMNS_FILE
+// (./config/sos-columns.json), so a renamed question only needs a config edit:
+//   {
+//     "default": { "status": ["現時情況"], "extra": { "人數": ["被困人數"] }, ... },
+//     "tabs": { "<tab name>": { "status": ["目前狀況"] } }   // per-tab overrides
+//   }
+export interface SOSColumnMapping {
+  timestamp: string[];
+  location: string[];
+  status: string[];
+  details: string[];
+  source: string[];
+  extra: Record<string, string[]>; // label shown on the card -> keywords
+}
+
+export interface SOSColumnConfig {
+  default?: Partial<SOSColumnMapping>;
+  tabs?: Record<string, Partial<SOSColumnMapping>>;
+}
+
+export interface SOSColumns {
+  timestamp: number;
+  location: number;
+  status: number;
+  details: number; // -1 when absent
+  source: number; // -1 when absent
+  extra: [string, number][]; // only the optional columns that were found
+}
+
+const DEFAULT_MAPPING: SOSColumnMapping = {
+  timestamp: ["時間戳記"],
+  location: ["邊座", "樓層", "單位"],
+  status: ["現時情況"],
+  details: ["住戶情況"],
+  source: ["消息來源"],
+  extra: {},
+};
+
+const REQUIRED_FIELDS = ["timestamp", "location", "status"] as const;
+
+// Contact numbers must never reach the page, whatever the config says
+const PRIVATE_HEADER_KEYWORDS = ["電話", "phone"];
+
+const loaded = new Map<string, { mtime: number; config: SOSColumnConfig }>();
+
+// Re-read the file whenever it changes, so edits apply without a restart
+function loadConfig(configFile: string): SOSColumnConfig {
+  const file = path.resolve(configFile);
+
+  let mtime: number;
+  try {
+    mtime = statSync(file).mtimeMs;
+  } catch {
+    return {}; // no config file: use the built-in mapping
+  }
+
+  if (loaded.get(file)?.mtime !== mtime) {
+    try {
+      loaded.set(file, { mtime, config: JSON.parse(readFileSync(file, "utf8")) });
+    } catch (err) {
+      throw new Error(`Invalid SOS column config ${file}: ${err instanceof Error ? err.message : err}`);
+    }
+  }
+
+  return loaded.get(file)!.config;
+}
+
+// `source` is an incident's sosColumns: a config file, or the config inline
+export function getColumnMapping(source: string | SOSColumnConfig, tabName?: string): SOSColumnMapping {
+  const config = typeof source === "string" ? loadConfig(source) : source;
+  const override = tabName ? config.tabs?.[tabName] : undefined;
+
+  return {
+    ...DEFAULT_MAPPING,
+    ...config.default,
+    ...override,
+    extra: { ...DEFAULT_MAPPING.extra, ...config.default?.extra, ...override?.extra },
+  };
+}
+
+// Finds each mapped column in the header row. `errors` names every required
+// field whose header couldn't be matched, empty when the mapping works.
+export function mapColumns(header: string[], mapping: SOSColumnMapping): { columns: SOSColumns; errors: string[] } {
+  const getColIndex = (keywords: string[]) =>
+    header.findIndex(h => keywords.some(k => h.includes(k)));
+  const isPrivate = (index: number) =>
+    PRIVATE_HEADER_KEYWORDS.some(k => header[index].toLowerCase().includes(k));
+
+  const columns: SOSColumns = {
+    timestamp: getColIndex(mapping.timestamp),
+    location: getColIndex(mapping.location),
+    status: getColIndex(mapping.status),
+    details: getColIndex(mapping.details),
+    source: getColIndex(mapping.source),
+    extra: [],
+  };
+
+  for (const [label, keywords] of Object.entries(mapping.extra)) {
+    const index = getColIndex(keywords);
+    if (index === -1) continue;
+    if (isPrivate(index)) {
+      console.warn(`[SOS API] Not mapping private column "${header[index]}" to ${label}`);
+      continue;
+    }
+    columns.extra.push([label, index]);
+  }
+
+  const errors = REQUIRED_FIELDS
+    .filter(field => columns[field] === -1)
+    .map(field => `no header matches ${field} (${mapping[field].join(" / ")})`);
+
+  return { columns, errors };
+}
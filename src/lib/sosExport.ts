@@ -0,0 +1,41 @@
+import { SOSCase } from "@/lib/sos";
+import { TRIAGE_STATES } from "@/lib/sosFilters";
+import { TriageAnnotation } from "@/lib/triage";
+
+type ExportCase = SOSCase & { triage: TriageAnnotation | null };
+
+// Export only fields processSheetData already exposes - never the phone number columns
+const EXPORT_COLUMNS: [string, (item: ExportCase) => string][] = [
+  ["時間戳記", (item) => item.timestamp],
+  ["時間 (ISO)", (item) => item.timestampISO || "時間不明"],
+  ["邊座/樓層/單位", (item) => item.location],
+  ["座", (item) => item.block || ""],
+  ["樓層", (item) => item.floor || ""],
+  ["單位", (item) => item.unit || ""],
+  ["現時情況", (item) => item.status],
+  ["住戶情況", (item) => item.details],
+  ["消息來源", (item) => item.source],
+  ["已解決", (item) => (item.resolved ? "是" : "否")],
+  ["通報次數", (item) => String(item.history.length)],
+  ["處理狀態", (item) => TRIAGE_STATES.find(s => s.value === item.triage?.state)?.label || ""],
+  ["負責義工", (item) => item.triage?.assignee || ""],
+  ["備註", (item) => item.triage?.note || ""],
+];
+
+export function casesToRows(items: ExportCase[]): string[][] {
+  return [
+    EXPORT_COLUMNS.map(([header]) => header),
+    ...items.map(item => EXPORT_COLUMNS.map(([, value]) => value(item))),
+  ];
+}
+
+function csvCell(value: string): string {
+  // Stop spreadsheet apps from treating free text as a formula
+  const safe = /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+}
+
+// UTF-8 with BOM so Excel shows Chinese correctly
+export function toCsv(rows: string[][]): string {
+  return "﻿" + rows.map(row => row.map(csvCell).join(",")).join("\r\n") + "\r\n";
+}
@@ -0,0 +1,61 @@
+import { formatLocation, normalizeLocationQuery } from "@/lib/location";
+
+// Filters shared by the SOS page, /api/sos and the export endpoint.
+// Kept free of server-only imports so the page can use it too.
+
+export const ALL_STATUSES = "全部";
+
+// Triage states volunteers can set on a case
+export const TRIAGE_STATES = [
+  { value: "calling", label: "跟進中" },
+  { value: "rescued", label: "已救出" },
+  { value: "duplicate", label: "重複" },
+  { value: "unreachable", label: "未能聯絡" },
+] as const;
+
+export type TriageState = (typeof TRIAGE_STATES)[number]["value"];
+
+export const UNTRIAGED = "none"; // triage filter value for cases nobody has picked up
+
+interface FilterableCase {
+  location: string;
+  block: string | null;
+  floor: string | null;
+  unit: string | null;
+  status: string;
+  triage?: { state: TriageState | null } | null;
+}
+
+export interface CaseFilters {
+  status?: string | null; // exact status, or ALL_STATUSES / empty for any
+  query?: string | null; // matches the raw location or the parsed block / floor / unit
+  triage?: string | null; // a triage state, UNTRIAGED, or ALL_STATUSES / empty for any
+}
+
+export function filterCases<T extends FilterableCase>(items: T[], { status, query, triage }: CaseFilters): T[] {
+  const q = (query || "").toLowerCase();
+
+  return items.filter(item => {
+    const statusMatch = !status || status === ALL_STATUSES || item.status === status;
+    const triageState = item.triage?.state || UNTRIAGED;
+    const triageMatch = !triage || triage === ALL_STATUSES || triageState === triage;
+    const searchMatch = !q
+      || item.location.toLowerCase().includes(q)
+      || formatLocation(item).toLowerCase().includes(q);
+    return statusMatch && triageMatch && searchMatch;
+  });
+}
+
+// Filter items by ?block=&floor=&unit= query params.
+// Values are normalized the same way as the sheet, so "宏昌閣" matches block "2".
+export function filterByLocation<T extends FilterableCase>(items: T[], searchParams: URLSearchParams): T[] {
+  const filters: ["block" | "floor" | "unit", string][] = [];
+  for (const field of ["block", "floor", "unit"] as const) {
+    const value = searchParams.get(field);
+    if (value) filters.push([field, normalizeLocationQuery(value)]);
+  }
+
+  if (filters.length === 0) return items;
+
+  return items.filter(item => filters.every(([field, value]) => item[field] === value));
+}
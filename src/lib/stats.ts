@@ -0,0 +1,174 @@
+import { Incident } from "@/lib/incidents";
+import { getSheetsCache, getSheetTable } from "@/lib/sheets";
+import { getSOSCache, getSOSConfigError, getColumnMappingError, groupIntoCases, processSheetData, SOSCase } from "@/lib/sos";
+
+// Aggregate numbers for /<incident>/stats. Counts only - never names, units or details,
+// so the page can be shared with the press.
+
+const HOUR = 60 * 60 * 1000;
+
+export interface CountBucket {
+  cases: number;
+  unresolved: number;
+}
+
+export interface BlockStats extends CountBucket {
+  block: string; // "1".."8", or "未知" when the location couldn't be parsed
+  floors: ({ floor: string } & CountBucket)[];
+}
+
+export interface HourPoint {
+  hour: number; // start of the hour, ms since epoch
+  reports: number; // submissions made during the hour
+  open: number; // cases not yet marked safe at the end of the hour
+}
+
+export interface SOSStats {
+  reports: number; // form submissions
+  cases: number; // after merging submissions per unit
+  unresolved: number;
+  // Of the cases first reported as anything but safe, how many are now marked safe
+  markedSafe: { count: number; of: number };
+  byStatus: { status: string; cases: number }[];
+  byBlock: BlockStats[];
+  byTab: ({ name: string; reports: number } & CountBucket)[];
+  perHour: HourPoint[];
+}
+
+export interface PublicSheetStats {
+  byTab: { name: string; rows: number }[];
+}
+
+export interface StatsResponse {
+  generatedAt: number;
+  sos: SOSStats | null;
+  sheets: PublicSheetStats | null;
+  errors: string[]; // sources that couldn't be counted
+}
+
+const UNKNOWN = "未知";
+
+function countInto<K>(map: Map<K, CountBucket>, key: K, item: SOSCase) {
+  const bucket = map.get(key) || { cases: 0, unresolved: 0 };
+  bucket.cases++;
+  if (!item.resolved) bucket.unresolved++;
+  map.set(key, bucket);
+}
+
+function compareLabels(a: string, b: string): number {
+  return a.localeCompare(b, "zh-Hant", { numeric: true });
+}
+
+// Reports per hour, and how many cases were still open at the end of each hour
+function hourlySeries(cases: SOSCase[]): HourPoint[] {
+  // Reports of unknown time can't be placed on the chart
+  const times = cases.flatMap(c => c.history).flatMap(item => item.timestampObj ?? []);
+  if (times.length === 0) return [];
+
+  const first = Math.floor(Math.min(...times) / HOUR) * HOUR;
+  const last = Math.floor(Math.max(...times) / HOUR) * HOUR;
+
+  const points: HourPoint[] = [];
+  for (let hour = first; hour <= last; hour += HOUR) {
+    const end = hour + HOUR;
+    points.push({
+      hour,
+      reports: times.filter(t => t >= hour && t < end).length,
+      open: cases.filter(c => {
+        // Status of the case as of the end of this hour
+        const known = c.history.filter(h => h.timestampObj !== null && h.timestampObj < end);
+        return known.length > 0 && !known[known.length - 1].status.includes("平安");
+      }).length,
+    });
+  }
+  return points;
+}
+
+async function getSOSStats(incident: Incident): Promise<SOSStats> {
+  const { data } = await getSOSCache(incident).get();
+
+  const allCases: SOSCase[] = [];
+  const byTab: SOSStats["byTab"] = [];
+
+  for (const tab of data.tabs) {
+    const rows = data.sheets.get(tab.id)?.value || [];
+    if (getColumnMappingError(rows, incident, tab.name)) continue;
+
+    const items = processSheetData(rows, incident, tab.name);
+    const cases = groupIntoCases(items);
+    allCases.push(...cases);
+    byTab.push({
+      name: tab.name,
+      reports: items.length,
+      cases: cases.length,
+      unresolved: cases.filter(c => !c.resolved).length,
+    });
+  }
+
+  const byStatus = new Map<string, number>();
+  const blocks = new Map<string, CountBucket>();
+  const floors = new Map<string, Map<string, CountBucket>>();
+
+  for (const item of allCases) {
+    byStatus.set(item.status || UNKNOWN, (byStatus.get(item.status || UNKNOWN) || 0) + 1);
+
+    const block = item.block || UNKNOWN;
+    countInto(blocks, block, item);
+    if (!floors.has(block)) floors.set(block, new Map());
+    countInto(floors.get(block)!, item.floor || UNKNOWN, item);
+  }
+
+  const firstReportedInDanger = allCases.filter(c => !c.history[0].status.includes("平安"));
+
+  return {
+    reports: byTab.reduce((sum, t) => sum + t.reports, 0),
+    cases: allCases.length,
+    unresolved: allCases.filter(c => !c.resolved).length,
+    markedSafe: {
+      count: firstReportedInDanger.filter(c => c.resolved).length,
+      of: firstReportedInDanger.length,
+    },
+    byStatus: Array.from(byStatus, ([status, cases]) => ({ status, cases })).sort((a, b) => b.cases - a.cases),
+    byBlock: Array.from(blocks, ([block, counts]) => ({
+      block,
+      ...counts,
+      floors: Array.from(floors.get(block)!, ([floor, c]) => ({ floor, ...c })).sort((a, b) => compareLabels(a.floor, b.floor)),
+    })).sort((a, b) => compareLabels(a.block, b.block)),
+    byTab,
+    perHour: hourlySeries(allCases),
+  };
+}
+
+async function getPublicSheetStats(incident: Incident): Promise<PublicSheetStats> {
+  const { data } = await getSheetsCache(incident).get();
+  return {
+    byTab: data.tabs.map(tab => ({ name: tab.name, rows: getSheetTable(data, tab.gid)?.rows.length ?? 0 })),
+  };
+}
+
+export async function getStats(incident: Incident): Promise<StatsResponse> {
+  const response: StatsResponse = { generatedAt: Date.now(), sos: null, sheets: null, errors: [] };
+
+  await Promise.all([
+    (async () => {
+      if (getSOSConfigError(incident)) return;
+      try {
+        response.sos = await getSOSStats(incident);
+      } catch (err) {
+        console.error("[Stats] Failed to count SOS sheet:", err);
+        response.errors.push("SOS sheet");
+      }
+    })(),
+    (async () => {
+      if (!incident.sheetId) return;
+      try {
+        response.sheets = await getPublicSheetStats(incident);
+      } catch (err) {
+        console.error("[Stats] Failed to count public sheet:", err);
+        response.errors.push("public sheet");
+      }
+    })(),
+  ]);
+
+  return response;
+}
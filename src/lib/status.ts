@@ -0,0 +1,102 @@
+import { getIncidents, Incident } from "@/lib/incidents";
+import { getSheetsCache, getSheetTable } from "@/lib/sheets";
+import { getSOSCache, getSOSConfigError, getColumnMappingError, processSheetData } from "@/lib/sos";
+import { getDataSource } from "@/lib/dataSource";
+import { CacheStatus, SnapshotCache } from "@/lib/snapshotCache";
+import { getTabStatus, TabEntry, TabStatus } from "@/lib/tabCache";
+import { getWriteBackStatus, WriteBackStatus } from "@/lib/writeBack";
+
+export interface TabReport extends TabStatus {
+  name: string;
+  id: string; // gid for the public sheet, sheetId for the SOS sheet
+  duration: number | null; // ms taken by the latest fetch of this tab
+  rows: number | null; // null if the tab never loaded or its table couldn't be parsed
+  records: number | null; // SOS rows processSheetData kept
+  mappingError: string | null; // SOS only: why the column mapping doesn't fit this tab
+}
+
+export interface SourceReport extends Omit<CacheStatus, "timestamp"> {
+  configError: string | null;
+  age: number | null; // seconds since the cached data was fetched
+  ttl: number;
+  tabs: TabReport[];
+}
+
+export interface IncidentReport {
+  slug: string;
+  title: string;
+  status: Incident["status"];
+  sheets: SourceReport;
+  sos: SourceReport;
+}
+
+export interface StatusReport {
+  time: number;
+  dataSource: string;
+  incidents: IncidentReport[];
+  writeBack: WriteBackStatus | null; // null when SHEET_WRITEBACK is off
+}
+
+// Builds the report from whatever is cached; never triggers an upstream fetch
+function sourceReport<T>(
+  cache: SnapshotCache<T>,
+  configError: string | null,
+  tabsOf: (data: T) => TabReport[]
+): SourceReport {
+  const { timestamp, ...status } = cache.status();
+  const current = cache.peek();
+
+  return {
+    ...status,
+    configError,
+    age: timestamp ? Math.round((Date.now() - timestamp) / 1000) : null,
+    ttl: Math.round(cache.ttl / 1000),
+    tabs: current ? tabsOf(current.data) : [],
+  };
+}
+
+function tabReport(name: string, id: string, entry: TabEntry<unknown> | undefined) {
+  return { name, id, ...getTabStatus(entry), duration: entry?.duration ?? null };
+}
+
+function incidentReport(incident: Incident): IncidentReport {
+  return {
+    slug: incident.slug,
+    title: incident.title,
+    status: incident.status,
+
+    sheets: sourceReport(
+      getSheetsCache(incident),
+      incident.sheetId ? null : `No public sheet configured for incident ${incident.slug}`,
+      (data) => data.tabs.map((tab) => {
+        const entry = data.sheets.get(tab.gid);
+        return {
+          ...tabReport(tab.name, tab.gid, entry),
+          rows: entry?.value ? getSheetTable(data, tab.gid)?.rows.length ?? null : null,
+          records: null,
+          mappingError: null,
+        };
+      })
+    ),
+
+    sos: sourceReport(getSOSCache(incident), getSOSConfigError(incident), (data) => data.tabs.map((tab) => {
+      const entry = data.sheets.get(tab.id);
+      const rows = entry?.value;
+      return {
+        ...tabReport(tab.name, String(tab.id), entry),
+        rows: rows ? Math.max(rows.length - 1, 0) : null, // excluding the header row
+        records: rows ? processSheetData(rows, incident, tab.name).length : null,
+        mappingError: rows ? getColumnMappingError(rows, incident, tab.name) : null,
+      };
+    })),
+  };
+}
+
+export async function getStatusReport(): Promise<StatusReport> {
+  return {
+    time: Date.now(),
+    dataSource: getDataSource().name,
+    incidents: getIncidents().map(incidentReport),
+    writeBack: await getWriteBackStatus(),
+  };
+}
@@ -0,0 +1,27 @@
+import { createHash } from "crypto";
+import { describe, expect, it } from "vitest";
+import { fetchTabEntries, tabContents } from "@/lib/tabCache";
+
+const tabs = [{ name: "求救個案", id: 0 }, { name: "失聯人士", id: 1 }];
+const rows: Record<number, string[][]> = { 0: [["2座 18樓 C室"]], 1: [["5座 12樓 A室"]] };
+
+// Fetches the tabs with the given one finishing last
+async function fetchWithSlowTab(slow: number) {
+  const sheets = await fetchTabEntries("[TEST]", tabs, tab => tab.id, undefined, async (tab) => {
+    await new Promise(resolve => setTimeout(resolve, tab.id === slow ? 20 : 0));
+    return rows[tab.id];
+  });
+  return { tabs, sheets };
+}
+
+const sha1 = (value: unknown) => createHash("sha1").update(JSON.stringify(value)).digest("hex");
+
+describe("tabContents", () => {
+  it("is the same whichever tab finishes fetching first", async () => {
+    const first = await fetchWithSlowTab(1);
+    const second = await fetchWithSlowTab(0);
+
+    expect(Array.from(first.sheets.keys())).not.toEqual(Array.from(second.sheets.keys()));
+    expect(sha1(tabContents(first))).toBe(sha1(tabContents(second)));
+  });
+});
@@ -0,0 +1,78 @@
+// Per-tab last-known-good entries for the sheet caches.
+// A tab that fails to refresh keeps its previous value and records the error,
+// so a partial outage shows "data 12 minutes old" rather than "no records".
+
+export interface TabEntry<V> {
+  value: V | null; // last good value; null if this tab has never loaded
+  updatedAt: number | null; // when `value` was fetched
+  error: string | null; // why the latest refresh of this tab failed; null if it succeeded
+  failedAt: number | null;
+  duration: number | null; // ms taken by the latest fetch attempt
+}
+
+// What the API reports about a tab's freshness
+export interface TabStatus {
+  age: number | null; // seconds since the data was fetched
+  error: string | null;
+  errorAt: number | null;
+}
+
+export async function fetchTabEntries<T extends { name: string }, K, V>(
+  label: string,
+  tabs: T[],
+  keyOf: (tab: T) => K,
+  previous: Map<K, TabEntry<V>> | undefined,
+  fetchTab: (tab: T) => Promise<V>
+): Promise<Map<K, TabEntry<V>>> {
+  const entries = new Map<K, TabEntry<V>>();
+
+  await Promise.all(tabs.map(async (tab) => {
+    const key = keyOf(tab);
+    const startedAt = Date.now();
+    try {
+      const value = await fetchTab(tab);
+      entries.set(key, { value, updatedAt: Date.now(), error: null, failedAt: null, duration: Date.now() - startedAt });
+    } catch (err) {
+      console.error(`${label} Failed to fetch tab ${tab.name}:`, err);
+
+      const old = previous?.get(key);
+      if (old?.value != null) {
+        console.warn(`${label} Keeping last good data for tab ${tab.name}`);
+      }
+
+      entries.set(key, {
+        value: old?.value ?? null,
+        updatedAt: old?.updatedAt ?? null,
+        error: err instanceof Error ? err.message : String(err),
+        failedAt: Date.now(),
+        duration: Date.now() - startedAt,
+      });
+    }
+  }));
+
+  return entries;
+}
+
+// The tabs and their values without fetch times and errors, which differ on
+// every refresh; the caches compare this to tell whether anything changed.
+// Sorted by key, as the map is filled in whatever order the fetches finish.
+export function tabContents<K, V>(data: { tabs: unknown[]; sheets: Map<K, TabEntry<V>> }) {
+  const values = Array.from(data.sheets, ([key, entry]) => [String(key), entry.value] as const);
+  return { tabs: data.tabs, values: values.sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0)) };
+}
+
+export function getTabStatus(entry: TabEntry<unknown> | undefined): TabStatus {
+  return {
+    age: entry?.updatedAt ? Math.round((Date.now() - entry.updatedAt) / 1000) : null,
+    error: entry?.error ?? null,
+    errorAt: entry?.failedAt ?? null,
+  };
+}
+
+// Snapshots written before per-tab entries stored the bare value
+export function toTabEntry<V>(stored: V | TabEntry<V>, snapshotTime: number): TabEntry<V> {
+  if (stored && typeof stored === "object" && !Array.isArray(stored) && "value" in stored) {
+    return stored;
+  }
+  return { value: stored as V, updatedAt: snapshotTime, error: null, failedAt: null, duration: null };
+}
@@ -0,0 +1,115 @@
+// Google Forms timestamps, as they appear in the response sheets. The format
+// depends on the locale of whoever created the form, and none of them carry a
+// timezone, so every timestamp is read as Hong Kong time - never the server's.
+// Hong Kong has had no daylight saving since 1979, so a fixed offset is exact.
+
+const HK_OFFSET = "+08:00";
+const HK_OFFSET_MS = 8 * 60 * 60 * 1000;
+
+export interface FormTimestamp {
+  iso: string; // e.g. "2025-11-27T09:38:26+08:00"
+  time: number; // ms since epoch
+}
+
+interface TimeParts {
+  year: number;
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+  period?: string; // 上午/下午/中午 or AM/PM
+  offset?: string; // only ISO strings may carry one
+}
+
+const pad = (n: number, width = 2) => String(n).padStart(width, "0");
+
+const num = (s: string | undefined) => (s ? parseInt(s, 10) : 0);
+
+const PATTERNS: ((s: string) => TimeParts | null)[] = [
+  // 2025年11月27日 上午09:38:26, 2025/11/27 下午 2:05:00, 2025-11-27 14:05:00
+  (s) => {
+    const m = s.match(/^(\d{4})\s*[年/.-]\s*(\d{1,2})\s*[月/.-]\s*(\d{1,2})\s*日?\s*(上午|下午|中午)?\s*(\d{1,2}):(\d{2})(?::(\d{2}))?$/);
+    return m && { year: num(m[1]), month: num(m[2]), day: num(m[3]), period: m[4], hour: num(m[5]), minute: num(m[6]), second: num(m[7]) };
+  },
+  // 11/27/2025 9:38:26, 11/27/2025 9:38:26 PM
+  (s) => {
+    const m = s.match(/^(\d{1,2})\/(\d{1,2})\/(\d{4})\s+(\d{1,2}):(\d{2})(?::(\d{2}))?\s*(AM|PM)?$/i);
+    return m && { month: num(m[1]), day: num(m[2]), year: num(m[3]), hour: num(m[4]), minute: num(m[5]), second: num(m[6]), period: m[7]?.toUpperCase() };
+  },
+  // 2025-11-27T09:38:26, with optional fraction and offset
+  (s) => {
+    const m = s.match(/^(\d{4})-(\d{2})-(\d{2})T(\d{2}):(\d{2})(?::(\d{2})(?:\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?$/);
+    return m && { year: num(m[1]), month: num(m[2]), day: num(m[3]), hour: num(m[4]), minute: num(m[5]), second: num(m[6]), offset: m[7] };
+  },
+];
+
+// 12-hour clock to 24-hour. 中午 covers roughly 11:00-13:59, so only the
+// afternoon hours (1, 2...) move.
+function to24Hour(hour: number, period: string | undefined): number | null {
+  if (!period) return hour;
+  if (hour < 1 || hour > 12) return null;
+  switch (period) {
+    case "上午":
+    case "AM":
+      return hour === 12 ? 0 : hour;
+    case "下午":
+    case "PM":
+      return hour === 12 ? 12 : hour + 12;
+    case "中午":
+      return hour < 11 ? hour + 12 : hour;
+    default:
+      return null;
+  }
+}
+
+function offsetMs(offset: string): number {
+  if (offset === "Z") return 0;
+  const [, sign, hours, minutes] = offset.match(/^([+-])(\d{2}):?(\d{2})$/)!;
+  return (sign === "-" ? -1 : 1) * (num(hours) * 60 + num(minutes)) * 60 * 1000;
+}
+
+// Parse a form timestamp as Hong Kong time; null when it isn't one of the known
+// formats or names an impossible date, so callers can show "time unknown"
+export function parseFormTimestamp(raw: string): FormTimestamp | null {
+  const s = raw.trim();
+  if (!s) return null;
+
+  for (const pattern of PATTERNS) {
+    const parts = pattern(s);
+    if (!parts) continue;
+
+    const hour = to24Hour(parts.hour, parts.period);
+    if (hour === null || hour > 23 || parts.minute > 59 || parts.second > 59) return null;
+
+    const wallClock = Date.UTC(parts.year, parts.month - 1, parts.day, hour, parts.minute, parts.second);
+    const check = new Date(wallClock);
+    // Date.UTC rolls 31 Nov over to 1 Dec; reject instead
+    if (check.getUTCFullYear() !== parts.year || check.getUTCMonth() !== parts.month - 1 || check.getUTCDate() !== parts.day) {
+      return null;
+    }
+
+    const time = wallClock - (parts.offset ? offsetMs(parts.offset) : HK_OFFSET_MS);
+    return { iso: toHongKongISO(time), time };
+  }
+
+  return null;
+}
+
+// ISO 8601 with the Hong Kong offset, e.g. "2025-11-27T09:38:26+08:00"
+export function toHongKongISO(time: number): string {
+  const d = new Date(time + HK_OFFSET_MS);
+  return `${d.getUTCFullYear()}-${pad(d.getUTCMonth() + 1)}-${pad(d.getUTCDate())}` +
+    `T${pad(d.getUTCHours())}:${pad(d.getUTCMinutes())}:${pad(d.getUTCSeconds())}${HK_OFFSET}`;
+}
+
+// Newest first, with rows of unknown time after every dated one
+export function compareNewestFirst(a: number | null, b: number | null): number {
+  if (a === null || b === null) return a === b ? 0 : a === null ? 1 : -1;
+  return b - a;
+}
+
+// "2025-11-27 09:38" in Hong Kong time, for printed rosters
+export function formatHongKongTime(time: number): string {
+  return toHongKongISO(time).slice(0, 16).replace("T", " ");
+}
@@ -0,0 +1,122 @@
+import { promises as fs } from "fs";
+import path from "path";
+import { getDefaultIncident, Incident } from "@/lib/incidents";
+import { TriageState, TRIAGE_STATES } from "@/lib/sosFilters";
+
+// Volunteer annotations on SOS cases, kept in TRIAGE_FILE (default .data/triage.json).
+// Keyed by incident and tab id, then case key (block-floor-unit), so they
+// follow the case through sheet refreshes and reordering.
+
+export interface TriageAnnotation {
+  state: TriageState | null;
+  assignee: string;
+  note: string;
+  updatedAt: number;
+  updatedBy: string; // username of the volunteer who last changed it
+}
+
+export interface TriageUpdate {
+  state: TriageState | null;
+  assignee: string;
+  note: string;
+}
+
+type TriageData = Record<string, Record<string, TriageAnnotation>>; // "<slug>/<tabId>" -> case key -> annotation
+
+const TRIAGE_FILE = path.resolve(process.env.TRIAGE_FILE || ".data/triage.json");
+
+export const MAX_NOTE_LENGTH = 1000;
+export const MAX_ASSIGNEE_LENGTH = 50;
+
+interface TriageStoreState {
+  data: TriageData | null;
+  writeQueue: Promise<void>;
+}
+
+// Kept on globalThis so every route bundle shares one copy and one write queue
+const globalForTriage = globalThis as unknown as { triageStore?: TriageStoreState };
+const state = (globalForTriage.triageStore ??= { data: null, writeQueue: Promise.resolve() });
+
+async function load(): Promise<TriageData> {
+  if (!state.data) {
+    try {
+      const data = JSON.parse(await fs.readFile(TRIAGE_FILE, "utf8")) as TriageData;
+      // Files from before the incident registry are keyed by bare tab id
+      const slug = getDefaultIncident().slug;
+      state.data = Object.fromEntries(Object.entries(data).map(([key, tab]) => [/^\d+$/.test(key) ? `${slug}/${key}` : key, tab]));
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code !== "ENOENT") throw err;
+      state.data = {};
+    }
+  }
+  return state.data;
+}
+
+async function save(data: TriageData): Promise<void> {
+  await fs.mkdir(path.dirname(TRIAGE_FILE), { recursive: true });
+  // Temp file then rename, so a crash mid-write never loses every annotation
+  await fs.writeFile(`${TRIAGE_FILE}.tmp`, JSON.stringify(data, null, 2));
+  await fs.rename(`${TRIAGE_FILE}.tmp`, TRIAGE_FILE);
+}
+
+const tabKey = (incident: Incident, tabId: number) => `${incident.slug}/${tabId}`;
+
+export async function getAnnotations(incident: Incident, tabId: number): Promise<Record<string, TriageAnnotation>> {
+  const data = await load();
+  return data[tabKey(incident, tabId)] || {};
+}
+
+// Attaches each case's annotation (or null) by case key
+export async function withTriage<T extends { key: string }>(
+  incident: Incident,
+  tabId: number,
+  cases: T[]
+): Promise<(T & { triage: TriageAnnotation | null })[]> {
+  const annotations = await getAnnotations(incident, tabId);
+  return cases.map(item => ({ ...item, triage: annotations[item.key] ?? null }));
+}
+
+export function validateTriageUpdate(body: Record<string, unknown>): TriageUpdate | string {
+  const { state: triageState, assignee = "", note = "" } = body;
+
+  if (triageState !== null && !TRIAGE_STATES.some(s => s.value === triageState)) {
+    return `state must be one of ${TRIAGE_STATES.map(s => s.value).join(", ")} or null`;
+  }
+  if (typeof assignee !== "string" || assignee.length > MAX_ASSIGNEE_LENGTH) {
+    return `assignee must be a string of at most ${MAX_ASSIGNEE_LENGTH} characters`;
+  }
+  if (typeof note !== "string" || note.length > MAX_NOTE_LENGTH) {
+    return `note must be a string of at most ${MAX_NOTE_LENGTH} characters`;
+  }
+
+  return { state: triageState as TriageState | null, assignee: assignee.trim(), note: note.trim() };
+}
+
+// Sets or clears (all fields empty) the annotation for one case
+export async function setAnnotation(
+  incident: Incident,
+  tabId: number,
+  key: string,
+  update: TriageUpdate,
+  user: string
+): Promise<TriageAnnotation | null> {
+  const result = state.writeQueue.then(async () => {
+    const data = await load();
+    const tab = (data[tabKey(incident, tabId)] ??= {});
+
+    let annotation: TriageAnnotation | null = null;
+    if (!update.state && !update.assignee && !update.note) {
+      delete tab[key];
+    } else {
+      annotation = { ...update, updatedAt: Date.now(), updatedBy: user };
+      tab[key] = annotation;
+    }
+
+    await save(data);
+    console.log(`[TRIAGE] ${user} set ${tabKey(incident, tabId)}/${key} to ${annotation?.state ?? "cleared"}`);
+    return annotation;
+  });
+
+  state.writeQueue = result.then(() => {}, () => {});
+  return result;
+}
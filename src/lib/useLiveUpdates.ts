@@ -0,0 +1,98 @@
+import { useEffect, useRef, useState } from "react";
+import type { LiveRefreshEvent, LiveSource, LiveStatus } from "@/lib/liveUpdates";
+
+// Subscribes to /api/<incident>/events and calls onRefresh whenever the
+// incident's server cache for `source` refreshes. If the stream drops, falls back to calling
+// onRefresh(true) every `pollInterval` until it reconnects.
+export function useLiveUpdates(
+  incident: string,
+  source: LiveSource,
+  pollInterval: number,
+  onRefresh: (changed: boolean) => void
+) {
+  const [live, setLive] = useState(false);
+  const [nextRefreshAt, setNextRefreshAt] = useState<number | null>(null);
+  const [nextRefreshIn, setNextRefreshIn] = useState<number>(0);
+  const onRefreshRef = useRef(onRefresh);
+
+  useEffect(() => {
+    onRefreshRef.current = onRefresh;
+  }, [onRefresh]);
+
+  useEffect(() => {
+    let pollTimer: NodeJS.Timeout | null = null;
+    let connectedBefore = false;
+
+    const schedulePoll = () => {
+      setNextRefreshAt(Date.now() + pollInterval);
+      pollTimer = setTimeout(() => {
+        onRefreshRef.current(true);
+        schedulePoll();
+      }, pollInterval);
+    };
+
+    const startPolling = () => {
+      if (!pollTimer) schedulePoll();
+    };
+
+    const stopPolling = () => {
+      if (pollTimer) clearTimeout(pollTimer);
+      pollTimer = null;
+    };
+
+    if (typeof EventSource === "undefined") {
+      startPolling();
+      return stopPolling;
+    }
+
+    const events = new EventSource(`/api/${incident}/events`);
+
+    events.addEventListener("hello", (e) => {
+      const status: LiveStatus = JSON.parse((e as MessageEvent).data);
+      setLive(true);
+      stopPolling();
+      if (status[source]) setNextRefreshAt(status[source].nextRefreshAt);
+
+      // Catch up on anything missed while disconnected
+      if (connectedBefore) onRefreshRef.current(true);
+      connectedBefore = true;
+    });
+
+    events.addEventListener("refresh", (e) => {
+      const event: LiveRefreshEvent = JSON.parse((e as MessageEvent).data);
+      if (event.source !== source) return;
+      setNextRefreshAt(event.nextRefreshAt);
+      onRefreshRef.current(event.changed);
+    });
+
+    // EventSource keeps retrying on its own; poll in the meantime
+    events.onerror = () => {
+      setLive(false);
+      startPolling();
+    };
+
+    return () => {
+      events.close();
+      stopPolling();
+    };
+  }, [incident, source, pollInterval]);
+
+  // Back online: refresh now rather than wait for the stream to reconnect
+  useEffect(() => {
+    const handleOnline = () => onRefreshRef.current(true);
+    window.addEventListener("online", handleOnline);
+    return () => window.removeEventListener("online", handleOnline);
+  }, []);
+
+  // Countdown to the next expected refresh
+  useEffect(() => {
+    if (nextRefreshAt === null) return;
+
+    const tick = () => setNextRefreshIn(Math.max(0, Math.round((nextRefreshAt - Date.now()) / 1000)));
+    tick();
+    const interval = setInterval(tick, 1000);
+    return () => clearInterval(interval);
+  }, [nextRefreshAt]);
+
+  return { live, nextRefreshIn };
+}
@@ -0,0 +1,58 @@
+import { promises as fs } from "fs";
+import path from "path";
+import { scrypt as scryptCallback, timingSafeEqual } from "crypto";
+import { promisify } from "util";
+import { Role } from "@/lib/session";
+
+const scrypt = promisify(scryptCallback) as (password: string, salt: string, keylen: number) => Promise<Buffer>;
+
+// Volunteer accounts in AUTH_USERS_FILE (default ./config/users.json):
+//   [{ "username": "amy", "passwordHash": "scrypt$<salt>$<hash>", "role": "coordinator" }]
+// Create hashes with: node scripts/hash-password.mjs <password>
+export interface LocalUser {
+  username: string;
+  passwordHash: string;
+  role: Role;
+}
+
+const usersFile = () => path.resolve(process.env.AUTH_USERS_FILE || "./config/users.json");
+
+async function loadUsers(): Promise<LocalUser[]> {
+  try {
+    return JSON.parse(await fs.readFile(usersFile(), "utf8")) as LocalUser[];
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === "ENOENT") return [];
+    throw new Error(`Invalid users file ${usersFile()}: ${err instanceof Error ? err.message : err}`);
+  }
+}
+
+async function verifyPassword(password: string, stored: string): Promise<boolean> {
+  const [scheme, salt, hash] = stored.split("$");
+  if (scheme !== "scrypt" || !salt || !hash) return false;
+
+  const expected = Buffer.from(hash, "hex");
+  const actual = await scrypt(password, salt, expected.length);
+  return timingSafeEqual(expected, actual);
+}
+
+function safeEqual(a: string, b: string): boolean {
+  const left = Buffer.from(a);
+  const right = Buffer.from(b);
+  return left.length === right.length && timingSafeEqual(left, right);
+}
+
+// Checks a username/password pair, or the shared passcode when no username is given.
+// Returns who to issue the session for, or null.
+export async function authenticate(username: string, password: string): Promise<{ user: string; role: Role } | null> {
+  if (!password) return null;
+
+  if (!username) {
+    const passcode = process.env.SOS_PASSCODE;
+    return passcode && safeEqual(password, passcode) ? { user: "passcode", role: "viewer" } : null;
+  }
+
+  const user = (await loadUsers()).find(u => u.username === username);
+  if (!user || !(await verifyPassword(password, user.passwordHash))) return null;
+
+  return { user: user.username, role: user.role };
+}
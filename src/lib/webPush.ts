@@ -0,0 +1,126 @@
+import { createCipheriv, createECDH, createPrivateKey, hkdfSync, KeyObject, randomBytes, sign } from "crypto";
+
+// Minimal Web Push sender: VAPID authentication (RFC 8292) and aes128gcm
+// payload encryption (RFC 8291), using only node:crypto.
+// Keys come from VAPID_PUBLIC_KEY / VAPID_PRIVATE_KEY (base64url, as printed by
+// `node scripts/generate-vapid-keys.mjs`) and VAPID_SUBJECT (mailto: or https: contact).
+
+export interface PushSubscriptionKeys {
+  p256dh: string; // browser's P-256 public key, base64url
+  auth: string; // 16-byte auth secret, base64url
+}
+
+export interface WebPushTarget {
+  endpoint: string;
+  keys: PushSubscriptionKeys;
+}
+
+export interface WebPushOptions {
+  ttl: number; // seconds the push service keeps the message for an offline device
+  urgency?: "very-low" | "low" | "normal" | "high";
+}
+
+const RECORD_SIZE = 4096;
+const JWT_LIFETIME = 12 * 60 * 60; // seconds; push services reject more than 24h
+const REQUEST_TIMEOUT = 10 * 1000;
+
+let vapidKey: { publicKey: string; privateKey: KeyObject } | null = null;
+
+export function getPushConfigError(): string | null {
+  const { VAPID_PUBLIC_KEY, VAPID_PRIVATE_KEY, VAPID_SUBJECT } = process.env;
+  if (!VAPID_PUBLIC_KEY || !VAPID_PRIVATE_KEY) return "VAPID_PUBLIC_KEY and VAPID_PRIVATE_KEY not configured";
+  if (!VAPID_SUBJECT || !/^(mailto:|https:\/\/)/.test(VAPID_SUBJECT)) return "VAPID_SUBJECT must be a mailto: or https: URL";
+  return null;
+}
+
+// Public key for PushManager.subscribe(), or null when push isn't configured
+export function getVapidPublicKey(): string | null {
+  return getPushConfigError() ? null : process.env.VAPID_PUBLIC_KEY!;
+}
+
+function getVapidKey() {
+  const publicKey = process.env.VAPID_PUBLIC_KEY || "";
+  if (vapidKey?.publicKey !== publicKey) {
+    const pub = Buffer.from(publicKey, "base64url");
+    if (pub.length !== 65 || pub[0] !== 4) throw new Error("VAPID_PUBLIC_KEY is not an uncompressed P-256 key");
+
+    const privateKey = createPrivateKey({
+      format: "jwk",
+      key: {
+        kty: "EC",
+        crv: "P-256",
+        x: pub.subarray(1, 33).toString("base64url"),
+        y: pub.subarray(33).toString("base64url"),
+        d: process.env.VAPID_PRIVATE_KEY || "",
+      },
+    });
+    vapidKey = { publicKey, privateKey };
+  }
+  return vapidKey;
+}
+
+// Authorization header value for one push service origin
+function vapidAuthorization(endpoint: string): string {
+  const { publicKey, privateKey } = getVapidKey();
+  const encode = (value: object) => Buffer.from(JSON.stringify(value)).toString("base64url");
+
+  const unsigned = `${encode({ typ: "JWT", alg: "ES256" })}.${encode({
+    aud: new URL(endpoint).origin,
+    exp: Math.floor(Date.now() / 1000) + JWT_LIFETIME,
+    sub: process.env.VAPID_SUBJECT,
+  })}`;
+  const signature = sign("sha256", Buffer.from(unsigned), { key: privateKey, dsaEncoding: "ieee-p1363" });
+  return `vapid t=${unsigned}.${signature.toString("base64url")}, k=${publicKey}`;
+}
+
+const hkdf = (salt: Buffer, ikm: Buffer, info: Buffer, length: number) =>
+  Buffer.from(hkdfSync("sha256", ikm, salt, info, length));
+
+// One-record aes128gcm body: salt | record size | key id (our ephemeral public key) | ciphertext
+export function encryptPayload(keys: PushSubscriptionKeys, payload: string): Buffer {
+  const userPublicKey = Buffer.from(keys.p256dh, "base64url");
+  const authSecret = Buffer.from(keys.auth, "base64url");
+
+  const ecdh = createECDH("prime256v1");
+  const serverPublicKey = ecdh.generateKeys();
+  const sharedSecret = ecdh.computeSecret(userPublicKey);
+
+  const ikm = hkdf(
+    authSecret,
+    sharedSecret,
+    Buffer.concat([Buffer.from("WebPush: info\0"), userPublicKey, serverPublicKey]),
+    32
+  );
+  const salt = randomBytes(16);
+  const key = hkdf(salt, ikm, Buffer.from("Content-Encoding: aes128gcm\0"), 16);
+  const nonce = hkdf(salt, ikm, Buffer.from("Content-Encoding: nonce\0"), 12);
+
+  const cipher = createCipheriv("aes-128-gcm", key, nonce);
+  // 0x02 marks the last (and only) record
+  const ciphertext = Buffer.concat([cipher.update(Buffer.concat([Buffer.from(payload), Buffer.from([2])])), cipher.final(), cipher.getAuthTag()]);
+  if (ciphertext.length > RECORD_SIZE) throw new Error("Push payload too large");
+
+  const header = Buffer.alloc(21);
+  salt.copy(header, 0);
+  header.writeUInt32BE(RECORD_SIZE, 16);
+  header.writeUInt8(serverPublicKey.length, 20);
+  return Buffer.concat([header, serverPublicKey, ciphertext]);
+}
+
+// Send one message; returns the push service's HTTP status.
+// 404 and 410 mean the subscription is gone for good.
+export async function sendWebPush(target: WebPushTarget, payload: string, options: WebPushOptions): Promise<number> {
+  const res = await fetch(target.endpoint, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/octet-stream",
+      "Content-Encoding": "aes128gcm",
+      TTL: String(options.ttl),
+      Urgency: options.urgency || "normal",
+      Authorization: vapidAuthorization(target.endpoint),
+    },
+    body: new Uint8Array(encryptPayload(target.keys, payload)),
+    signal: AbortSignal.timeout(REQUEST_TIMEOUT),
+  });
+  return res.status;
+}
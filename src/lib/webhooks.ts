@@ -0,0 +1,437 @@
+import { createHmac, randomUUID } from "crypto";
+import { promises as fs, readFileSync, statSync } from "fs";
+import path from "path";
+import { getDefaultIncident, getIncident, getIncidents, Incident, isIncidentClosed } from "@/lib/incidents";
+import { redactText } from "@/lib/redact";
+import { getSOSCache, getSOSConfigError, SOSSheetData } from "@/lib/sos";
+import { diffSOSData, SOSChange } from "@/lib/sosChanges";
+
+// Outgoing webhooks for partner rescue groups. When a refresh of an open
+// incident's SOS cache finds new cases or status changes, every target in
+// WEBHOOKS_FILE gets a JSON POST signed with its own secret:
+//   X-SOS-Delivery:  <delivery id>, the same on every retry
+//   X-SOS-Timestamp: <ms since epoch>
+//   X-SOS-Signature: sha256=<hex HMAC-SHA256 of "<timestamp>.<body>">
+// Deliveries are logged in WEBHOOK_LOG_FILE, retried with backoff, and listed
+// at /admin/webhooks. `node scripts/webhook-receiver.mjs` is a local receiver.
+
+const configFile = () => path.resolve(process.env.WEBHOOKS_FILE || "./config/webhooks.json");
+const LOG_FILE = path.resolve(process.env.WEBHOOK_LOG_FILE || ".data/webhooks.json");
+
+const TICK_INTERVAL = 15 * 1000; // how often to check whether the SOS cache is due a refresh
+const FLUSH_INTERVAL = 15 * 1000;
+const REQUEST_TIMEOUT = 10 * 1000;
+const BASE_RETRY_DELAY = 15 * 1000;
+const MAX_RETRY_DELAY = 30 * 60 * 1000;
+const MAX_ATTEMPTS = 8;
+const MAX_LOGGED = 200; // finished deliveries kept for the admin page
+
+export type WebhookEvent = "added" | "changed";
+
+export interface WebhookTarget {
+  name: string;
+  url: string;
+  secret: string;
+  events?: WebhookEvent[]; // default: both
+  tabs?: string[]; // tab names; default: every tab
+  incidents?: string[]; // incident slugs; default: every incident
+}
+
+export type DeliveryStatus = "pending" | "delivered" | "failed";
+
+export interface WebhookDelivery {
+  id: string;
+  incident: string; // slug
+  target: string; // target name
+  url: string;
+  body: string; // exact payload, so retries send the same bytes
+  changes: number;
+  status: DeliveryStatus;
+  attempts: number;
+  nextAttemptAt: number;
+  lastError: string | null;
+  responseStatus: number | null;
+  createdAt: number;
+  deliveredAt: number | null;
+}
+
+interface WebhookLog {
+  cursors: Record<string, number>; // slug -> SOS cache timestamp the deliveries so far were computed up to
+  deliveries: WebhookDelivery[];
+}
+
+// One case in a payload. Built field by field from what processSheetData
+// exposes, so contact-number columns can never end up here.
+export interface WebhookCase {
+  type: WebhookEvent;
+  tab: string;
+  key: string;
+  location: string;
+  block: string | null;
+  floor: string | null;
+  unit: string | null;
+  status: string;
+  previousStatus: string | null;
+  details: string;
+  source: string;
+  extra: Record<string, string>;
+  reportedAt: string | null; // ISO with offset; null when the form timestamp couldn't be parsed
+  reports: number;
+  resolved: boolean;
+}
+
+export interface WebhookStatus {
+  configError: string | null;
+  targets: Omit<WebhookTarget, "secret">[];
+  cursors: Record<string, number>;
+  pending: number;
+  deliveries: WebhookDelivery[]; // newest first
+  lastFlushAt: number | null;
+}
+
+interface WebhookState {
+  started: boolean;
+  subscribed: Set<string>; // incidents whose SOS cache refreshes we listen to
+  log: Promise<WebhookLog> | null;
+  recording: Promise<void>;
+  saving: Promise<void>; // log writes, one at a time
+  flushing: Promise<void> | null;
+  lastFlushAt: number | null;
+}
+
+// Kept on globalThis so the refresh listener, the timers and the admin route share one log
+const globalForWebhooks = globalThis as unknown as { webhooks?: WebhookState };
+const state = (globalForWebhooks.webhooks ??= {
+  started: false,
+  subscribed: new Set(),
+  log: null,
+  recording: Promise.resolve(),
+  saving: Promise.resolve(),
+  flushing: null,
+  lastFlushAt: null,
+});
+
+let loaded: { file: string; mtime: number; targets: WebhookTarget[] } | null = null;
+
+function validateTargets(value: unknown): WebhookTarget[] {
+  if (!Array.isArray(value)) throw new Error("expected an array of targets");
+
+  return value.map((target, i) => {
+    const { name, url, secret, events, tabs, incidents } = target ?? {};
+    if (typeof name !== "string" || !name) throw new Error(`target ${i}: missing name`);
+    if (typeof url !== "string" || !/^https?:\/\//.test(url)) throw new Error(`target ${name}: url must be http(s)`);
+    if (typeof secret !== "string" || secret.length < 16) throw new Error(`target ${name}: secret must be at least 16 characters`);
+    if (events !== undefined && (!Array.isArray(events) || events.some(e => e !== "added" && e !== "changed"))) {
+      throw new Error(`target ${name}: events must be a list of "added" / "changed"`);
+    }
+    if (tabs !== undefined && (!Array.isArray(tabs) || tabs.some(t => typeof t !== "string"))) {
+      throw new Error(`target ${name}: tabs must be a list of tab names`);
+    }
+    if (incidents !== undefined && (!Array.isArray(incidents) || incidents.some(s => typeof s !== "string"))) {
+      throw new Error(`target ${name}: incidents must be a list of incident slugs`);
+    }
+    return { name, url, secret, events, tabs, incidents };
+  });
+}
+
+// Re-read the file whenever it changes, so targets can be added without a restart
+export function getWebhookTargets(): WebhookTarget[] {
+  const file = configFile();
+
+  let mtime: number;
+  try {
+    mtime = statSync(file).mtimeMs;
+  } catch {
+    return []; // no config file: webhooks off
+  }
+
+  if (loaded?.file !== file || loaded.mtime !== mtime) {
+    try {
+      loaded = { file, mtime, targets: validateTargets(JSON.parse(readFileSync(file, "utf8"))) };
+    } catch (err) {
+      throw new Error(`Invalid webhook config ${file}: ${err instanceof Error ? err.message : err}`);
+    }
+  }
+
+  return loaded.targets;
+}
+
+async function readLog(): Promise<WebhookLog> {
+  try {
+    const log = JSON.parse(await fs.readFile(LOG_FILE, "utf8")) as WebhookLog & { cursor?: number | null };
+    // Logs from before the incident registry had one cursor, for the default incident
+    const slug = getDefaultIncident().slug;
+    log.cursors ??= log.cursor ? { [slug]: log.cursor } : {};
+    delete log.cursor;
+    log.deliveries.forEach(d => (d.incident ??= slug));
+    return log;
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code !== "ENOENT") throw err;
+    return { cursors: {}, deliveries: [] };
+  }
+}
+
+// Everyone shares the one copy, even callers that arrive while it is being read
+function loadLog(): Promise<WebhookLog> {
+  state.log ??= readLog().catch(err => {
+    state.log = null;
+    throw err;
+  });
+  return state.log;
+}
+
+// Saves run one after another: the recorder, the flush and the admin route all
+// save, and overlapping writes to the temp file could fail the rename or put an
+// older log in place of a newer one
+function saveLog(log: WebhookLog): Promise<void> {
+  const run = state.saving.then(async () => {
+    // Keep every pending delivery, and the newest finished ones
+    const finished = log.deliveries.filter(d => d.status !== "pending");
+    const dropped = new Set(finished.slice(0, Math.max(0, finished.length - MAX_LOGGED)));
+    log.deliveries = log.deliveries.filter(d => !dropped.has(d));
+
+    await fs.mkdir(path.dirname(LOG_FILE), { recursive: true });
+    await fs.writeFile(`${LOG_FILE}.tmp`, JSON.stringify(log, null, 2));
+    await fs.rename(`${LOG_FILE}.tmp`, LOG_FILE);
+  });
+  state.saving = run.catch(() => {});
+  return run;
+}
+
+function toWebhookCase(change: SOSChange): WebhookCase {
+  const { item } = change;
+  return {
+    type: change.type as WebhookEvent,
+    tab: change.tabName,
+    key: change.key,
+    location: redactText(item.location),
+    block: item.block,
+    floor: item.floor,
+    unit: item.unit,
+    status: item.status,
+    previousStatus: change.previousStatus ?? null,
+    // Free text can still contain a number someone typed in
+    details: redactText(item.details),
+    source: redactText(item.source),
+    extra: Object.fromEntries(Object.entries(item.extra).map(([label, value]) => [label, redactText(value)])),
+    reportedAt: item.timestampISO,
+    reports: item.history.length,
+    resolved: item.resolved,
+  };
+}
+
+export function signPayload(secret: string, timestamp: number, body: string): string {
+  return `sha256=${createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex")}`;
+}
+
+// Work out what changed between the last refresh we saw and this one (`data`,
+// fetched at `timestamp`) and queue one delivery per interested target
+async function recordChanges(incident: Incident, timestamp: number, data: SOSSheetData): Promise<void> {
+  const log = await loadLog();
+  const since = log.cursors[incident.slug] ?? null;
+  log.cursors[incident.slug] = timestamp;
+
+  const targets = getWebhookTargets().filter(t => !t.incidents || t.incidents.includes(incident.slug));
+  // First run: start from now rather than announce every existing case.
+  // Closed incidents keep their cursor moving but notify no one.
+  if (since === null || since >= timestamp || targets.length === 0 || isIncidentClosed(incident)) {
+    await saveLog(log);
+    return;
+  }
+
+  const baseline = await getSOSCache(incident).getSnapshot(since);
+  if (!baseline) {
+    console.warn(`[WEBHOOK] No snapshot at ${new Date(since).toISOString()} to compare with, skipping`);
+    await saveLog(log);
+    return;
+  }
+
+  const changes = diffSOSData(baseline.data, data, incident).filter(c => c.type !== "removed");
+  const sentAt = new Date(timestamp).toISOString();
+
+  for (const target of targets) {
+    const events = target.events || ["added", "changed"];
+    const selected = changes.filter(c =>
+      events.includes(c.type as WebhookEvent) && (!target.tabs || target.tabs.includes(c.tabName))
+    );
+    if (selected.length === 0) continue;
+
+    const id = randomUUID();
+    log.deliveries.push({
+      id,
+      incident: incident.slug,
+      target: target.name,
+      url: target.url,
+      body: JSON.stringify({
+        id,
+        event: "sos.changes",
+        incident: incident.slug,
+        refreshedAt: sentAt,
+        changes: selected.map(toWebhookCase),
+      }),
+      changes: selected.length,
+      status: "pending",
+      attempts: 0,
+      nextAttemptAt: Date.now(),
+      lastError: null,
+      responseStatus: null,
+      createdAt: Date.now(),
+      deliveredAt: null,
+    });
+    console.log(`[WEBHOOK] Queued ${selected.length} ${incident.slug} change(s) for ${target.name}`);
+  }
+
+  await saveLog(log);
+  flushSoon();
+}
+
+function retryLater(delivery: WebhookDelivery, error: string) {
+  delivery.attempts++;
+  delivery.lastError = error;
+  delivery.nextAttemptAt = Date.now() + Math.min(BASE_RETRY_DELAY * 2 ** (delivery.attempts - 1), MAX_RETRY_DELAY);
+  if (delivery.attempts >= MAX_ATTEMPTS) delivery.status = "failed";
+  console.error(`[WEBHOOK] Delivery ${delivery.id} to ${delivery.target} failed (attempt ${delivery.attempts}):`, error);
+}
+
+async function send(delivery: WebhookDelivery): Promise<void> {
+  const target = getWebhookTargets().find(t => t.name === delivery.target);
+  if (!target) {
+    delivery.status = "failed";
+    delivery.lastError = "Target no longer configured";
+    return;
+  }
+
+  const timestamp = Date.now();
+  try {
+    const res = await fetch(target.url, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "User-Agent": "taipo-sos-webhooks",
+        "X-SOS-Delivery": delivery.id,
+        "X-SOS-Timestamp": String(timestamp),
+        "X-SOS-Signature": signPayload(target.secret, timestamp, delivery.body),
+      },
+      body: delivery.body,
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT),
+    });
+    delivery.responseStatus = res.status;
+
+    if (res.ok) {
+      delivery.status = "delivered";
+      delivery.attempts++;
+      delivery.deliveredAt = Date.now();
+      delivery.lastError = null;
+      console.log(`[WEBHOOK] Delivered ${delivery.id} to ${delivery.target}`);
+    } else {
+      retryLater(delivery, `HTTP ${res.status}`);
+    }
+  } catch (err) {
+    retryLater(delivery, err instanceof Error ? err.message : String(err));
+  }
+}
+
+async function flush(): Promise<void> {
+  const log = await loadLog();
+  const now = Date.now();
+  const due = log.deliveries.filter(d => d.status === "pending" && d.nextAttemptAt <= now);
+  if (due.length === 0) return;
+
+  try {
+    for (const delivery of due) {
+      await send(delivery);
+    }
+  } finally {
+    state.lastFlushAt = Date.now();
+    await saveLog(log);
+  }
+}
+
+// Runs a flush unless one is already in progress
+function flushSoon(): Promise<void> {
+  state.flushing ??= flush()
+    .catch(err => console.error("[WEBHOOK] Flush failed:", err))
+    .finally(() => {
+      state.flushing = null;
+    });
+  return state.flushing;
+}
+
+// Listen to every incident's SOS cache, including ones added to the registry later
+function subscribe(incidents: Incident[]) {
+  for (const { slug } of incidents) {
+    if (state.subscribed.has(slug)) continue;
+    state.subscribed.add(slug);
+
+    getSOSCache(getIncident(slug)!).onRefresh(({ timestamp, changed, data }) => {
+      const incident = getIncident(slug);
+      if (!changed || !incident) return;
+      // One at a time, so the cursors move forward in order
+      state.recording = state.recording
+        .then(() => recordChanges(incident, timestamp, data))
+        .catch(err => console.error(`[WEBHOOK] Failed to record ${slug} changes:`, err));
+    });
+  }
+}
+
+// Keep open incidents' SOS caches refreshing on schedule while any target is
+// configured, so partners hear about new rows without anyone having the page open
+function tick() {
+  let incidents: Incident[];
+  try {
+    incidents = getIncidents();
+    subscribe(incidents);
+    if (getWebhookTargets().length === 0) return;
+  } catch (err) {
+    console.error("[WEBHOOK]", err instanceof Error ? err.message : err);
+    return;
+  }
+
+  for (const incident of incidents) {
+    if (isIncidentClosed(incident) || getSOSConfigError(incident)) continue;
+    getSOSCache(incident).get().catch(err => console.error(`[WEBHOOK] ${incident.slug} SOS refresh failed:`, err));
+  }
+}
+
+// Called once at server start (src/instrumentation.ts)
+export function startWebhooks() {
+  if (state.started) return;
+  state.started = true;
+
+  setInterval(tick, TICK_INTERVAL).unref?.();
+  setInterval(flushSoon, FLUSH_INTERVAL).unref?.();
+  tick();
+}
+
+// Queue a failed delivery again, e.g. after the partner fixed their endpoint
+export async function retryDelivery(id: string): Promise<boolean> {
+  const log = await loadLog();
+  const delivery = log.deliveries.find(d => d.id === id);
+  if (!delivery || delivery.status !== "failed") return false;
+
+  Object.assign(delivery, { status: "pending", attempts: 0, nextAttemptAt: Date.now(), lastError: null });
+  await saveLog(log);
+  console.log(`[WEBHOOK] Retrying ${id}`);
+  flushSoon();
+  return true;
+}
+
+export async function getWebhookStatus(): Promise<WebhookStatus> {
+  let targets: WebhookTarget[] = [];
+  let configError: string | null = null;
+  try {
+    targets = getWebhookTargets();
+  } catch (err) {
+    configError = err instanceof Error ? err.message : String(err);
+  }
+
+  const log = await loadLog();
+  return {
+    configError,
+    targets: targets.map(({ name, url, events, tabs, incidents }) => ({ name, url, events, tabs, incidents })),
+    cursors: log.cursors,
+    pending: log.deliveries.filter(d => d.status === "pending").length,
+    deliveries: [...log.deliveries].reverse(),
+    lastFlushAt: state.lastFlushAt,
+  };
+}
@@ -0,0 +1,94 @@
+import { promises as fs } from "fs";
+import { describe, expect, it } from "vitest";
+import { getDefaultIncident } from "@/lib/incidents";
+import { FakeSheetsClient, getSheetsWriteClient } from "@/lib/sheetWriter";
+import { TriageAnnotation } from "@/lib/triage";
+import { enqueueWriteBack, flushWriteBack, getWriteBackStatus, resolveWriteBack } from "@/lib/writeBack";
+
+process.env.SHEET_WRITEBACK = "tab";
+
+// DATA_SOURCE=file comes with the in-memory fake sheet
+const client = getSheetsWriteClient() as FakeSheetsClient;
+const incident = getDefaultIncident();
+const TAB = "demo/義工跟進";
+
+const annotation = (note: string): TriageAnnotation => ({
+  state: "calling",
+  assignee: "",
+  note,
+  updatedAt: Date.parse("2025-11-26T10:00:00Z"),
+  updatedBy: "c1",
+});
+
+const sheetRow = (id: string) => client.tabs.get(TAB)?.find(row => row[0] === id);
+
+describe("write-back outbox", () => {
+  it("keeps an edit made while the previous one is being written", async () => {
+    const append = client.append;
+    client.append = async (...args) => {
+      client.append = append;
+      await enqueueWriteBack(incident, 0, "求救個案", "2-18-C", annotation("second"), "c1");
+      return append(...args);
+    };
+
+    await enqueueWriteBack(incident, 0, "求救個案", "2-18-C", annotation("first"), "c1");
+    await flushWriteBack();
+    expect(sheetRow("0:2-18-C")?.[5]).toBe("first");
+    expect((await getWriteBackStatus())?.pending).toBe(1);
+
+    await flushWriteBack();
+    expect(sheetRow("0:2-18-C")?.[5]).toBe("second");
+    expect((await getWriteBackStatus())?.pending).toBe(0);
+    expect(client.tabs.get(TAB)?.filter(row => row[0] === "0:2-18-C")).toHaveLength(1);
+  });
+
+  it("saves every edit when many arrive at once", async () => {
+    const keys = Array.from({ length: 20 }, (_, i) => `1-${i + 1}-A`);
+    await Promise.all(keys.map(key => enqueueWriteBack(incident, 0, "求救個案", key, annotation(key), "c1")));
+    await flushWriteBack();
+    await flushWriteBack();
+
+    expect(keys.every(key => sheetRow(`0:${key}`)?.[5] === key)).toBe(true);
+    const outbox = JSON.parse(await fs.readFile(process.env.WRITEBACK_OUTBOX_FILE!, "utf8"));
+    expect(outbox.entries).toEqual([]);
+  });
+
+  it("holds a row edited in the sheet until a coordinator resolves it", async () => {
+    const id = "0:3-5-B";
+    const editInSheet = (note: string) => {
+      sheetRow(id)![5] = note;
+    };
+    const conflicts = async () => (await getWriteBackStatus())!.conflicts.map(e => e.id);
+
+    await enqueueWriteBack(incident, 0, "求救個案", "3-5-B", annotation("ours"), "c1");
+    await flushWriteBack();
+    expect(sheetRow(id)?.[5]).toBe("ours");
+
+    // Overwrite: our queued edit replaces the sheet's
+    editInSheet("edited in sheet");
+    await enqueueWriteBack(incident, 0, "求救個案", "3-5-B", annotation("again"), "c1");
+    await flushWriteBack();
+    expect(await conflicts()).toEqual([id]);
+    expect(sheetRow(id)?.[5]).toBe("edited in sheet");
+
+    expect(await resolveWriteBack(incident, id, "overwrite")).toBe(true);
+    await flushWriteBack();
+    expect(await conflicts()).toEqual([]);
+    expect(sheetRow(id)?.[5]).toBe("again");
+
+    // Discard: the sheet's edit stays and later edits build on it without a new conflict
+    editInSheet("edited in sheet");
+    await enqueueWriteBack(incident, 0, "求救個案", "3-5-B", annotation("dropped"), "c1");
+    await flushWriteBack();
+    expect(await conflicts()).toEqual([id]);
+
+    expect(await resolveWriteBack(incident, id, "discard")).toBe(true);
+    expect(await conflicts()).toEqual([]);
+    expect(sheetRow(id)?.[5]).toBe("edited in sheet");
+
+    await enqueueWriteBack(incident, 0, "求救個案", "3-5-B", annotation("later"), "c1");
+    await flushWriteBack();
+    expect(await conflicts()).toEqual([]);
+    expect(sheetRow(id)?.[5]).toBe("later");
+  });
+});
@@ -0,0 +1,376 @@
+import { promises as fs } from "fs";
+import path from "path";
+import { getDefaultIncident, getIncident, Incident } from "@/lib/incidents";
+import { TRIAGE_STATES } from "@/lib/sosFilters";
+import { getSheetsWriteClient } from "@/lib/sheetWriter";
+import { TriageAnnotation } from "@/lib/triage";
+
+// Optional write-back of triage annotations into a tab of each incident's SOS
+// sheet (SHEET_WRITEBACK=tab), one row per case, so groups working from the
+// spreadsheet see our outcomes. Writes go through a durable outbox file:
+// they survive restarts, are retried with backoff, and a row edited in the
+// sheet since we last wrote it is held as a conflict instead of overwritten.
+
+const HEADER = ["編號", "分頁", "個案", "處理狀態", "負責義工", "備註", "更新者", "更新時間"];
+const LAST_COLUMN = "H";
+
+const OUTBOX_FILE = path.resolve(process.env.WRITEBACK_OUTBOX_FILE || ".data/writeback-outbox.json");
+const FLUSH_INTERVAL = 30 * 1000;
+const BASE_RETRY_DELAY = 30 * 1000;
+const MAX_RETRY_DELAY = 30 * 60 * 1000;
+const MAX_ATTEMPTS = 10;
+
+export type OutboxStatus = "pending" | "conflict" | "failed";
+
+export interface OutboxEntry {
+  incident: string; // slug; decides which SOS sheet the row goes to
+  id: string; // "<tabId>:<case key>", also the first column of the row; newer edits replace a queued one
+  row: string[];
+  status: OutboxStatus;
+  force: boolean; // overwrite even if the sheet row changed (set when a coordinator resolves a conflict)
+  attempts: number;
+  nextAttemptAt: number;
+  lastError: string | null;
+  queuedAt: number;
+}
+
+interface OutboxFile {
+  entries: OutboxEntry[];
+  written: Record<string, string[]>; // "<slug>/<id>" -> row as we last wrote it, to spot edits made in the sheet
+}
+
+export interface WriteBackStatus {
+  tab: string;
+  client: string;
+  pending: number;
+  conflicts: OutboxEntry[];
+  failed: OutboxEntry[];
+  lastFlushAt: number | null;
+  lastError: string | null;
+}
+
+interface WriteBackState {
+  outbox: OutboxFile | null;
+  queue: Promise<void>; // every read-modify-write of the outbox, one after another
+  flushing: Promise<void> | null;
+  timer: NodeJS.Timeout | null;
+  readyTabs: Set<string>; // spreadsheets whose write-back tab exists with a header
+  lastFlushAt: number | null;
+  lastError: string | null;
+}
+
+// Kept on globalThis so the triage route, the status route and the timer share one outbox
+const globalForWriteBack = globalThis as unknown as { writeBack?: WriteBackState };
+const state = (globalForWriteBack.writeBack ??= {
+  outbox: null,
+  queue: Promise.resolve(),
+  flushing: null,
+  timer: null,
+  readyTabs: new Set(),
+  lastFlushAt: null,
+  lastError: null,
+});
+
+export function isWriteBackEnabled(): boolean {
+  return process.env.SHEET_WRITEBACK === "tab";
+}
+
+// Lives in the SOS spreadsheet itself, so the SOS list leaves it out of its tabs
+export const writeBackTab = () => process.env.SHEET_WRITEBACK_TAB || "義工跟進";
+const tabRange = (range: string) => `'${writeBackTab().replace(/'/g, "''")}'!${range}`;
+
+async function loadOutbox(): Promise<OutboxFile> {
+  if (!state.outbox) {
+    try {
+      const outbox = JSON.parse(await fs.readFile(OUTBOX_FILE, "utf8")) as OutboxFile;
+      // Outboxes from before the incident registry only held the default incident's rows
+      const slug = getDefaultIncident().slug;
+      outbox.entries.forEach(entry => (entry.incident ??= slug));
+      outbox.written = Object.fromEntries(Object.entries(outbox.written).map(([key, row]) => [/^\d+:/.test(key) ? `${slug}/${key}` : key, row]));
+      state.outbox = outbox;
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code !== "ENOENT") throw err;
+      state.outbox = { entries: [], written: {} };
+    }
+  }
+  return state.outbox;
+}
+
+async function saveOutbox(outbox: OutboxFile): Promise<void> {
+  await fs.mkdir(path.dirname(OUTBOX_FILE), { recursive: true });
+  await fs.writeFile(`${OUTBOX_FILE}.tmp`, JSON.stringify(outbox, null, 2));
+  await fs.rename(`${OUTBOX_FILE}.tmp`, OUTBOX_FILE);
+}
+
+// Runs `change` on the outbox once every earlier change has finished, so a
+// triage edit, a coordinator's decision and a flush settling its writes never
+// interleave, and only one save uses the temp file at a time
+function withOutbox<R>(change: (outbox: OutboxFile) => R | Promise<R>): Promise<R> {
+  const result = state.queue.then(async () => change(await loadOutbox()));
+  state.queue = result.then(() => {}, () => {});
+  return result;
+}
+
+function toRow(id: string, tabName: string, key: string, annotation: TriageAnnotation | null, user: string): string[] {
+  return [
+    id,
+    tabName,
+    key,
+    TRIAGE_STATES.find(s => s.value === annotation?.state)?.label || "",
+    annotation?.assignee || "",
+    annotation?.note || "",
+    annotation?.updatedBy || user,
+    new Date(annotation?.updatedAt ?? Date.now()).toISOString(),
+  ];
+}
+
+const sameRow = (a: string[], b: string[]) =>
+  HEADER.every((_, i) => (a[i] || "") === (b[i] || ""));
+
+const writtenKey = (entry: { incident: string; id: string }) => `${entry.incident}/${entry.id}`;
+
+async function ensureTab(spreadsheetId: string) {
+  if (state.readyTabs.has(spreadsheetId)) return;
+
+  const client = getSheetsWriteClient();
+  if (!(await client.listTabs(spreadsheetId)).includes(writeBackTab())) {
+    console.log(`[WRITEBACK] Creating tab "${writeBackTab()}"`);
+    await client.addTab(spreadsheetId, writeBackTab());
+  }
+
+  const header = await client.read(spreadsheetId, tabRange(`A1:${LAST_COLUMN}1`));
+  if (!header[0] || !sameRow(header[0], HEADER)) {
+    await client.update(spreadsheetId, tabRange(`A1:${LAST_COLUMN}1`), [HEADER]);
+  }
+  state.readyTabs.add(spreadsheetId);
+}
+
+async function flush(): Promise<void> {
+  const now = Date.now();
+  // Copies: a triage edit queued while the sheet is being written changes the
+  // outbox entry, not the row we are writing
+  const { due, written } = await withOutbox(outbox => ({
+    due: outbox.entries
+      .filter(e => e.status === "pending" && e.nextAttemptAt <= now)
+      .map(e => ({ ...e, row: [...e.row] })),
+    written: { ...outbox.written },
+  }));
+  if (due.length === 0) return;
+
+  const done = new Set<OutboxEntry>();
+  try {
+    // One incident's sheet at a time; a failure on one doesn't hold up the others
+    let lastError: string | null = null;
+    for (const slug of new Set(due.map(e => e.incident))) {
+      const error = await flushIncident(slug, due.filter(e => e.incident === slug), written, done);
+      lastError ??= error;
+    }
+    state.lastError = lastError;
+  } finally {
+    state.lastFlushAt = Date.now();
+    await withOutbox(outbox => settle(outbox, due, done));
+  }
+}
+
+// Records the outcome of each attempt in the outbox. A written entry is only
+// removed if it still holds the row we wrote; a newer edit stays queued.
+async function settle(outbox: OutboxFile, attempts: OutboxEntry[], done: Set<OutboxEntry>): Promise<void> {
+  for (const attempt of attempts) {
+    const entry = outbox.entries.find(e => e.incident === attempt.incident && e.id === attempt.id);
+
+    if (done.has(attempt)) {
+      outbox.written[writtenKey(attempt)] = attempt.row;
+      if (entry && sameRow(entry.row, attempt.row)) {
+        outbox.entries = outbox.entries.filter(e => e !== entry);
+      }
+    } else if (entry && entry.status === "pending" && entry.force === attempt.force) {
+      // Conflict or failed attempt, unless a coordinator has decided on it meanwhile
+      const { status, attempts: count, nextAttemptAt, lastError } = attempt;
+      Object.assign(entry, { status, attempts: count, nextAttemptAt, lastError });
+    }
+  }
+  await saveOutbox(outbox);
+}
+
+// Returns why the incident's sheet couldn't be reached, or null
+async function flushIncident(
+  slug: string,
+  due: OutboxEntry[],
+  written: OutboxFile["written"],
+  done: Set<OutboxEntry>
+): Promise<string | null> {
+  const spreadsheetId = getIncident(slug)?.sosSheetId;
+  if (!spreadsheetId) {
+    const error = `No SOS sheet configured for incident ${slug}`;
+    due.forEach(entry => retryLater(entry, new Error(error)));
+    return error;
+  }
+  const client = getSheetsWriteClient();
+
+  try {
+    await ensureTab(spreadsheetId);
+
+    // Row number of every case already in the tab
+    const rows = await client.read(spreadsheetId, tabRange(`A:${LAST_COLUMN}`));
+    const rowNumbers = new Map<string, number>();
+    rows.forEach((row, i) => {
+      if (i > 0 && row[0]) rowNumbers.set(row[0], i + 1);
+    });
+
+    for (const entry of due) {
+      try {
+        const rowNumber = rowNumbers.get(entry.id);
+        const current = rowNumber ? rows[rowNumber - 1] : null;
+        const lastWritten = written[writtenKey(entry)];
+
+        if (current && !entry.force && (!lastWritten || !sameRow(current, lastWritten))) {
+          entry.status = "conflict";
+          entry.lastError = "此列已在試算表中被修改";
+          console.warn(`[WRITEBACK] Conflict on ${writtenKey(entry)}, row ${rowNumber} was edited in the sheet`);
+          continue;
+        }
+
+        if (rowNumber) {
+          await client.update(spreadsheetId, tabRange(`A${rowNumber}:${LAST_COLUMN}${rowNumber}`), [entry.row]);
+          rows[rowNumber - 1] = entry.row;
+        } else {
+          await client.append(spreadsheetId, tabRange(`A:${LAST_COLUMN}`), [entry.row]);
+          rows.push(entry.row);
+          rowNumbers.set(entry.id, rows.length);
+        }
+
+        done.add(entry);
+        console.log(`[WRITEBACK] Wrote ${slug}/${entry.id}`);
+      } catch (err) {
+        retryLater(entry, err);
+      }
+    }
+    return null;
+  } catch (err) {
+    // Couldn't reach the sheet at all - every due entry waits for the next attempt
+    state.readyTabs.delete(spreadsheetId);
+    due.forEach(entry => retryLater(entry, err));
+    return err instanceof Error ? err.message : String(err);
+  }
+}
+
+function retryLater(entry: OutboxEntry, err: unknown) {
+  entry.attempts++;
+  entry.lastError = err instanceof Error ? err.message : String(err);
+  entry.nextAttemptAt = Date.now() + Math.min(BASE_RETRY_DELAY * 2 ** (entry.attempts - 1), MAX_RETRY_DELAY);
+  if (entry.attempts >= MAX_ATTEMPTS) entry.status = "failed";
+  console.error(`[WRITEBACK] Failed to write ${writtenKey(entry)} (attempt ${entry.attempts}):`, entry.lastError);
+}
+
+// Writes every due entry now, unless a flush is already in progress (then
+// resolves with that one). Also runs every FLUSH_INTERVAL once something is queued.
+export function flushWriteBack(): Promise<void> {
+  state.flushing ??= flush()
+    .catch(err => console.error("[WRITEBACK] Flush failed:", err))
+    .finally(() => {
+      state.flushing = null;
+    });
+  return state.flushing;
+}
+
+function ensureTimer() {
+  if (!state.timer) {
+    state.timer = setInterval(flushWriteBack, FLUSH_INTERVAL);
+    state.timer.unref?.();
+  }
+}
+
+// Queue the current annotation of a case for writing to the sheet
+export async function enqueueWriteBack(
+  incident: Incident,
+  tabId: number,
+  tabName: string,
+  key: string,
+  annotation: TriageAnnotation | null,
+  user: string
+): Promise<void> {
+  if (!isWriteBackEnabled()) return;
+
+  const id = `${tabId}:${key}`;
+  const row = toRow(id, tabName, key, annotation, user);
+
+  await withOutbox(async outbox => {
+    const existing = outbox.entries.find(e => e.incident === incident.slug && e.id === id);
+    if (existing) {
+      // Newer edit replaces the queued one; a conflict stays a conflict until a coordinator resolves it
+      existing.row = row;
+      if (existing.status === "failed") existing.status = "pending";
+    } else {
+      outbox.entries.push({
+        incident: incident.slug,
+        id,
+        row,
+        status: "pending",
+        force: false,
+        attempts: 0,
+        nextAttemptAt: Date.now(),
+        lastError: null,
+        queuedAt: Date.now(),
+      });
+    }
+    await saveOutbox(outbox);
+  });
+
+  ensureTimer();
+  flushWriteBack();
+}
+
+// Coordinator decision on a conflicting or failed write:
+//   "overwrite" - write our version over the sheet row
+//   "discard"   - keep the sheet row and drop our queued write
+export async function resolveWriteBack(incident: Incident, id: string, action: "overwrite" | "discard"): Promise<boolean> {
+  const exists = await withOutbox(outbox => outbox.entries.some(e => e.incident === incident.slug && e.id === id));
+  if (!exists) return false;
+
+  // Read before taking the outbox, so a slow sheet doesn't hold up triage edits
+  const rows = action === "discard"
+    ? await getSheetsWriteClient().read(incident.sosSheetId || "", tabRange(`A:${LAST_COLUMN}`))
+    : [];
+
+  const resolved = await withOutbox(async outbox => {
+    const entry = outbox.entries.find(e => e.incident === incident.slug && e.id === id);
+    if (!entry) return false;
+
+    if (action === "overwrite") {
+      Object.assign(entry, { status: "pending", force: true, attempts: 0, nextAttemptAt: Date.now(), lastError: null });
+    } else {
+      // Adopt the sheet's version so later edits of this case aren't flagged again
+      const current = rows.find((row, i) => i > 0 && row[0] === id);
+      if (current) outbox.written[writtenKey(entry)] = current;
+      outbox.entries = outbox.entries.filter(e => e !== entry);
+    }
+
+    await saveOutbox(outbox);
+    return true;
+  });
+  if (!resolved) return false;
+
+  console.log(`[WRITEBACK] ${action} ${incident.slug}/${id}`);
+  if (action === "overwrite") flushWriteBack();
+  return true;
+}
+
+// Every incident's outbox, or only the given incident's
+export async function getWriteBackStatus(incident?: Incident): Promise<WriteBackStatus | null> {
+  if (!isWriteBackEnabled()) return null;
+
+  const all = await withOutbox(outbox => outbox.entries.map(e => ({ ...e })));
+  // Entries left from before a restart start moving again once someone looks
+  if (all.some(e => e.status === "pending")) ensureTimer();
+
+  const entries = incident ? all.filter(e => e.incident === incident.slug) : all;
+  return {
+    tab: writeBackTab(),
+    client: getSheetsWriteClient().name,
+    pending: entries.filter(e => e.status === "pending").length,
+    conflicts: entries.filter(e => e.status === "conflict"),
+    failed: entries.filter(e => e.status === "failed"),
+    lastFlushAt: state.lastFlushAt,
+    lastError: state.lastError,
+  };
+}
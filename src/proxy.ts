@@ -0,0 +1,94 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  getAuthConfigError,
+  hasRole,
+  Role,
+  SESSION_COOKIE,
+  createSessionToken,
+  sessionCookieOptions,
+  sessionTtl,
+  verifySessionToken,
+} from "@/lib/session";
+
+// Every incident's SOS pages and API sit under its slug: /<slug>/sos, /api/<slug>/sos.
+// SOS_PATH also covers the pre-registry alias /api/sos.
+const COORDINATOR_API = /^\/api\/[^/]+\/sos\/(export|roster|writeback)(\/|$)/;
+const SOS_PATH = /^(\/api)?\/[^/]+\/sos(\/|$)/;
+const SNAPSHOTS_API = /^\/api\/[^/]+\/snapshots$/;
+const ADMIN_PATH = /^\/admin(\/|$)/; // not incident slugs that start with "admin"
+const LITE_SOS = /^\/lite\/[^/]+\/sos$/;
+
+// Minimum role for each protected path; first match wins
+function requiredRole(request: NextRequest): Role | null {
+  const { pathname, searchParams } = request.nextUrl;
+
+  if (ADMIN_PATH.test(pathname) || pathname === "/api/status" || pathname === "/api/webhooks") return "coordinator";
+  if (COORDINATOR_API.test(pathname)) return "coordinator";
+  if (SOS_PATH.test(pathname) || LITE_SOS.test(pathname)) return "viewer";
+  if (SNAPSHOTS_API.test(pathname) && searchParams.get("source") === "sos") return "viewer";
+
+  return null;
+}
+
+export function proxy(request: NextRequest) {
+  const role = requiredRole(request);
+  if (!role) return NextResponse.next();
+
+  const isApi = request.nextUrl.pathname.startsWith("/api/");
+  const configError = getAuthConfigError();
+  if (configError) {
+    console.error(`[AUTH] ${configError}`);
+    return isApi
+      ? NextResponse.json({ error: configError }, { status: 500 })
+      : new NextResponse(configError, { status: 500 });
+  }
+
+  const session = verifySessionToken(request.cookies.get(SESSION_COOKIE)?.value);
+
+  if (!session) {
+    if (isApi) {
+      // Pages keep what they already show and ask the volunteer to log in again
+      return NextResponse.json({ error: "未登入或登入已過期，請重新登入", reauth: true }, { status: 401 });
+    }
+    // Lite pages log in through a form that works without JavaScript
+    const loginPath = request.nextUrl.pathname.startsWith("/lite/") ? "/lite/login" : "/login";
+    const loginUrl = new URL(loginPath, request.url);
+    loginUrl.searchParams.set("next", request.nextUrl.pathname + request.nextUrl.search);
+    return NextResponse.redirect(loginUrl);
+  }
+
+  if (!hasRole(session, role)) {
+    return isApi
+      ? NextResponse.json({ error: "權限不足" }, { status: 403 })
+      : new NextResponse("權限不足", { status: 403 });
+  }
+
+  const response = NextResponse.next();
+  let expires = session.exp;
+
+  // Sliding expiry: renew once half the session has passed so active volunteers stay logged in
+  if (session.exp - Date.now() < sessionTtl() / 2) {
+    const { token, session: renewed } = createSessionToken(session.user, session.role, session.sid);
+    response.cookies.set(SESSION_COOKIE, token, sessionCookieOptions(sessionTtl()));
+    expires = renewed.exp;
+  }
+
+  // The service worker stops serving its offline copy of SOS data after this
+  response.headers.set("X-Session-Expires", String(expires));
+
+  return response;
+}
+
+export const config = {
+  matcher: [
+    "/:incident/sos",
+    "/:incident/sos/:path*",
+    "/api/:incident/sos",
+    "/api/:incident/sos/:path*",
+    "/api/:incident/snapshots",
+    "/lite/:incident/sos",
+    "/admin/:path*",
+    "/api/status",
+    "/api/webhooks",
+  ],
+};
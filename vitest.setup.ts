@@ -0,0 +1,27 @@
+import { cpSync, mkdtempSync, rmSync } from "fs";
+import os from "os";
+import path from "path";
+import { afterAll } from "vitest";
+
+// Every test file runs offline against its own copy of the bundled fixtures
+// (DATA_SOURCE=file, the default incident on the "demo" sheets) and keeps
+// snapshots, outboxes and logs in a throwaway directory.
+const dir = mkdtempSync(path.join(os.tmpdir(), "taipo-test-"));
+cpSync(path.resolve(__dirname, "fixtures"), path.join(dir, "fixtures"), { recursive: true });
+
+Object.assign(process.env, {
+  DATA_SOURCE: "file",
+  DATA_SOURCE_DIR: path.join(dir, "fixtures"),
+  SHEET_ID: "demo",
+  SOS_SHEET_ID: "demo",
+  INCIDENTS_FILE: path.join(dir, "incidents.json"),
+  SNAPSHOT_DIR: path.join(dir, "snapshots"),
+  TRIAGE_FILE: path.join(dir, "triage.json"),
+  WRITEBACK_OUTBOX_FILE: path.join(dir, "writeback-outbox.json"),
+  WEBHOOKS_FILE: path.join(dir, "webhooks.json"),
+  WEBHOOK_LOG_FILE: path.join(dir, "webhooks-log.json"),
+  PUSH_SUBSCRIPTIONS_FILE: path.join(dir, "push-subscriptions.json"),
+  AUTH_USERS_FILE: path.join(dir, "users.json"),
+});
+
+afterAll(() => rmSync(dir, { recursive: true, force: true }));